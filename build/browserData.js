@@ -0,0 +1,103 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Browser support of recent elements and attributes, added to the data generated from vscode-web-custom-data.
+// Browsers are given by code and first supported version: E (Edge), FF (Firefox), S (Safari), C (Chrome), IE, O (Opera).
+// See https://github.com/mdn/browser-compat-data and https://web-platform-dx.github.io/web-features/
+
+const tagBrowsers = {
+	dialog: {
+		browsers: ['E79', 'FF98', 'S15.4', 'C37', 'O24'],
+		baseline: { baseline: 'high', baseline_low_date: '2022-03-14', baseline_high_date: '2024-09-14' }
+	}
+};
+
+const newGlobalAttributes = [
+	{
+		name: 'popover',
+		description: 'Turns the element into a popover that is hidden until it is shown by a button with a `popovertarget` attribute or by `showPopover()`. `auto` popovers close when the user clicks outside of them or opens another popover, `manual` popovers only close explicitly.',
+		values: ['auto', 'manual'],
+		url: 'https://developer.mozilla.org/docs/Web/HTML/Global_attributes/popover',
+		browsers: ['E114', 'FF125', 'S17', 'C114', 'O100'],
+		baseline: { baseline: 'low', baseline_low_date: '2024-04-16' }
+	},
+	{
+		name: 'inert',
+		description: 'Makes the element and its content inert: they cannot be focused or clicked and are hidden from assistive technologies.',
+		valueSet: 'v',
+		url: 'https://developer.mozilla.org/docs/Web/HTML/Global_attributes/inert',
+		browsers: ['E102', 'FF112', 'S15.5', 'C102', 'O88'],
+		baseline: { baseline: 'low', baseline_low_date: '2023-04-11' }
+	}
+];
+
+const newAttributes = {
+	img: [
+		{
+			name: 'loading',
+			description: 'How the browser loads the image: `eager` loads it immediately, `lazy` defers loading until the image is near the viewport.',
+			values: ['eager', 'lazy'],
+			url: 'https://developer.mozilla.org/docs/Web/HTML/Element/img#loading',
+			browsers: ['E79', 'FF75', 'S15.4', 'C77', 'O64'],
+			baseline: { baseline: 'high', baseline_low_date: '2022-03-14', baseline_high_date: '2024-09-14' }
+		},
+		{
+			name: 'fetchpriority',
+			description: 'A hint of the priority of fetching the image relative to other images.',
+			values: ['high', 'low', 'auto'],
+			url: 'https://developer.mozilla.org/docs/Web/HTML/Element/img#fetchpriority',
+			browsers: ['E102', 'FF132', 'S17.2', 'C102', 'O88'],
+			baseline: { baseline: 'low', baseline_low_date: '2024-10-29' }
+		}
+	]
+};
+
+function toAttributeData(attribute) {
+	const result = {
+		name: attribute.name,
+		description: {
+			kind: 'markdown',
+			value: attribute.description
+		}
+	};
+	if (attribute.values) {
+		result.values = attribute.values.map(name => ({ name }));
+	}
+	if (attribute.valueSet) {
+		result.valueSet = attribute.valueSet;
+	}
+	result.browsers = attribute.browsers;
+	result.baseline = attribute.baseline;
+	result.references = [
+		{
+			name: 'MDN Reference',
+			url: attribute.url
+		}
+	];
+	return result;
+}
+
+/**
+ * Sets the `browsers` and `baseline` of elements and adds recent attributes that the data does not define.
+ */
+function addBrowserData(data) {
+	for (const tag of data.tags) {
+		const browserData = tagBrowsers[tag.name];
+		if (browserData) {
+			tag.browsers = browserData.browsers;
+			tag.baseline = browserData.baseline;
+		}
+		const attributes = newAttributes[tag.name] || [];
+		for (const attribute of attributes) {
+			tag.attributes.push(toAttributeData(attribute));
+		}
+	}
+	for (const attribute of newGlobalAttributes) {
+		data.globalAttributes.push(toAttributeData(attribute));
+	}
+	return data;
+}
+
+module.exports = { addBrowserData };
@@ -0,0 +1,147 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Content categories and content models of the HTML standard, added to the data generated from vscode-web-custom-data.
+// See https://html.spec.whatwg.org/multipage/indices.html#elements-3
+
+const phrasing = [
+	'a', 'abbr', 'audio', 'b', 'bdi', 'bdo', 'br', 'button', 'canvas', 'cite', 'code', 'data', 'datalist', 'del', 'dfn', 'em', 'embed', 'i', 'iframe', 'img',
+	'input', 'ins', 'kbd', 'label', 'map', 'mark', 'meter', 'noscript', 'object', 'output', 'picture', 'progress', 'q', 'ruby', 's', 'samp', 'script',
+	'select', 'slot', 'small', 'span', 'strong', 'sub', 'sup', 'template', 'textarea', 'time', 'u', 'var', 'video', 'wbr'
+];
+
+const categories = {
+	flow: [
+		...phrasing, 'address', 'article', 'aside', 'blockquote', 'details', 'dialog', 'div', 'dl', 'fieldset', 'figure', 'footer', 'form',
+		'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr', 'main', 'menu', 'nav', 'ol', 'p', 'pre', 'search', 'section', 'table', 'ul'
+	],
+	phrasing,
+	metadata: ['base', 'link', 'meta', 'noscript', 'script', 'style', 'template', 'title'],
+	sectioning: ['article', 'aside', 'nav', 'section'],
+	heading: ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hgroup'],
+	embedded: ['audio', 'canvas', 'embed', 'iframe', 'img', 'object', 'picture', 'video'],
+	interactive: ['a', 'button', 'details', 'embed', 'iframe', 'input', 'label', 'select', 'textarea'],
+	'script-supporting': ['script', 'template']
+};
+
+const sectioningAndHeading = ['header', 'footer', 'sectioning', 'heading'];
+
+const contentModels = {
+	a: { permittedChildren: ['transparent'], prohibitedDescendants: ['interactive'] },
+	abbr: { permittedChildren: ['phrasing'] },
+	address: { permittedChildren: ['flow'], prohibitedDescendants: [...sectioningAndHeading, 'address'] },
+	article: { permittedChildren: ['flow'] },
+	aside: { permittedChildren: ['flow'] },
+	audio: { permittedChildren: ['source', 'track', 'transparent'] },
+	b: { permittedChildren: ['phrasing'] },
+	bdi: { permittedChildren: ['phrasing'] },
+	bdo: { permittedChildren: ['phrasing'] },
+	blockquote: { permittedChildren: ['flow'] },
+	body: { permittedChildren: ['flow'], permittedParents: ['html'] },
+	button: { permittedChildren: ['phrasing'], prohibitedDescendants: ['interactive'] },
+	canvas: { permittedChildren: ['transparent'] },
+	caption: { permittedChildren: ['flow'], permittedParents: ['table'], prohibitedDescendants: ['table'] },
+	cite: { permittedChildren: ['phrasing'] },
+	code: { permittedChildren: ['phrasing'] },
+	col: { permittedParents: ['colgroup'] },
+	colgroup: { permittedChildren: ['col'], permittedParents: ['table'] },
+	data: { permittedChildren: ['phrasing'] },
+	datalist: { permittedChildren: ['phrasing', 'option'] },
+	dd: { permittedChildren: ['flow'], permittedParents: ['dl', 'div'] },
+	del: { permittedChildren: ['transparent'] },
+	details: { permittedChildren: ['summary', 'flow'] },
+	dfn: { permittedChildren: ['phrasing'], prohibitedDescendants: ['dfn'] },
+	dialog: { permittedChildren: ['flow'] },
+	div: { permittedChildren: ['flow', 'dt', 'dd'] },
+	dl: { permittedChildren: ['dt', 'dd', 'div'] },
+	dt: { permittedChildren: ['flow'], permittedParents: ['dl', 'div'], prohibitedDescendants: sectioningAndHeading },
+	em: { permittedChildren: ['phrasing'] },
+	fieldset: { permittedChildren: ['legend', 'flow'] },
+	figcaption: { permittedChildren: ['flow'], permittedParents: ['figure'] },
+	figure: { permittedChildren: ['figcaption', 'flow'] },
+	footer: { permittedChildren: ['flow'], prohibitedDescendants: ['header', 'footer'] },
+	form: { permittedChildren: ['flow'], prohibitedDescendants: ['form'] },
+	h1: { permittedChildren: ['phrasing'] },
+	h2: { permittedChildren: ['phrasing'] },
+	h3: { permittedChildren: ['phrasing'] },
+	h4: { permittedChildren: ['phrasing'] },
+	h5: { permittedChildren: ['phrasing'] },
+	h6: { permittedChildren: ['phrasing'] },
+	head: { permittedChildren: ['metadata'], permittedParents: ['html'] },
+	header: { permittedChildren: ['flow'], prohibitedDescendants: ['header', 'footer'] },
+	hgroup: { permittedChildren: ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'] },
+	html: { permittedChildren: ['head', 'body'] },
+	i: { permittedChildren: ['phrasing'] },
+	ins: { permittedChildren: ['transparent'] },
+	kbd: { permittedChildren: ['phrasing'] },
+	label: { permittedChildren: ['phrasing'], prohibitedDescendants: ['label'] },
+	legend: { permittedChildren: ['phrasing', 'heading'], permittedParents: ['fieldset'] },
+	li: { permittedChildren: ['flow'], permittedParents: ['ul', 'ol', 'menu'] },
+	main: { permittedChildren: ['flow'] },
+	map: { permittedChildren: ['area', 'transparent'] },
+	mark: { permittedChildren: ['phrasing'] },
+	menu: { permittedChildren: ['li'] },
+	meter: { permittedChildren: ['phrasing'], prohibitedDescendants: ['meter'] },
+	nav: { permittedChildren: ['flow'] },
+	object: { permittedChildren: ['param', 'transparent'] },
+	ol: { permittedChildren: ['li'] },
+	optgroup: { permittedChildren: ['option'], permittedParents: ['select'] },
+	option: { permittedParents: ['select', 'datalist', 'optgroup'] },
+	output: { permittedChildren: ['phrasing'] },
+	p: { permittedChildren: ['phrasing'] },
+	param: { permittedParents: ['object'] },
+	picture: { permittedChildren: ['source', 'img'] },
+	pre: { permittedChildren: ['phrasing'] },
+	progress: { permittedChildren: ['phrasing'], prohibitedDescendants: ['progress'] },
+	q: { permittedChildren: ['phrasing'] },
+	rp: { permittedParents: ['ruby'] },
+	rt: { permittedChildren: ['phrasing'], permittedParents: ['ruby'] },
+	ruby: { permittedChildren: ['phrasing', 'rt', 'rp'] },
+	s: { permittedChildren: ['phrasing'] },
+	samp: { permittedChildren: ['phrasing'] },
+	search: { permittedChildren: ['flow'] },
+	section: { permittedChildren: ['flow'] },
+	select: { permittedChildren: ['option', 'optgroup', 'hr'] },
+	small: { permittedChildren: ['phrasing'] },
+	source: { permittedParents: ['picture', 'audio', 'video'] },
+	span: { permittedChildren: ['phrasing'] },
+	strong: { permittedChildren: ['phrasing'] },
+	sub: { permittedChildren: ['phrasing'] },
+	summary: { permittedChildren: ['phrasing', 'heading'], permittedParents: ['details'] },
+	sup: { permittedChildren: ['phrasing'] },
+	table: { permittedChildren: ['caption', 'colgroup', 'thead', 'tbody', 'tfoot', 'tr'] },
+	tbody: { permittedChildren: ['tr'], permittedParents: ['table'] },
+	td: { permittedChildren: ['flow'], permittedParents: ['tr'] },
+	tfoot: { permittedChildren: ['tr'], permittedParents: ['table'] },
+	th: { permittedChildren: ['flow'], permittedParents: ['tr'], prohibitedDescendants: sectioningAndHeading },
+	thead: { permittedChildren: ['tr'], permittedParents: ['table'] },
+	time: { permittedChildren: ['phrasing'] },
+	title: { permittedParents: ['head'] },
+	tr: { permittedChildren: ['td', 'th'], permittedParents: ['table', 'thead', 'tbody', 'tfoot'] },
+	track: { permittedParents: ['audio', 'video'] },
+	u: { permittedChildren: ['phrasing'] },
+	ul: { permittedChildren: ['li'] },
+	var: { permittedChildren: ['phrasing'] },
+	video: { permittedChildren: ['source', 'track', 'transparent'] }
+};
+
+/**
+ * Sets the `categories`, `permittedChildren`, `permittedParents` and `prohibitedDescendants` of the elements.
+ */
+function addContentModelData(data) {
+	for (const tag of data.tags) {
+		const tagCategories = Object.keys(categories).filter(category => categories[category].indexOf(tag.name) !== -1);
+		if (tagCategories.length) {
+			tag.categories = tagCategories;
+		}
+		const contentModel = contentModels[tag.name];
+		if (contentModel) {
+			Object.assign(tag, contentModel);
+		}
+	}
+	return data;
+}
+
+module.exports = { addContentModelData };
@@ -7,7 +7,11 @@ const fs = require('fs')
 const path = require('path')
 const os = require('os')
 
-const customData = require('vscode-web-custom-data/data/browsers.html-data.json');
+const { addObsoleteData } = require('./obsoleteData');
+const { addBrowserData } = require('./browserData');
+const { addContentModelData } = require('./contentModelData');
+
+const customData = addContentModelData(addBrowserData(addObsoleteData(require('vscode-web-custom-data/data/browsers.html-data.json'))));
 
 function toJavaScript(obj) {
 	return JSON.stringify(obj, null, '\t');
@@ -0,0 +1,165 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Obsolete elements and attributes of the HTML standard, added to the data generated from vscode-web-custom-data.
+// See https://html.spec.whatwg.org/multipage/obsolete.html#non-conforming-features
+
+const obsoleteTags = [
+	{ name: 'acronym', description: 'The acronym element marked an abbreviation or an acronym.', replacement: 'Use the `abbr` element.' },
+	{ name: 'applet', description: 'The applet element embedded a Java applet.', replacement: 'Use the `object` element.', attributes: ['code', 'codebase', 'archive', 'width', 'height'] },
+	{ name: 'basefont', description: 'The basefont element set the default font of the document.', replacement: 'Use the CSS `font` and `color` properties.', attributes: ['color', 'face', 'size'] },
+	{ name: 'big', description: 'The big element rendered its text one font size bigger.', replacement: 'Use the CSS `font-size` property.' },
+	{ name: 'blink', description: 'The blink element made its text blink.', replacement: 'Use CSS animations.' },
+	{ name: 'center', description: 'The center element centered its content horizontally.', replacement: 'Use the CSS `text-align` or `margin` properties.' },
+	{ name: 'dir', description: 'The dir element represented a list of directory entries.', replacement: 'Use the `ul` element.' },
+	{ name: 'font', description: 'The font element set the size, the color and the typeface of its text.', replacement: 'Use the CSS `font` and `color` properties.', attributes: ['color', 'face', 'size'] },
+	{ name: 'frame', description: 'The frame element defined a region of a `frameset`.', replacement: 'Use the `iframe` element.', attributes: ['src', 'name', 'noresize', 'scrolling', 'frameborder'] },
+	{ name: 'frameset', description: 'The frameset element divided the window into `frame` elements.', replacement: 'Use the `iframe` element or CSS layout.', attributes: ['cols', 'rows'] },
+	{ name: 'marquee', description: 'The marquee element scrolled its content.', replacement: 'Use CSS animations.', attributes: ['behavior', 'bgcolor', 'direction', 'loop', 'scrollamount', 'scrolldelay'] },
+	{ name: 'noframes', description: 'The noframes element held the content for browsers without support for frames.', replacement: 'Remove the element.' },
+	{ name: 'strike', description: 'The strike element rendered its text with a line through it.', replacement: 'Use the `s` or `del` element.' },
+	{ name: 'tt', description: 'The tt element rendered its text in a monospace font.', replacement: 'Use the `code`, `kbd` or `samp` element, or the CSS `font-family` property.' }
+];
+
+// elements of the generated data that are obsolete
+const obsoleteDataTags = {
+	rb: 'Put the base text directly into the `ruby` element.'
+};
+
+// obsolete attributes of the generated data, by element
+const obsoleteAttributes = {
+	a: ['charset', 'coords', 'name', 'rev', 'shape'],
+	body: ['alink', 'background', 'bgcolor', 'link', 'text', 'vlink'],
+	br: ['clear'],
+	caption: ['align'],
+	col: ['align', 'char', 'charoff', 'valign', 'width'],
+	colgroup: ['align', 'char', 'charoff', 'valign', 'width'],
+	div: ['align'],
+	dl: ['compact'],
+	embed: ['align', 'hspace', 'name', 'vspace'],
+	h1: ['align'], h2: ['align'], h3: ['align'], h4: ['align'], h5: ['align'], h6: ['align'],
+	head: ['profile'],
+	hr: ['align', 'color', 'noshade', 'size', 'width'],
+	html: ['manifest', 'version'],
+	iframe: ['align', 'frameborder', 'longdesc', 'marginheight', 'marginwidth', 'scrolling'],
+	img: ['align', 'border', 'hspace', 'longdesc', 'name', 'vspace'],
+	input: ['align', 'usemap'],
+	legend: ['align'],
+	li: ['type'],
+	link: ['charset', 'rev', 'target'],
+	meta: ['scheme'],
+	object: ['align', 'archive', 'border', 'classid', 'codebase', 'codetype', 'declare', 'hspace', 'standby', 'vspace'],
+	ol: ['compact'],
+	p: ['align'],
+	pre: ['width'],
+	script: ['charset', 'event', 'for', 'language'],
+	table: ['align', 'bgcolor', 'cellpadding', 'cellspacing', 'frame', 'rules', 'summary', 'width'],
+	tbody: ['align', 'char', 'charoff', 'valign'],
+	td: ['abbr', 'align', 'axis', 'bgcolor', 'char', 'charoff', 'height', 'nowrap', 'scope', 'valign', 'width'],
+	tfoot: ['align', 'char', 'charoff', 'valign'],
+	th: ['align', 'axis', 'bgcolor', 'char', 'charoff', 'height', 'nowrap', 'valign', 'width'],
+	thead: ['align', 'char', 'charoff', 'valign'],
+	tr: ['align', 'bgcolor', 'char', 'charoff', 'valign'],
+	ul: ['compact', 'type']
+};
+
+// replacement hints by attribute name
+const attributeReplacements = {
+	abbr: 'Use the `abbr` attribute of a `th` element.',
+	align: 'Use the CSS `text-align`, `vertical-align` or `float` properties.',
+	alink: 'Use the CSS `color` property of `a:active`.',
+	archive: 'Use the `data` and `type` attributes.',
+	axis: 'Use the `scope` attribute of a `th` element.',
+	background: 'Use the CSS `background-image` property.',
+	bgcolor: 'Use the CSS `background-color` property.',
+	border: 'Use the CSS `border` property.',
+	cellpadding: 'Use the CSS `padding` property of the cells.',
+	cellspacing: 'Use the CSS `border-spacing` property.',
+	char: 'Use the CSS `text-align` property.',
+	charoff: 'Use the CSS `text-align` property.',
+	charset: 'Use an HTTP `Content-Type` header for the linked resource.',
+	classid: 'Use the `data` and `type` attributes.',
+	clear: 'Use the CSS `clear` property.',
+	codebase: 'Use the `data` and `type` attributes.',
+	codetype: 'Use the `type` attribute.',
+	color: 'Use the CSS `color` property.',
+	compact: 'Use CSS to style the list.',
+	coords: 'Use an `area` element in a `map` element.',
+	declare: 'Repeat the `object` element where it is used.',
+	event: 'Use DOM event listeners.',
+	for: 'Use DOM event listeners.',
+	frame: 'Use the CSS `border` property.',
+	frameborder: 'Use the CSS `border` property.',
+	height: 'Use the CSS `height` property.',
+	hspace: 'Use the CSS `margin` property.',
+	language: 'Use the `type` attribute, or omit it for JavaScript.',
+	link: 'Use the CSS `color` property of `a:link`.',
+	longdesc: 'Link to the description with an `a` element.',
+	manifest: 'Use a service worker.',
+	marginheight: 'Use the CSS `margin` property in the embedded document.',
+	marginwidth: 'Use the CSS `margin` property in the embedded document.',
+	name: 'Use the `id` attribute.',
+	noshade: 'Use the CSS `border` and `background-color` properties.',
+	nowrap: 'Use the CSS `white-space` property.',
+	profile: 'Remove the attribute.',
+	rev: 'Use the `rel` attribute with the opposite keyword.',
+	rules: 'Use the CSS `border` property.',
+	scheme: 'Include the scheme in the `content` attribute.',
+	scope: 'Use a `th` element for header cells.',
+	scrolling: 'Use the CSS `overflow` property in the embedded document.',
+	shape: 'Use an `area` element in a `map` element.',
+	size: 'Use the CSS `height` property.',
+	standby: 'Optimize the linked resource so that it loads quickly.',
+	summary: 'Use a `caption` element or a description referenced by `aria-describedby`.',
+	target: 'Remove the attribute.',
+	text: 'Use the CSS `color` property.',
+	type: 'Use the CSS `list-style-type` property.',
+	usemap: 'Use an `img` element.',
+	valign: 'Use the CSS `vertical-align` property.',
+	version: 'Remove the attribute.',
+	vlink: 'Use the CSS `color` property of `a:visited`.',
+	vspace: 'Use the CSS `margin` property.',
+	width: 'Use the CSS `width` property.'
+};
+
+/**
+ * Sets the `status` and `replacement` of the obsolete elements and attributes and adds the obsolete elements that the data does not define.
+ */
+function addObsoleteData(data) {
+	for (const tag of data.tags) {
+		if (obsoleteDataTags[tag.name]) {
+			tag.status = 'obsolete';
+			tag.replacement = obsoleteDataTags[tag.name];
+		}
+		const attributes = obsoleteAttributes[tag.name] || [];
+		for (const attribute of tag.attributes) {
+			if (attributes.indexOf(attribute.name) !== -1) {
+				attribute.status = 'obsolete';
+				attribute.replacement = attributeReplacements[attribute.name];
+			}
+		}
+	}
+	for (const tag of obsoleteTags) {
+		data.tags.push({
+			name: tag.name,
+			description: {
+				kind: 'markdown',
+				value: tag.description
+			},
+			status: 'obsolete',
+			replacement: tag.replacement,
+			attributes: (tag.attributes || []).map(name => ({ name })),
+			references: [
+				{
+					name: 'MDN Reference',
+					url: 'https://developer.mozilla.org/docs/Web/HTML/Element/' + tag.name
+				}
+			]
+		});
+	}
+	return data;
+}
+
+module.exports = { addObsoleteData };
@@ -4,20 +4,28 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { createScanner } from './parser/htmlScanner';
-import { parse } from './parser/htmlParser';
+import { HTMLDocumentCache } from './parser/htmlDocumentCache';
 import { HTMLCompletion } from './services/htmlCompletion';
 import { HTMLHover } from './services/htmlHover';
-import { format } from './services/htmlFormatter';
+import { format, doOnTypeFormatting } from './services/htmlFormatter';
 import { findDocumentLinks } from './services/htmlLinks';
 import { findDocumentHighlights } from './services/htmlHighlighting';
-import { findDocumentSymbols } from './services/htmlSymbolsProvider';
-import { doRename } from './services/htmlRename';
+import { findDocumentSymbols, findDocumentSymbols2 } from './services/htmlSymbolsProvider';
+import { doRename, prepareRename } from './services/htmlRename';
 import { findMatchingTagPosition } from './services/htmlMatchingTagPosition';
 import { findLinkedEditingRanges } from './services/htmlLinkedEditing';
+import { HTMLValidation } from './services/htmlValidation';
+import { getDocumentRegions } from './services/htmlDocumentRegions';
+import { findDefinition, findReferences } from './services/htmlReferences';
+import { HTMLCodeActions } from './services/htmlCodeActions';
+import { findDocumentColors, getColorPresentations } from './services/htmlColors';
+import { HTMLSemanticTokens } from './services/htmlSemanticTokens';
 import {
 	Scanner, HTMLDocument, CompletionConfiguration, ICompletionParticipant, HTMLFormatConfiguration, DocumentContext,
 	IHTMLDataProvider, HTMLDataV1, LanguageServiceOptions, TextDocument, SelectionRange, WorkspaceEdit,
-	Position, CompletionList, Hover, Range, SymbolInformation, TextEdit, DocumentHighlight, DocumentLink, FoldingRange, HoverSettings
+	Position, CompletionList, Hover, Range, SymbolInformation, TextEdit, DocumentHighlight, DocumentLink, FoldingRange, HoverSettings,
+	Diagnostic, ValidationSettings, TextDocumentContentChangeEvent, HTMLDocumentRegions, Location, PrepareRenameResult, DocumentSymbol, DocumentSymbolsSettings,
+	CodeAction, CodeActionContext, Color, ColorInformation, ColorPresentation, SemanticTokens, SemanticTokensDelta, SemanticTokensLegend
 } from './htmlLanguageTypes';
 import { getFoldingRanges } from './services/htmlFolding';
 import { getSelectionRanges } from './services/htmlSelectionRange';
@@ -30,23 +38,65 @@ export * from './htmlLanguageTypes';
 export interface LanguageService {
 	setDataProviders(useDefaultDataProvider: boolean, customDataProviders: IHTMLDataProvider[]): void;
 	createScanner(input: string, initialOffset?: number): Scanner;
+	/**
+	 * Returns the parsed document. The result is cached by URI and version and shared by all callers and services: it must not be modified.
+	 * A cached document only changes when it is passed to `updateHTMLDocument`, documents of earlier versions are not affected by later calls.
+	 */
 	parseHTMLDocument(document: TextDocument): HTMLDocument;
+	/**
+	 * Updates a previously parsed document after the given content changes have been applied to `document`, reparsing only what the changes affect.
+	 * The nodes of `htmlDocument` are reused by the returned document, `htmlDocument` must not be used anymore. Callers that keep a
+	 * document of an earlier version must not pass it here. The returned document replaces the cached document of `document`.
+	 */
+	updateHTMLDocument(document: TextDocument, htmlDocument: HTMLDocument, changes: TextDocumentContentChangeEvent[]): HTMLDocument;
+	/**
+	 * Removes the parsed document and its last semantic tokens from the service's caches, to be called when the document is closed.
+	 */
+	onDocumentRemoved(document: TextDocument): void;
+	/**
+	 * Clears the service's caches of parsed documents and semantic tokens.
+	 */
+	dispose(): void;
 	findDocumentHighlights(document: TextDocument, position: Position, htmlDocument: HTMLDocument): DocumentHighlight[];
 	doComplete(document: TextDocument, position: Position, htmlDocument: HTMLDocument, options?: CompletionConfiguration): CompletionList;
 	doComplete2(document: TextDocument, position: Position, htmlDocument: HTMLDocument, documentContext: DocumentContext, options?: CompletionConfiguration): Promise<CompletionList>;
 	setCompletionParticipants(registeredCompletionParticipants: ICompletionParticipant[]): void;
 	doHover(document: TextDocument, position: Position, htmlDocument: HTMLDocument, options?: HoverSettings): Hover | null;
 	format(document: TextDocument, range: Range | undefined, options: HTMLFormatConfiguration): TextEdit[];
+	/**
+	 * Computes the edits after `ch` was typed at `position`: indents a new line (`\n`) and aligns closing tags (`/` and `>`).
+	 */
+	doOnTypeFormatting(document: TextDocument, position: Position, ch: string, htmlDocument: HTMLDocument, options: HTMLFormatConfiguration): TextEdit[];
 	findDocumentLinks(document: TextDocument, documentContext: DocumentContext): DocumentLink[];
 	findDocumentSymbols(document: TextDocument, htmlDocument: HTMLDocument): SymbolInformation[];
+	findDocumentSymbols2(document: TextDocument, htmlDocument: HTMLDocument, settings?: DocumentSymbolsSettings): DocumentSymbol[];
 	doTagComplete(document: TextDocument, position: Position, htmlDocument: HTMLDocument): string | null;
 	getFoldingRanges(document: TextDocument, context?: { rangeLimit?: number }): FoldingRange[];
 	getSelectionRanges(document: TextDocument, positions: Position[]): SelectionRange[];
 	doRename(document: TextDocument, position: Position, newName: string, htmlDocument: HTMLDocument): WorkspaceEdit | null;
+	prepareRename(document: TextDocument, position: Position, htmlDocument: HTMLDocument): PrepareRenameResult | null;
 	findMatchingTagPosition(document: TextDocument, position: Position, htmlDocument: HTMLDocument): Position | null;
 	/** Deprecated, Use findLinkedEditingRanges instead */
 	findOnTypeRenameRanges(document: TextDocument, position: Position, htmlDocument: HTMLDocument): Range[] | null;
 	findLinkedEditingRanges(document: TextDocument, position: Position, htmlDocument: HTMLDocument): Range[] | null;
+	doValidation(document: TextDocument, htmlDocument: HTMLDocument, settings?: ValidationSettings): Diagnostic[];
+	getDocumentRegions(document: TextDocument): HTMLDocumentRegions;
+	getEmbeddedDocument(document: TextDocument, languageId: string): TextDocument;
+	findDefinition(document: TextDocument, position: Position, htmlDocument: HTMLDocument): Location | null;
+	findReferences(document: TextDocument, position: Position, htmlDocument: HTMLDocument): Location[];
+	doCodeActions(document: TextDocument, range: Range, context: CodeActionContext, htmlDocument: HTMLDocument, options?: HTMLFormatConfiguration): CodeAction[];
+	findDocumentColors(document: TextDocument, htmlDocument: HTMLDocument): ColorInformation[];
+	getColorPresentations(document: TextDocument, htmlDocument: HTMLDocument, color: Color, range: Range): ColorPresentation[];
+	/**
+	 * The token types and token modifiers of the semantic tokens. The types `element`, `attribute`, `attributeValue` and `comment` are
+	 * custom types, not standard types of the language server protocol, so clients need to map them to their themes.
+	 * Elements and attributes defined by the HTML data providers have no modifier, other names are `custom` (custom elements,
+	 * unknown attributes), `unknown` (elements without a hyphen), `data` (`data-*` attributes) or `eventHandler` (`on*` attributes).
+	 * Deprecated and obsolete elements and attributes are `deprecated`.
+	 */
+	getSemanticTokenLegend(): SemanticTokensLegend;
+	getSemanticTokens(document: TextDocument, range?: Range): SemanticTokens;
+	getSemanticTokensDelta(document: TextDocument, previousResultId: string): SemanticTokens | SemanticTokensDelta;
 }
 
 const defaultLanguageServiceOptions = {};
@@ -56,26 +106,63 @@ export function getLanguageService(options: LanguageServiceOptions = defaultLang
 
 	const htmlHover = new HTMLHover(options, dataManager);
 	const htmlCompletion = new HTMLCompletion(options, dataManager);
+	const htmlValidation = new HTMLValidation(dataManager);
+	const htmlCodeActions = new HTMLCodeActions(dataManager);
+	const documentCache = new HTMLDocumentCache(typeof options.documentCacheSize === 'number' ? options.documentCacheSize : 10);
+	const htmlSemanticTokens = new HTMLSemanticTokens(dataManager, documentCache);
+	const getCachedDocumentRegions = (document: TextDocument) => documentCache.getDerivedData(document, 'documentRegions', () => getDocumentRegions(document));
 
 	return {
-		setDataProviders: dataManager.setDataProviders.bind(dataManager),
+		setDataProviders: (useDefaultDataProvider, customDataProviders) => {
+			dataManager.setDataProviders(useDefaultDataProvider, customDataProviders);
+			documentCache.clearDerivedData();
+		},
 		createScanner,
-		parseHTMLDocument: document => parse(document.getText()),
+		parseHTMLDocument: documentCache.get.bind(documentCache),
+		updateHTMLDocument: documentCache.update.bind(documentCache),
+		onDocumentRemoved: document => {
+			documentCache.onDocumentRemoved(document);
+			htmlSemanticTokens.onDocumentRemoved(document);
+		},
+		dispose: () => {
+			documentCache.dispose();
+			htmlSemanticTokens.dispose();
+		},
 		doComplete: htmlCompletion.doComplete.bind(htmlCompletion),
 		doComplete2: htmlCompletion.doComplete2.bind(htmlCompletion),
 		setCompletionParticipants: htmlCompletion.setCompletionParticipants.bind(htmlCompletion),
 		doHover: htmlHover.doHover.bind(htmlHover),
-		format,
+		format: (document, range, options) => {
+			const dataProviders = dataManager.getDataProviders().filter(p => p.isApplicable(document.languageId));
+			return format(document, range, options, dataProviders, range ? undefined : documentCache.get(document));
+		},
+		doOnTypeFormatting,
 		findDocumentHighlights,
-		findDocumentLinks,
+		findDocumentLinks: (document, documentContext) => findDocumentLinks(document, documentContext, documentCache.get(document)),
 		findDocumentSymbols,
-		getFoldingRanges,
-		getSelectionRanges,
+		findDocumentSymbols2,
+		getFoldingRanges: (document, context) => {
+			const rangeLimit = context && context.rangeLimit;
+			return documentCache.getDerivedData(document, 'foldingRanges:' + rangeLimit, () => getFoldingRanges(document, { rangeLimit }));
+		},
+		getSelectionRanges: (document, positions) => getSelectionRanges(document, positions, documentCache.get(document)),
 		doTagComplete: htmlCompletion.doTagComplete.bind(htmlCompletion),
 		doRename,
+		prepareRename,
 		findMatchingTagPosition,
 		findOnTypeRenameRanges: findLinkedEditingRanges,
-		findLinkedEditingRanges
+		findLinkedEditingRanges,
+		doValidation: htmlValidation.doValidation.bind(htmlValidation),
+		getDocumentRegions: getCachedDocumentRegions,
+		getEmbeddedDocument: (document, languageId) => getCachedDocumentRegions(document).getEmbeddedDocument(languageId),
+		findDefinition,
+		findReferences,
+		doCodeActions: htmlCodeActions.doCodeActions.bind(htmlCodeActions),
+		findDocumentColors,
+		getColorPresentations,
+		getSemanticTokenLegend: htmlSemanticTokens.getLegend.bind(htmlSemanticTokens),
+		getSemanticTokens: htmlSemanticTokens.getSemanticTokens.bind(htmlSemanticTokens),
+		getSemanticTokensDelta: htmlSemanticTokens.getSemanticTokensDelta.bind(htmlSemanticTokens)
 	};
 }
 
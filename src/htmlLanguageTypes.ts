@@ -8,24 +8,28 @@ import {
 	MarkupContent, MarkupKind, MarkedString, DocumentUri,
 	SelectionRange, WorkspaceEdit,
 	CompletionList, CompletionItemKind, CompletionItem, CompletionItemTag, InsertTextMode, Command,
-	SymbolInformation, SymbolKind,
+	SymbolInformation, SymbolKind, DocumentSymbol,
 	Hover, TextEdit, InsertReplaceEdit, InsertTextFormat, DocumentHighlight, DocumentHighlightKind,
 	DocumentLink, FoldingRange, FoldingRangeKind,
-	SignatureHelp, Definition, Diagnostic, FormattingOptions, Color, ColorInformation, ColorPresentation
+	SignatureHelp, Definition, Diagnostic, DiagnosticSeverity, FormattingOptions, Color, ColorInformation, ColorPresentation,
+	CodeAction, CodeActionContext, CodeActionKind,
+	SemanticTokens, SemanticTokensDelta, SemanticTokensEdit, SemanticTokensLegend
 } from 'vscode-languageserver-types';
-import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TextDocument, TextDocumentContentChangeEvent } from 'vscode-languageserver-textdocument';
 
 
 export {
-	TextDocument,
+	TextDocument, TextDocumentContentChangeEvent,
 	Position, Range, Location,
 	MarkupContent, MarkupKind, MarkedString, DocumentUri,
 	SelectionRange, WorkspaceEdit,
 	CompletionList, CompletionItemKind, CompletionItem, CompletionItemTag, InsertTextMode, Command,
-	SymbolInformation, SymbolKind,
+	SymbolInformation, SymbolKind, DocumentSymbol,
 	Hover, TextEdit, InsertReplaceEdit, InsertTextFormat, DocumentHighlight, DocumentHighlightKind,
 	DocumentLink, FoldingRange, FoldingRangeKind,
-	SignatureHelp, Definition, Diagnostic, FormattingOptions, Color, ColorInformation, ColorPresentation
+	SignatureHelp, Definition, Diagnostic, DiagnosticSeverity, FormattingOptions, Color, ColorInformation, ColorPresentation,
+	CodeAction, CodeActionContext, CodeActionKind,
+	SemanticTokens, SemanticTokensDelta, SemanticTokensEdit, SemanticTokensLegend
 };
 
 export interface HTMLFormatConfiguration {
@@ -46,7 +50,158 @@ export interface HTMLFormatConfiguration {
 	indentScripts?: 'keep' | 'separate' | 'normal';
 	templating?: boolean;
 	unformattedContentDelimiter?: string;
+	/**
+	 * Whether the attributes of start tags are sorted by `attributeGroups`. Defaults to false.
+	 */
+	sortAttributes?: boolean;
+	/**
+	 * The order of the attributes when `sortAttributes` is set: comma separated groups of attribute names, alternatives within
+	 * a group separated by '|'. A name ending with '*' matches all attributes with that prefix, the group '*' takes the attributes
+	 * not matched by any other group. Attributes keep their order within a group.
+	 * Defaults to 'id,class,name,data-*,src|href,aria-*,*,on*'.
+	 */
+	attributeGroups?: string;
+	/**
+	 * The quotes of attribute values. Values are only changed if they don't contain the new quote. Defaults to 'preserve'.
+	 */
+	attributeQuotes?: 'preserve' | 'double' | 'single';
+	/**
+	 * Whether the value of boolean attributes is removed if it is empty or the name of the attribute, e.g. `disabled="disabled"`. Defaults to false.
+	 */
+	collapseBooleanAttributes?: boolean;
+	/**
+	 * Whether the names of elements known to the data providers are converted to lower case. Defaults to false.
+	 */
+	lowercaseTagNames?: boolean;
+	/**
+	 * Whether the names of attributes known to the data providers for the element are converted to lower case. Defaults to false.
+	 */
+	lowercaseAttributeNames?: boolean;
+	/**
+	 * Formatters for the content of `script` and `style` elements, keyed by the language id of the content given by the `type` of
+	 * the element: `css` for styles, `javascript` or `json` for scripts. Elements of other types, languages without formatter and
+	 * formatters that throw leave the content to be re-indented only.
+	 */
+	embeddedFormatters?: { [languageId: string]: EmbeddedContentFormatter };
+}
 
+export interface EmbeddedFormattingOptions extends FormattingOptions {
+	/**
+	 * The indentation of the lines of the content in the formatted HTML document. The lines of the formatted content are re-indented
+	 * relative to their smallest indentation, so formatters that don't support a base indentation can ignore it.
+	 */
+	baseIndent: string;
+}
+
+/**
+ * Formats the content of an embedded region. `document` contains the content of the element only, the returned edits apply to it.
+ */
+export type EmbeddedContentFormatter = (document: TextDocument, options: EmbeddedFormattingOptions) => TextEdit[];
+
+export type LintSeverity = 'ignore' | 'warning' | 'error';
+
+export interface LintSettings {
+	/**
+	 * Elements that are not known to any of the data providers.
+	 * Custom elements (names containing a hyphen) and SVG and MathML content are not reported.
+	 * Defaults to 'ignore'.
+	 */
+	unknownElements?: LintSeverity;
+	/**
+	 * Attributes of known elements that are not known to any of the data providers.
+	 * `data-*` attributes are not reported.
+	 * Defaults to 'ignore'.
+	 */
+	unknownAttributes?: LintSeverity;
+	/**
+	 * Attribute values that are not part of the closed set of values the data providers define for the attribute.
+	 * Defaults to 'ignore'.
+	 */
+	invalidAttributeValues?: LintSeverity;
+	/**
+	 * Elements, attributes and attribute values that the data providers mark as deprecated or obsolete.
+	 * Defaults to 'warning'.
+	 */
+	deprecated?: LintSeverity;
+	/**
+	 * Elements, attributes and attribute values that are not supported by all of the `ValidationSettings.targetBrowsers`
+	 * according to the browser data of the data providers. Entries without browser data are not reported.
+	 * Defaults to 'warning'.
+	 */
+	unsupportedFeatures?: LintSeverity;
+	/**
+	 * `img` elements, image inputs and `area` links without an `alt` attribute.
+	 * Defaults to 'ignore'.
+	 */
+	missingAlt?: LintSeverity;
+	/**
+	 * Form controls that are not inside a `label`, not referenced by a `label` with a `for` attribute and
+	 * have no `aria-label`, `aria-labelledby` or `title`.
+	 * Defaults to 'ignore'.
+	 */
+	missingLabel?: LintSeverity;
+	/**
+	 * Buttons and links without text content, image with alternative text, `aria-label`, `aria-labelledby` or `title`.
+	 * Defaults to 'ignore'.
+	 */
+	missingAccessibleName?: LintSeverity;
+	/**
+	 * `role` values that are not concrete WAI-ARIA roles, unknown `aria-*` attributes and
+	 * `aria-*` attributes that the explicit or implicit role of the element does not support or prohibits.
+	 * Defaults to 'ignore'.
+	 */
+	invalidAria?: LintSeverity;
+	/**
+	 * `tabindex` values greater than 0, which break the natural tab order.
+	 * Defaults to 'ignore'.
+	 */
+	positiveTabindex?: LintSeverity;
+	/**
+	 * `html` elements without a `lang` attribute.
+	 * Defaults to 'ignore'.
+	 */
+	missingLang?: LintSeverity;
+	/**
+	 * Headings whose level is more than one below the level of the previous heading, e.g. an `h4` following an `h2`.
+	 * Defaults to 'ignore'.
+	 */
+	skippedHeadingLevels?: LintSeverity;
+	/**
+	 * Elements and text that the content models of the data providers do not permit where they are used:
+	 * elements that are not permitted in their parent, elements outside of their permitted parents, prohibited descendants
+	 * such as interactive content in `a` and `button` and text in elements like `ul` or `table`.
+	 * Defaults to 'ignore'.
+	 */
+	invalidContent?: LintSeverity;
+}
+
+export interface ValidationSettings {
+	/**
+	 * Unless set to false, syntax errors, unclosed elements and unexpected end tags are reported.
+	 */
+	validate?: boolean;
+	/**
+	 * Severities of the rules that check the document against the data providers.
+	 * Uses of deprecated and obsolete entries are reported as warnings unless `lint.deprecated` says otherwise.
+	 */
+	lint?: LintSettings;
+	/**
+	 * The browsers the document must work in, as browser code and the oldest supported version in the format of `ITagData.browsers`,
+	 * e.g. `['C110', 'FF115', 'S16']`. Features that one of them does not support are reported by the `lint.unsupportedFeatures` rule.
+	 */
+	targetBrowsers?: string[];
+}
+
+export type DocumentSymbolsMode = 'full' | 'filtered' | 'headings';
+
+export interface DocumentSymbolsSettings {
+	/**
+	 * 'full' lists all elements, 'filtered' only lists headings, landmark and sectioning elements, forms and elements with an id.
+	 * 'headings' builds an outline from the heading levels and the nesting of `section` and `article` elements, named by the heading text.
+	 * Skipped heading levels are reported in the symbol detail.
+	 * Defaults to 'full'.
+	 */
+	mode?: DocumentSymbolsMode;
 }
 
 export interface HoverSettings {
@@ -68,6 +223,50 @@ export interface Node {
 	children: Node[];
 	parent?: Node;
 	attributes?: { [name: string]: string | null } | undefined;
+	/**
+	 * All attributes of the start tag in document order, including duplicates.
+	 */
+	getAttributes(): NodeAttribute[];
+	/**
+	 * The first attribute with the given name (case insensitive), or undefined if there is none.
+	 */
+	getAttribute(name: string): NodeAttribute | undefined;
+}
+
+export interface NodeAttribute {
+	/**
+	 * The attribute name as written in the document.
+	 */
+	name: string;
+	/**
+	 * The offset of the attribute name.
+	 */
+	nameStart: number;
+	/**
+	 * The end offset of the attribute name.
+	 */
+	nameEnd: number;
+	/**
+	 * The attribute value as written in the document, including quotes. `null` for attributes without value.
+	 */
+	value: string | null;
+	/**
+	 * The offset of the attribute value, including the opening quote. Undefined for attributes without value.
+	 */
+	valueStart?: number;
+	/**
+	 * The end offset of the attribute value, including the closing quote. Undefined for attributes without value.
+	 */
+	valueEnd?: number;
+	/**
+	 * The quote character that starts the value, undefined if the value is not quoted.
+	 */
+	quote?: '"' | '\'';
+	/**
+	 * Set if an attribute with the same name precedes this attribute in the start tag.
+	 * Browsers ignore duplicate attributes.
+	 */
+	duplicate?: boolean;
 }
 
 export enum TokenType {
@@ -126,6 +325,68 @@ export declare type HTMLDocument = {
 	findNodeAt(offset: number): Node;
 };
 
+export type EmbeddedRegionKind = 'script' | 'style' | 'styleAttribute' | 'eventHandler';
+
+export interface EmbeddedRegion {
+	/**
+	 * The kind of the region: the content of a `script` or `style` element, the value of a `style` attribute or of an event handler attribute such as `onclick`.
+	 */
+	kind: EmbeddedRegionKind;
+	/**
+	 * The language of the region content: `javascript`, `json` or `css`.
+	 */
+	languageId: string;
+	/**
+	 * The offset of the region content, without quotes for attribute values.
+	 */
+	start: number;
+	/**
+	 * The end offset of the region content.
+	 */
+	end: number;
+	/**
+	 * Set for `<script type="module">`.
+	 */
+	module?: boolean;
+}
+
+export interface HTMLDocumentRegions {
+	/**
+	 * The embedded regions in document order.
+	 */
+	regions: EmbeddedRegion[];
+	/**
+	 * Returns a document with the content of the regions of the given language at their original offsets, all other content replaced by whitespace.
+	 * Attribute values are wrapped to be valid in the language (`__{ }` for CSS, a trailing `;` for JavaScript) unless `ignoreAttributeValues` is set.
+	 */
+	getEmbeddedDocument(languageId: string, ignoreAttributeValues?: boolean): TextDocument;
+	/**
+	 * Returns the language at the given position, `html` outside of embedded regions.
+	 */
+	getLanguageAtPosition(position: Position): string;
+	/**
+	 * Returns `html` and the languages of all embedded regions.
+	 */
+	getLanguagesInDocument(): string[];
+}
+
+export type RenameSymbolKind = 'tag' | 'id';
+
+export interface PrepareRenameResult {
+	/**
+	 * The range of the symbol to rename.
+	 */
+	range: Range;
+	/**
+	 * The current name of the symbol.
+	 */
+	placeholder: string;
+	/**
+	 * Whether an element name or an element id is renamed. Renaming an id also renames its references.
+	 */
+	kind: RenameSymbolKind;
+}
+
 export interface DocumentContext {
 	resolveReference(ref: string, base: string): string | undefined;
 }
@@ -154,11 +415,70 @@ export interface IReference {
 	url: string;
 }
 
+/**
+ * The standardization status of an element, attribute or attribute value:
+ * 'experimental' entries are not standard yet, 'deprecated' entries are still supported but should no longer be used and
+ * 'obsolete' entries have been removed from the standard. Entries without status are standard.
+ */
+export type EntryStatus = 'standard' | 'experimental' | 'deprecated' | 'obsolete';
+
+/**
+ * Baseline availability of a feature across the major browsers, see https://web-platform-dx.github.io/web-features/.
+ * `false` if a major browser does not support it, `low` for newly available and `high` for widely available features.
+ */
+export type Baseline = false | 'low' | 'high';
+
+export interface BaselineStatus {
+	baseline: Baseline;
+	/**
+	 * The date when the feature became newly available, as `YYYY-MM-DD`.
+	 */
+	baseline_low_date?: string;
+	/**
+	 * The date when the feature became widely available, as `YYYY-MM-DD`.
+	 */
+	baseline_high_date?: string;
+}
+
+/**
+ * A kind of content of the HTML standard, see https://html.spec.whatwg.org/multipage/dom.html#kinds-of-content.
+ * Script-supporting elements are permitted in every content model that permits elements.
+ */
+export type ContentCategory = 'metadata' | 'flow' | 'sectioning' | 'heading' | 'phrasing' | 'embedded' | 'interactive' | 'script-supporting';
+
 export interface ITagData {
 	name: string;
 	description?: string | MarkupContent;
 	attributes: IAttributeData[];
 	references?: IReference[];
+	status?: EntryStatus;
+	/**
+	 * What to use instead of a deprecated or obsolete element, shown in completion and hover.
+	 */
+	replacement?: string;
+	/**
+	 * The browsers that support the element, as browser code and first supported version:
+	 * `E` (Edge), `FF` (Firefox), `S` (Safari), `C` (Chrome), `IE` and `O` (Opera), e.g. `['E79', 'FF98', 'S15.4', 'C37']`.
+	 */
+	browsers?: string[];
+	baseline?: BaselineStatus;
+	/**
+	 * The content categories of the element.
+	 */
+	categories?: ContentCategory[];
+	/**
+	 * The elements and content categories permitted as children of the element, `transparent` standing for the content permitted in the parent.
+	 * Text is permitted with `flow` and `phrasing` content. Elements without `permittedChildren` accept any content.
+	 */
+	permittedChildren?: string[];
+	/**
+	 * The elements the element must be a child of.
+	 */
+	permittedParents?: string[];
+	/**
+	 * The elements and content categories that must not be descendants of the element.
+	 */
+	prohibitedDescendants?: string[];
 }
 
 export interface IAttributeData {
@@ -167,12 +487,20 @@ export interface IAttributeData {
 	valueSet?: string;
 	values?: IValueData[];
 	references?: IReference[];
+	status?: EntryStatus;
+	replacement?: string;
+	browsers?: string[];
+	baseline?: BaselineStatus;
 }
 
 export interface IValueData {
 	name: string;
 	description?: string | MarkupContent;
 	references?: IReference[];
+	status?: EntryStatus;
+	replacement?: string;
+	browsers?: string[];
+	baseline?: BaselineStatus;
 }
 
 export interface IValueSet {
@@ -273,6 +601,13 @@ export interface LanguageServiceOptions {
 	 * Describes the LSP capabilities the client supports.
 	 */
 	clientCapabilities?: ClientCapabilities;
+
+	/**
+	 * The maximum number of parsed documents kept by the service, keyed by document URI and version.
+	 * Set to 0 to disable caching.
+	 * Defaults to 10.
+	 */
+	documentCacheSize?: number;
 }
 
 export enum FileType {
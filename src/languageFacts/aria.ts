@@ -0,0 +1,338 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Node } from '../htmlLanguageTypes';
+import { trimQuotes } from '../utils/strings';
+
+// States and properties that are supported on all roles.
+// See https://www.w3.org/TR/wai-aria-1.2/#global_states
+export const GLOBAL_ARIA_ATTRIBUTES: string[] = [
+	'aria-atomic', 'aria-busy', 'aria-controls', 'aria-current', 'aria-describedby', 'aria-details', 'aria-disabled', 'aria-dropeffect', 'aria-errormessage',
+	'aria-flowto', 'aria-grabbed', 'aria-haspopup', 'aria-hidden', 'aria-invalid', 'aria-keyshortcuts', 'aria-label', 'aria-labelledby', 'aria-live',
+	'aria-owns', 'aria-relevant', 'aria-roledescription'
+];
+
+interface AriaRoleData {
+	/**
+	 * The states and properties the role supports in addition to the global ones.
+	 */
+	supported: string[];
+	/**
+	 * The states and properties, global or supported, that an element with the role must have.
+	 */
+	required?: string[];
+	/**
+	 * The global states and properties an element with the role must not have.
+	 */
+	prohibited?: string[];
+}
+
+const RANGE = ['aria-valuemax', 'aria-valuemin', 'aria-valuenow', 'aria-valuetext'];
+const CELL = ['aria-colindex', 'aria-colspan', 'aria-rowindex', 'aria-rowspan'];
+const HEADER = [...CELL, 'aria-expanded', 'aria-readonly', 'aria-required', 'aria-selected', 'aria-sort'];
+const TEXTBOX = ['aria-activedescendant', 'aria-autocomplete', 'aria-multiline', 'aria-placeholder', 'aria-readonly', 'aria-required'];
+// the naming properties, prohibited on roles that cannot be named by authors
+const NAME_PROHIBITED = ['aria-label', 'aria-labelledby'];
+
+// The concrete roles with their states and properties.
+// See https://www.w3.org/TR/wai-aria-1.2/#role_definitions
+const ROLES: { [role: string]: AriaRoleData } = {
+	alert: { supported: [] },
+	alertdialog: { supported: ['aria-modal'] },
+	application: { supported: ['aria-activedescendant', 'aria-expanded'] },
+	article: { supported: ['aria-posinset', 'aria-setsize'] },
+	banner: { supported: [] },
+	blockquote: { supported: [] },
+	button: { supported: ['aria-expanded', 'aria-pressed'] },
+	caption: { supported: [], prohibited: NAME_PROHIBITED },
+	cell: { supported: CELL },
+	checkbox: { supported: ['aria-checked', 'aria-expanded', 'aria-readonly', 'aria-required'], required: ['aria-checked'] },
+	code: { supported: [], prohibited: NAME_PROHIBITED },
+	columnheader: { supported: HEADER },
+	combobox: { supported: ['aria-activedescendant', 'aria-autocomplete', 'aria-expanded', 'aria-readonly', 'aria-required'], required: ['aria-controls', 'aria-expanded'] },
+	complementary: { supported: [] },
+	contentinfo: { supported: [] },
+	definition: { supported: [] },
+	deletion: { supported: [], prohibited: NAME_PROHIBITED },
+	dialog: { supported: ['aria-modal'] },
+	directory: { supported: [] },
+	document: { supported: ['aria-expanded'] },
+	emphasis: { supported: [], prohibited: NAME_PROHIBITED },
+	feed: { supported: [] },
+	figure: { supported: [] },
+	form: { supported: [] },
+	generic: { supported: [], prohibited: NAME_PROHIBITED },
+	grid: { supported: ['aria-activedescendant', 'aria-colcount', 'aria-multiselectable', 'aria-readonly', 'aria-rowcount'] },
+	gridcell: { supported: [...CELL, 'aria-expanded', 'aria-readonly', 'aria-required', 'aria-selected'] },
+	group: { supported: ['aria-activedescendant', 'aria-expanded'] },
+	heading: { supported: ['aria-level'], required: ['aria-level'] },
+	img: { supported: [] },
+	insertion: { supported: [], prohibited: NAME_PROHIBITED },
+	link: { supported: ['aria-expanded'] },
+	list: { supported: [] },
+	listbox: { supported: ['aria-activedescendant', 'aria-expanded', 'aria-multiselectable', 'aria-orientation', 'aria-readonly', 'aria-required'] },
+	listitem: { supported: ['aria-level', 'aria-posinset', 'aria-setsize'] },
+	log: { supported: [] },
+	main: { supported: [] },
+	marquee: { supported: [] },
+	math: { supported: [] },
+	menu: { supported: ['aria-activedescendant', 'aria-orientation'] },
+	menubar: { supported: ['aria-activedescendant', 'aria-orientation'] },
+	menuitem: { supported: ['aria-expanded', 'aria-posinset', 'aria-setsize'] },
+	menuitemcheckbox: { supported: ['aria-checked', 'aria-expanded', 'aria-posinset', 'aria-setsize'], required: ['aria-checked'] },
+	menuitemradio: { supported: ['aria-checked', 'aria-expanded', 'aria-posinset', 'aria-setsize'], required: ['aria-checked'] },
+	meter: { supported: RANGE, required: ['aria-valuenow'] },
+	navigation: { supported: [] },
+	none: { supported: [], prohibited: NAME_PROHIBITED },
+	note: { supported: [] },
+	option: { supported: ['aria-checked', 'aria-posinset', 'aria-selected', 'aria-setsize'] },
+	paragraph: { supported: [], prohibited: NAME_PROHIBITED },
+	presentation: { supported: [], prohibited: NAME_PROHIBITED },
+	progressbar: { supported: RANGE },
+	radio: { supported: ['aria-checked', 'aria-posinset', 'aria-setsize'], required: ['aria-checked'] },
+	radiogroup: { supported: ['aria-activedescendant', 'aria-expanded', 'aria-readonly', 'aria-required'] },
+	region: { supported: [] },
+	row: { supported: ['aria-activedescendant', 'aria-colindex', 'aria-expanded', 'aria-level', 'aria-posinset', 'aria-rowindex', 'aria-selected', 'aria-setsize'] },
+	rowgroup: { supported: [] },
+	rowheader: { supported: HEADER },
+	scrollbar: { supported: ['aria-orientation', ...RANGE], required: ['aria-controls', 'aria-valuenow'] },
+	search: { supported: [] },
+	searchbox: { supported: TEXTBOX },
+	separator: { supported: ['aria-orientation', ...RANGE] },
+	slider: { supported: ['aria-orientation', 'aria-readonly', ...RANGE], required: ['aria-valuenow'] },
+	spinbutton: { supported: ['aria-activedescendant', 'aria-readonly', 'aria-required', ...RANGE] },
+	status: { supported: [] },
+	strong: { supported: [], prohibited: NAME_PROHIBITED },
+	subscript: { supported: [], prohibited: NAME_PROHIBITED },
+	superscript: { supported: [], prohibited: NAME_PROHIBITED },
+	switch: { supported: ['aria-checked', 'aria-expanded', 'aria-readonly', 'aria-required'], required: ['aria-checked'] },
+	tab: { supported: ['aria-expanded', 'aria-posinset', 'aria-selected', 'aria-setsize'] },
+	table: { supported: ['aria-colcount', 'aria-rowcount'] },
+	tablist: { supported: ['aria-activedescendant', 'aria-multiselectable', 'aria-orientation'] },
+	tabpanel: { supported: [] },
+	term: { supported: [] },
+	textbox: { supported: TEXTBOX },
+	time: { supported: [] },
+	timer: { supported: [] },
+	toolbar: { supported: ['aria-activedescendant', 'aria-orientation'] },
+	tooltip: { supported: [] },
+	tree: { supported: ['aria-activedescendant', 'aria-multiselectable', 'aria-orientation', 'aria-required'] },
+	treegrid: { supported: ['aria-activedescendant', 'aria-colcount', 'aria-multiselectable', 'aria-orientation', 'aria-readonly', 'aria-required', 'aria-rowcount'] },
+	treeitem: { supported: ['aria-checked', 'aria-expanded', 'aria-level', 'aria-posinset', 'aria-selected', 'aria-setsize'] },
+
+	// Digital publishing roles, see https://www.w3.org/TR/dpub-aria-1.1/#role_definitions
+	'doc-abstract': { supported: [] },
+	'doc-acknowledgments': { supported: [] },
+	'doc-afterword': { supported: [] },
+	'doc-appendix': { supported: [] },
+	'doc-backlink': { supported: ['aria-expanded'] },
+	'doc-biblioentry': { supported: ['aria-level', 'aria-posinset', 'aria-setsize'] },
+	'doc-bibliography': { supported: [] },
+	'doc-biblioref': { supported: ['aria-expanded'] },
+	'doc-chapter': { supported: [] },
+	'doc-colophon': { supported: [] },
+	'doc-conclusion': { supported: [] },
+	'doc-cover': { supported: [] },
+	'doc-credit': { supported: [] },
+	'doc-credits': { supported: [] },
+	'doc-dedication': { supported: [] },
+	'doc-endnote': { supported: ['aria-level', 'aria-posinset', 'aria-setsize'] },
+	'doc-endnotes': { supported: [] },
+	'doc-epigraph': { supported: [] },
+	'doc-epilogue': { supported: [] },
+	'doc-errata': { supported: [] },
+	'doc-example': { supported: [] },
+	'doc-footnote': { supported: [] },
+	'doc-foreword': { supported: [] },
+	'doc-glossary': { supported: [] },
+	'doc-glossref': { supported: ['aria-expanded'] },
+	'doc-index': { supported: [] },
+	'doc-introduction': { supported: [] },
+	'doc-noteref': { supported: ['aria-expanded'] },
+	'doc-notice': { supported: [] },
+	'doc-pagebreak': { supported: ['aria-orientation', ...RANGE] },
+	'doc-pagelist': { supported: [] },
+	'doc-part': { supported: [] },
+	'doc-preface': { supported: [] },
+	'doc-prologue': { supported: [] },
+	'doc-pullquote': { supported: [] },
+	'doc-qna': { supported: [] },
+	'doc-subtitle': { supported: [] },
+	'doc-tip': { supported: [] },
+	'doc-toc': { supported: [] }
+};
+
+// The roles that elements have without a `role` attribute, if they do not depend on the attributes or the context of the element.
+// See https://www.w3.org/TR/html-aam-1.0/#html-element-role-mappings
+const IMPLICIT_ROLES: { [tag: string]: string } = {
+	address: 'group',
+	article: 'article',
+	aside: 'complementary',
+	b: 'generic',
+	bdi: 'generic',
+	bdo: 'generic',
+	blockquote: 'blockquote',
+	body: 'generic',
+	button: 'button',
+	caption: 'caption',
+	code: 'code',
+	data: 'generic',
+	datalist: 'listbox',
+	del: 'deletion',
+	details: 'group',
+	dfn: 'term',
+	dialog: 'dialog',
+	div: 'generic',
+	em: 'emphasis',
+	fieldset: 'group',
+	figure: 'figure',
+	footer: 'contentinfo',
+	form: 'form',
+	h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+	header: 'banner',
+	hr: 'separator',
+	html: 'document',
+	i: 'generic',
+	ins: 'insertion',
+	li: 'listitem',
+	main: 'main',
+	math: 'math',
+	menu: 'list',
+	meter: 'meter',
+	nav: 'navigation',
+	ol: 'list',
+	optgroup: 'group',
+	option: 'option',
+	output: 'status',
+	p: 'paragraph',
+	pre: 'generic',
+	progress: 'progressbar',
+	q: 'generic',
+	samp: 'generic',
+	search: 'search',
+	section: 'region',
+	small: 'generic',
+	span: 'generic',
+	strong: 'strong',
+	sub: 'subscript',
+	sup: 'superscript',
+	table: 'table',
+	tbody: 'rowgroup',
+	td: 'cell',
+	textarea: 'textbox',
+	tfoot: 'rowgroup',
+	th: 'columnheader',
+	thead: 'rowgroup',
+	time: 'time',
+	tr: 'row',
+	u: 'generic',
+	ul: 'list'
+};
+
+const IMPLICIT_INPUT_ROLES: { [type: string]: string } = {
+	button: 'button',
+	checkbox: 'checkbox',
+	email: 'textbox',
+	image: 'button',
+	number: 'spinbutton',
+	radio: 'radio',
+	range: 'slider',
+	reset: 'button',
+	search: 'searchbox',
+	submit: 'button',
+	tel: 'textbox',
+	text: 'textbox',
+	url: 'textbox'
+};
+
+export const ARIA_ROLES: string[] = Object.keys(ROLES);
+
+/**
+ * Whether `role` is a concrete WAI-ARIA role. Abstract roles such as `widget` must not be used in content.
+ */
+export function isAriaRole(role: string): boolean {
+	return ROLES.hasOwnProperty(role.toLowerCase());
+}
+
+/**
+ * Whether `attribute` is a WAI-ARIA state or property.
+ */
+export function isAriaAttribute(attribute: string): boolean {
+	attribute = attribute.toLowerCase();
+	if (GLOBAL_ARIA_ATTRIBUTES.indexOf(attribute) !== -1) {
+		return true;
+	}
+	return ARIA_ROLES.some(role => ROLES[role].supported.indexOf(attribute) !== -1);
+}
+
+/**
+ * Whether the state or property `attribute` is supported on elements with the given role and not prohibited by it.
+ * Elements without a role only support the global states and properties.
+ */
+export function isAriaAttributeSupported(role: string | undefined, attribute: string): boolean {
+	attribute = attribute.toLowerCase();
+	const roleData = getRoleData(role);
+	if (!roleData) {
+		return GLOBAL_ARIA_ATTRIBUTES.indexOf(attribute) !== -1;
+	}
+	if (GLOBAL_ARIA_ATTRIBUTES.indexOf(attribute) !== -1) {
+		return !roleData.prohibited || roleData.prohibited.indexOf(attribute) === -1;
+	}
+	return roleData.supported.indexOf(attribute) !== -1;
+}
+
+/**
+ * Whether elements with the given role must have the state or property `attribute`.
+ */
+export function isAriaAttributeRequired(role: string | undefined, attribute: string): boolean {
+	const roleData = getRoleData(role);
+	return !!roleData && !!roleData.required && roleData.required.indexOf(attribute.toLowerCase()) !== -1;
+}
+
+/**
+ * The role of the element: the first concrete role of its `role` attribute, otherwise the implicit role of the element.
+ * Returns undefined for elements without a role, such as custom elements.
+ */
+export function getElementRole(node: Node): string | undefined {
+	const roleAttribute = node.getAttribute('role');
+	if (roleAttribute && roleAttribute.value) {
+		const role = trimQuotes(roleAttribute.value).trim().split(/\s+/).filter(isAriaRole)[0];
+		if (role) {
+			return role.toLowerCase();
+		}
+	}
+	if (!node.tag) {
+		return undefined;
+	}
+	const tag = node.tag.toLowerCase();
+	switch (tag) {
+		case 'a':
+		case 'area':
+			return node.getAttribute('href') ? 'link' : tag === 'a' ? 'generic' : undefined;
+		case 'img': {
+			const alt = node.getAttribute('alt');
+			return alt && (alt.value === null || !trimQuotes(alt.value).trim()) ? 'presentation' : 'img';
+		}
+		case 'input': {
+			const typeAttribute = node.getAttribute('type');
+			const type = (typeAttribute && typeAttribute.value && trimQuotes(typeAttribute.value).trim() || 'text').toLowerCase();
+			if (node.getAttribute('list') && (type === 'text' || type === 'search' || type === 'email' || type === 'tel' || type === 'url')) {
+				return 'combobox';
+			}
+			return IMPLICIT_INPUT_ROLES.hasOwnProperty(type) ? IMPLICIT_INPUT_ROLES[type] : undefined;
+		}
+		case 'select': {
+			const sizeAttribute = node.getAttribute('size');
+			const size = sizeAttribute && sizeAttribute.value ? parseInt(trimQuotes(sizeAttribute.value).trim(), 10) : 0;
+			return node.getAttribute('multiple') || size > 1 ? 'listbox' : 'combobox';
+		}
+	}
+	return IMPLICIT_ROLES.hasOwnProperty(tag) ? IMPLICIT_ROLES[tag] : undefined;
+}
+
+function getRoleData(role: string | undefined): AriaRoleData | undefined {
+	role = role && role.toLowerCase();
+	return role && ROLES.hasOwnProperty(role) ? ROLES[role] : undefined;
+}
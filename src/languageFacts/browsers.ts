@@ -0,0 +1,98 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { BaselineStatus } from '../htmlLanguageTypes';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+const browserNames: { [code: string]: string } = {
+	E: 'Edge',
+	FF: 'Firefox',
+	S: 'Safari',
+	C: 'Chrome',
+	IE: 'IE',
+	O: 'Opera'
+};
+
+interface BrowserVersion {
+	code: string;
+	version: number[];
+}
+
+function parseBrowser(browser: string): BrowserVersion | undefined {
+	const match = /^([A-Z]+)(\d+(?:\.\d+)*)?$/.exec(browser.trim());
+	if (!match) {
+		return undefined;
+	}
+	return { code: match[1], version: match[2] ? match[2].split('.').map(n => parseInt(n, 10)) : [] };
+}
+
+function compareVersions(v1: number[], v2: number[]): number {
+	for (let i = 0; i < Math.max(v1.length, v2.length); i++) {
+		const diff = (v1[i] || 0) - (v2[i] || 0);
+		if (diff !== 0) {
+			return diff;
+		}
+	}
+	return 0;
+}
+
+function getBrowserName(browser: BrowserVersion): string {
+	const name = browserNames[browser.code] || browser.code;
+	return browser.version.length ? `${name} ${browser.version.join('.')}` : name;
+}
+
+/**
+ * Returns a label such as `Edge 79, Firefox 98, Safari 15.4` for browsers in the format of `ITagData.browsers`.
+ */
+export function getBrowserLabel(browsers: string[]): string {
+	const result: string[] = [];
+	for (const browser of browsers) {
+		const parsed = parseBrowser(browser);
+		result.push(parsed ? getBrowserName(parsed) : browser);
+	}
+	return result.join(', ');
+}
+
+/**
+ * Returns the labels of the target browsers that do not support an entry with the given browser data.
+ * Entries without browser data are assumed to be supported everywhere.
+ */
+export function getUnsupportedBrowsers(browsers: string[] | undefined, targetBrowsers: string[]): string[] {
+	if (!browsers) {
+		return [];
+	}
+	const supported: { [code: string]: number[] } = {};
+	for (const browser of browsers) {
+		const parsed = parseBrowser(browser);
+		if (parsed) {
+			supported[parsed.code] = parsed.version;
+		}
+	}
+	const result: string[] = [];
+	for (const target of targetBrowsers) {
+		const parsed = parseBrowser(target);
+		if (!parsed) {
+			continue;
+		}
+		const firstVersion = supported.hasOwnProperty(parsed.code) ? supported[parsed.code] : undefined;
+		if (!firstVersion || compareVersions(parsed.version, firstVersion) < 0) {
+			result.push(getBrowserName(parsed));
+		}
+	}
+	return result;
+}
+
+export function getBaselineLabel(baseline: BaselineStatus): string {
+	const year = baseline.baseline_low_date && baseline.baseline_low_date.split('-')[0];
+	switch (baseline.baseline) {
+		case 'high':
+			return year ? localize('baseline.high.since', "Widely available across major browsers (Baseline since {0})", year) : localize('baseline.high', "Widely available across major browsers");
+		case 'low':
+			return year ? localize('baseline.low.since', "Newly available across major browsers (Baseline since {0})", year) : localize('baseline.low', "Newly available across major browsers");
+	}
+	return localize('baseline.limited', "Limited availability across major browsers");
+}
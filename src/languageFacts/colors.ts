@@ -0,0 +1,282 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Color } from '../htmlLanguageTypes';
+
+export const colors: { [name: string]: string } = {
+	aliceblue: '#f0f8ff',
+	antiquewhite: '#faebd7',
+	aqua: '#00ffff',
+	aquamarine: '#7fffd4',
+	azure: '#f0ffff',
+	beige: '#f5f5dc',
+	bisque: '#ffe4c4',
+	black: '#000000',
+	blanchedalmond: '#ffebcd',
+	blue: '#0000ff',
+	blueviolet: '#8a2be2',
+	brown: '#a52a2a',
+	burlywood: '#deb887',
+	cadetblue: '#5f9ea0',
+	chartreuse: '#7fff00',
+	chocolate: '#d2691e',
+	coral: '#ff7f50',
+	cornflowerblue: '#6495ed',
+	cornsilk: '#fff8dc',
+	crimson: '#dc143c',
+	cyan: '#00ffff',
+	darkblue: '#00008b',
+	darkcyan: '#008b8b',
+	darkgoldenrod: '#b8860b',
+	darkgray: '#a9a9a9',
+	darkgreen: '#006400',
+	darkgrey: '#a9a9a9',
+	darkkhaki: '#bdb76b',
+	darkmagenta: '#8b008b',
+	darkolivegreen: '#556b2f',
+	darkorange: '#ff8c00',
+	darkorchid: '#9932cc',
+	darkred: '#8b0000',
+	darksalmon: '#e9967a',
+	darkseagreen: '#8fbc8f',
+	darkslateblue: '#483d8b',
+	darkslategray: '#2f4f4f',
+	darkslategrey: '#2f4f4f',
+	darkturquoise: '#00ced1',
+	darkviolet: '#9400d3',
+	deeppink: '#ff1493',
+	deepskyblue: '#00bfff',
+	dimgray: '#696969',
+	dimgrey: '#696969',
+	dodgerblue: '#1e90ff',
+	firebrick: '#b22222',
+	floralwhite: '#fffaf0',
+	forestgreen: '#228b22',
+	fuchsia: '#ff00ff',
+	gainsboro: '#dcdcdc',
+	ghostwhite: '#f8f8ff',
+	gold: '#ffd700',
+	goldenrod: '#daa520',
+	gray: '#808080',
+	green: '#008000',
+	greenyellow: '#adff2f',
+	grey: '#808080',
+	honeydew: '#f0fff0',
+	hotpink: '#ff69b4',
+	indianred: '#cd5c5c',
+	indigo: '#4b0082',
+	ivory: '#fffff0',
+	khaki: '#f0e68c',
+	lavender: '#e6e6fa',
+	lavenderblush: '#fff0f5',
+	lawngreen: '#7cfc00',
+	lemonchiffon: '#fffacd',
+	lightblue: '#add8e6',
+	lightcoral: '#f08080',
+	lightcyan: '#e0ffff',
+	lightgoldenrodyellow: '#fafad2',
+	lightgray: '#d3d3d3',
+	lightgreen: '#90ee90',
+	lightgrey: '#d3d3d3',
+	lightpink: '#ffb6c1',
+	lightsalmon: '#ffa07a',
+	lightseagreen: '#20b2aa',
+	lightskyblue: '#87cefa',
+	lightslategray: '#778899',
+	lightslategrey: '#778899',
+	lightsteelblue: '#b0c4de',
+	lightyellow: '#ffffe0',
+	lime: '#00ff00',
+	limegreen: '#32cd32',
+	linen: '#faf0e6',
+	magenta: '#ff00ff',
+	maroon: '#800000',
+	mediumaquamarine: '#66cdaa',
+	mediumblue: '#0000cd',
+	mediumorchid: '#ba55d3',
+	mediumpurple: '#9370db',
+	mediumseagreen: '#3cb371',
+	mediumslateblue: '#7b68ee',
+	mediumspringgreen: '#00fa9a',
+	mediumturquoise: '#48d1cc',
+	mediumvioletred: '#c71585',
+	midnightblue: '#191970',
+	mintcream: '#f5fffa',
+	mistyrose: '#ffe4e1',
+	moccasin: '#ffe4b5',
+	navajowhite: '#ffdead',
+	navy: '#000080',
+	oldlace: '#fdf5e6',
+	olive: '#808000',
+	olivedrab: '#6b8e23',
+	orange: '#ffa500',
+	orangered: '#ff4500',
+	orchid: '#da70d6',
+	palegoldenrod: '#eee8aa',
+	palegreen: '#98fb98',
+	paleturquoise: '#afeeee',
+	palevioletred: '#db7093',
+	papayawhip: '#ffefd5',
+	peachpuff: '#ffdab9',
+	peru: '#cd853f',
+	pink: '#ffc0cb',
+	plum: '#dda0dd',
+	powderblue: '#b0e0e6',
+	purple: '#800080',
+	rebeccapurple: '#663399',
+	red: '#ff0000',
+	rosybrown: '#bc8f8f',
+	royalblue: '#4169e1',
+	saddlebrown: '#8b4513',
+	salmon: '#fa8072',
+	sandybrown: '#f4a460',
+	seagreen: '#2e8b57',
+	seashell: '#fff5ee',
+	sienna: '#a0522d',
+	silver: '#c0c0c0',
+	skyblue: '#87ceeb',
+	slateblue: '#6a5acd',
+	slategray: '#708090',
+	slategrey: '#708090',
+	snow: '#fffafa',
+	springgreen: '#00ff7f',
+	steelblue: '#4682b4',
+	tan: '#d2b48c',
+	teal: '#008080',
+	thistle: '#d8bfd8',
+	tomato: '#ff6347',
+	turquoise: '#40e0d0',
+	violet: '#ee82ee',
+	wheat: '#f5deb3',
+	white: '#ffffff',
+	whitesmoke: '#f5f5f5',
+	yellow: '#ffff00',
+	yellowgreen: '#9acd32'
+};
+
+export type ColorNotation = 'hex' | 'rgb' | 'hsl' | 'named';
+
+export interface ColorValue {
+	color: Color;
+	notation: ColorNotation;
+}
+
+function getNumericValue(value: string, factor: number): number {
+	const match = /^\s*([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)\s*$/i.exec(value);
+	if (!match) {
+		throw new Error();
+	}
+	const result = parseFloat(match[1]) / (match[2] ? 100 : 1) * (match[2] ? factor : 1);
+	return Math.min(factor, Math.max(0, result));
+}
+
+function getAngle(value: string): number {
+	const match = /^\s*([+-]?(?:\d+\.?\d*|\.\d+))(deg|turn|rad|grad)?\s*$/i.exec(value);
+	if (!match) {
+		throw new Error();
+	}
+	let angle = parseFloat(match[1]);
+	switch (match[2] && match[2].toLowerCase()) {
+		case 'turn': angle *= 360; break;
+		case 'rad': angle *= 180 / Math.PI; break;
+		case 'grad': angle *= 0.9; break;
+	}
+	return ((angle % 360) + 360) % 360;
+}
+
+function hexDigit(charCode: number): number {
+	if (charCode >= 48 && charCode <= 57) { // 0-9
+		return charCode - 48;
+	}
+	return (charCode | 0x20) - 87; // a-f
+}
+
+export function colorFromHex(text: string): Color | null {
+	if (!/^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(text)) {
+		return null;
+	}
+	const digits = text.substr(1);
+	const short = digits.length <= 4;
+	const component = (i: number) => short ? hexDigit(digits.charCodeAt(i)) * 0x11 / 255 : (hexDigit(digits.charCodeAt(2 * i)) * 16 + hexDigit(digits.charCodeAt(2 * i + 1))) / 255;
+	const hasAlpha = digits.length === 4 || digits.length === 8;
+	return { red: component(0), green: component(1), blue: component(2), alpha: hasAlpha ? component(3) : 1 };
+}
+
+export function colorFromHSL(hue: number, sat: number, light: number, alpha: number = 1.0): Color {
+	hue = hue / 60.0;
+	if (sat === 0) {
+		return { red: light, green: light, blue: light, alpha };
+	}
+	const hueToRgb = (t1: number, t2: number, h: number) => {
+		while (h < 0) { h += 6; }
+		while (h >= 6) { h -= 6; }
+		if (h < 1) { return (t2 - t1) * h + t1; }
+		if (h < 3) { return t2; }
+		if (h < 4) { return (t2 - t1) * (4 - h) + t1; }
+		return t1;
+	};
+	const t2 = light <= 0.5 ? (light * (sat + 1)) : (light + sat - (light * sat));
+	const t1 = light * 2 - t2;
+	return { red: hueToRgb(t1, t2, hue + 2), green: hueToRgb(t1, t2, hue), blue: hueToRgb(t1, t2, hue - 2), alpha };
+}
+
+export function hslFromColor(rgba: Color): { h: number; s: number; l: number; a: number } {
+	const r = rgba.red;
+	const g = rgba.green;
+	const b = rgba.blue;
+	const a = rgba.alpha;
+	const max = Math.max(r, g, b);
+	const min = Math.min(r, g, b);
+	let h = 0;
+	let s = 0;
+	const l = (min + max) / 2;
+	const chroma = max - min;
+	if (chroma > 0) {
+		s = Math.min((l <= 0.5 ? chroma / (2 * l) : chroma / (2 - (2 * l))), 1);
+		switch (max) {
+			case r: h = (g - b) / chroma + (g < b ? 6 : 0); break;
+			case g: h = (b - r) / chroma + 2; break;
+			case b: h = (r - g) / chroma + 4; break;
+		}
+		h *= 60;
+		h = Math.round(h);
+	}
+	return { h, s, l, a };
+}
+
+/**
+ * Parses a CSS color: a hex color, an `rgb()`, `rgba()`, `hsl()` or `hsla()` function or a named color.
+ */
+export function getColorValue(text: string): ColorValue | null {
+	if (text[0] === '#') {
+		const color = colorFromHex(text);
+		return color && { color, notation: 'hex' };
+	}
+	const match = /^(rgba?|hsla?)\(([^()]*)\)$/i.exec(text);
+	if (match) {
+		// both the legacy comma separated and the space separated syntax with `/` before the alpha value
+		const args = match[2].trim().split(/\s*,\s*|\s*\/\s*|\s+/);
+		if (args.length !== 3 && args.length !== 4) {
+			return null;
+		}
+		try {
+			const alpha = args.length === 4 ? getNumericValue(args[3], 1) : 1;
+			if (match[1].toLowerCase().charAt(0) === 'r') {
+				return { color: { red: getNumericValue(args[0], 255) / 255, green: getNumericValue(args[1], 255) / 255, blue: getNumericValue(args[2], 255) / 255, alpha }, notation: 'rgb' };
+			}
+			return { color: colorFromHSL(getAngle(args[0]), getNumericValue(args[1], 100) / 100, getNumericValue(args[2], 100) / 100, alpha), notation: 'hsl' };
+		} catch (e) {
+			return null;
+		}
+	}
+	const name = text.toLowerCase();
+	if (colors.hasOwnProperty(name)) {
+		return { color: colorFromHex(colors[name])!, notation: 'named' };
+	}
+	if (name === 'transparent') {
+		return { color: { red: 0, green: 0, blue: 0, alpha: 0 }, notation: 'named' };
+	}
+	return null;
+}
@@ -0,0 +1,115 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Node, ITagData, ContentCategory, IHTMLDataProvider } from '../htmlLanguageTypes';
+
+export type TagDataLookup = (tag: string) => ITagData | undefined;
+
+/**
+ * Returns a lookup of the tag data of the given providers by lower case element name. The first provider defining an element wins.
+ */
+export function getTagDataLookup(dataProviders: IHTMLDataProvider[]): TagDataLookup {
+	let tags: { [tag: string]: ITagData } | undefined;
+	return (tag: string) => {
+		if (!tags) {
+			const knownTags: { [tag: string]: ITagData } = {};
+			dataProviders.forEach(provider => {
+				provider.provideTags().forEach(tagData => {
+					const name = tagData.name.toLowerCase();
+					if (!knownTags.hasOwnProperty(name)) {
+						knownTags[name] = tagData;
+					}
+				});
+			});
+			tags = knownTags;
+		}
+		return tags.hasOwnProperty(tag) ? tags[tag] : undefined;
+	};
+}
+
+/**
+ * The content categories of the element, taking the attributes that change them into account.
+ */
+export function getElementCategories(node: Node | undefined, tagData: ITagData): ContentCategory[] | undefined {
+	const categories = tagData.categories;
+	if (categories && node && tagData.name.toLowerCase() === 'input') {
+		const type = node.getAttribute('type');
+		if (type && type.value && /^['"]?hidden['"]?$/i.test(type.value)) {
+			return categories.filter(category => category !== 'interactive');
+		}
+	}
+	return categories;
+}
+
+/**
+ * The elements and content categories permitted as children of the element, with transparent content models resolved with the content
+ * permitted in the parent. Undefined if the content of the element is not restricted or not known.
+ */
+export function getPermittedChildren(node: Node | undefined, getTagData: TagDataLookup): string[] | undefined {
+	const result: string[] = [];
+	while (node && node.tag) {
+		const tagData = getTagData(node.tag.toLowerCase());
+		if (!tagData || !tagData.permittedChildren) {
+			return undefined;
+		}
+		const permittedChildren = tagData.permittedChildren;
+		result.push(...permittedChildren.filter(entry => entry !== 'transparent'));
+		if (permittedChildren.indexOf('transparent') === -1) {
+			return result;
+		}
+		node = node.parent;
+	}
+	return undefined;
+}
+
+/**
+ * Whether an element is permitted by a content model. Script-supporting elements and elements without categories are always permitted.
+ */
+export function isPermittedContent(permittedChildren: string[], tag: string, categories: ContentCategory[] | undefined): boolean {
+	if (permittedChildren.indexOf(tag) !== -1 || !categories || categories.indexOf('script-supporting') !== -1) {
+		return true;
+	}
+	return categories.some(category => permittedChildren.indexOf(category) !== -1);
+}
+
+export function isTextPermitted(permittedChildren: string[]): boolean {
+	return permittedChildren.indexOf('flow') !== -1 || permittedChildren.indexOf('phrasing') !== -1;
+}
+
+/**
+ * The closest of the given element and its ancestors that prohibits descendants with the given name and categories.
+ */
+export function getProhibitingAncestor(node: Node | undefined, tag: string, categories: ContentCategory[] | undefined, getTagData: TagDataLookup): Node | undefined {
+	for (; node && node.tag; node = node.parent) {
+		const tagData = getTagData(node.tag.toLowerCase());
+		const prohibited = tagData && tagData.prohibitedDescendants;
+		if (prohibited && (prohibited.indexOf(tag) !== -1 || categories && categories.some(category => prohibited.indexOf(category) !== -1))) {
+			return node;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Whether the content models permit an element as a child of `parent`. Elements at the root of the document are always permitted.
+ */
+export function isPermittedChild(parent: Node | undefined, tag: string, tagData: ITagData, getTagData: TagDataLookup, node?: Node): boolean {
+	const parentTag = parent && parent.tag && parent.tag.toLowerCase();
+	if (!parentTag) {
+		return true;
+	}
+	const categories = getElementCategories(node, tagData);
+	if (tagData.permittedParents) {
+		if (tagData.permittedParents.indexOf(parentTag) === -1) {
+			return false;
+		}
+	} else {
+		const permittedChildren = getPermittedChildren(parent, getTagData);
+		if (permittedChildren && !isPermittedContent(permittedChildren, tag, categories)) {
+			return false;
+		}
+	}
+	return !getProhibitingAncestor(parent, tag, categories, getTagData);
+}
@@ -21,11 +21,15 @@ export const htmlData : HTMLDataV1 = {
 					"description": {
 						"kind": "markdown",
 						"value": "Specifies the URI of a resource manifest indicating resources that should be cached locally. See [Using the application cache](https://developer.mozilla.org/en-US/docs/Web/HTML/Using_the_application_cache) for details."
-					}
+					},
+					"status": "obsolete",
+					"replacement": "Use a service worker."
 				},
 				{
 					"name": "version",
-					"description": "Specifies the version of the HTML [Document Type Definition](https://developer.mozilla.org/en-US/docs/Glossary/DTD \"Document Type Definition: In HTML, the doctype is the required \"<!DOCTYPE html>\" preamble found at the top of all documents. Its sole purpose is to prevent a browser from switching into so-called “quirks mode” when rendering a document; that is, the \"<!DOCTYPE html>\" doctype ensures that the browser makes a best-effort attempt at following the relevant specifications, rather than using a different rendering mode that is incompatible with some specifications.\") that governs the current document. This attribute is not needed, because it is redundant with the version information in the document type declaration."
+					"description": "Specifies the version of the HTML [Document Type Definition](https://developer.mozilla.org/en-US/docs/Glossary/DTD \"Document Type Definition: In HTML, the doctype is the required \"<!DOCTYPE html>\" preamble found at the top of all documents. Its sole purpose is to prevent a browser from switching into so-called “quirks mode” when rendering a document; that is, the \"<!DOCTYPE html>\" doctype ensures that the browser makes a best-effort attempt at following the relevant specifications, rather than using a different rendering mode that is incompatible with some specifications.\") that governs the current document. This attribute is not needed, because it is redundant with the version information in the document type declaration.",
+					"status": "obsolete",
+					"replacement": "Remove the attribute."
 				},
 				{
 					"name": "xmlns",
@@ -37,6 +41,10 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/html"
 				}
+			],
+			"permittedChildren": [
+				"head",
+				"body"
 			]
 		},
 		{
@@ -48,7 +56,9 @@ export const htmlData : HTMLDataV1 = {
 			"attributes": [
 				{
 					"name": "profile",
-					"description": "The URIs of one or more metadata profiles, separated by white space."
+					"description": "The URIs of one or more metadata profiles, separated by white space.",
+					"status": "obsolete",
+					"replacement": "Remove the attribute."
 				}
 			],
 			"references": [
@@ -56,6 +66,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/head"
 				}
+			],
+			"permittedChildren": [
+				"metadata"
+			],
+			"permittedParents": [
+				"html"
 			]
 		},
 		{
@@ -70,6 +86,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/title"
 				}
+			],
+			"categories": [
+				"metadata"
+			],
+			"permittedParents": [
+				"head"
 			]
 		},
 		{
@@ -99,6 +121,9 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/base"
 				}
+			],
+			"categories": [
+				"metadata"
 			]
 		},
 		{
@@ -188,6 +213,9 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/link"
 				}
+			],
+			"categories": [
+				"metadata"
 			]
 		},
 		{
@@ -227,7 +255,9 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "scheme",
-					"description": "This attribute defines the scheme in which metadata is described. A scheme is a context leading to the correct interpretations of the [`content`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/meta#attr-content) value, like a format.\n\n**Warning:** Do not use this value, as it is obsolete. There is no replacement as there was no real usage for it."
+					"description": "This attribute defines the scheme in which metadata is described. A scheme is a context leading to the correct interpretations of the [`content`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/meta#attr-content) value, like a format.\n\n**Warning:** Do not use this value, as it is obsolete. There is no replacement as there was no real usage for it.",
+					"status": "obsolete",
+					"replacement": "Include the scheme in the `content` attribute."
 				}
 			],
 			"references": [
@@ -235,6 +265,9 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/meta"
 				}
+			],
+			"categories": [
+				"metadata"
 			]
 		},
 		{
@@ -279,6 +312,9 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/style"
 				}
+			],
+			"categories": [
+				"metadata"
 			]
 		},
 		{
@@ -373,15 +409,21 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "alink",
-					"description": "Color of text for hyperlinks when selected. _This method is non-conforming, use CSS [`color`](https://developer.mozilla.org/en-US/docs/Web/CSS/color \"The color CSS property sets the foreground color value of an element's text and text decorations, and sets the currentcolor value.\") property in conjunction with the [`:active`](https://developer.mozilla.org/en-US/docs/Web/CSS/:active \"The :active CSS pseudo-class represents an element (such as a button) that is being activated by the user.\") pseudo-class instead._"
+					"description": "Color of text for hyperlinks when selected. _This method is non-conforming, use CSS [`color`](https://developer.mozilla.org/en-US/docs/Web/CSS/color \"The color CSS property sets the foreground color value of an element's text and text decorations, and sets the currentcolor value.\") property in conjunction with the [`:active`](https://developer.mozilla.org/en-US/docs/Web/CSS/:active \"The :active CSS pseudo-class represents an element (such as a button) that is being activated by the user.\") pseudo-class instead._",
+					"status": "obsolete",
+					"replacement": "Use the CSS `color` property of `a:active`."
 				},
 				{
 					"name": "background",
-					"description": "URI of a image to use as a background. _This method is non-conforming, use CSS [`background`](https://developer.mozilla.org/en-US/docs/Web/CSS/background \"The background shorthand CSS property sets all background style properties at once, such as color, image, origin and size, or repeat method.\") property on the element instead._"
+					"description": "URI of a image to use as a background. _This method is non-conforming, use CSS [`background`](https://developer.mozilla.org/en-US/docs/Web/CSS/background \"The background shorthand CSS property sets all background style properties at once, such as color, image, origin and size, or repeat method.\") property on the element instead._",
+					"status": "obsolete",
+					"replacement": "Use the CSS `background-image` property."
 				},
 				{
 					"name": "bgcolor",
-					"description": "Background color for the document. _This method is non-conforming, use CSS [`background-color`](https://developer.mozilla.org/en-US/docs/Web/CSS/background-color \"The background-color CSS property sets the background color of an element.\") property on the element instead._"
+					"description": "Background color for the document. _This method is non-conforming, use CSS [`background-color`](https://developer.mozilla.org/en-US/docs/Web/CSS/background-color \"The background-color CSS property sets the background color of an element.\") property on the element instead._",
+					"status": "obsolete",
+					"replacement": "Use the CSS `background-color` property."
 				},
 				{
 					"name": "bottommargin",
@@ -393,7 +435,9 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "link",
-					"description": "Color of text for unvisited hypertext links. _This method is non-conforming, use CSS [`color`](https://developer.mozilla.org/en-US/docs/Web/CSS/color \"The color CSS property sets the foreground color value of an element's text and text decorations, and sets the currentcolor value.\") property in conjunction with the [`:link`](https://developer.mozilla.org/en-US/docs/Web/CSS/:link \"The :link CSS pseudo-class represents an element that has not yet been visited. It matches every unvisited <a>, <area>, or <link> element that has an href attribute.\") pseudo-class instead._"
+					"description": "Color of text for unvisited hypertext links. _This method is non-conforming, use CSS [`color`](https://developer.mozilla.org/en-US/docs/Web/CSS/color \"The color CSS property sets the foreground color value of an element's text and text decorations, and sets the currentcolor value.\") property in conjunction with the [`:link`](https://developer.mozilla.org/en-US/docs/Web/CSS/:link \"The :link CSS pseudo-class represents an element that has not yet been visited. It matches every unvisited <a>, <area>, or <link> element that has an href attribute.\") pseudo-class instead._",
+					"status": "obsolete",
+					"replacement": "Use the CSS `color` property of `a:link`."
 				},
 				{
 					"name": "onblur",
@@ -429,7 +473,9 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "text",
-					"description": "Foreground color of text. _This method is non-conforming, use CSS [`color`](https://developer.mozilla.org/en-US/docs/Web/CSS/color \"The color CSS property sets the foreground color value of an element's text and text decorations, and sets the currentcolor value.\") property on the element instead._"
+					"description": "Foreground color of text. _This method is non-conforming, use CSS [`color`](https://developer.mozilla.org/en-US/docs/Web/CSS/color \"The color CSS property sets the foreground color value of an element's text and text decorations, and sets the currentcolor value.\") property on the element instead._",
+					"status": "obsolete",
+					"replacement": "Use the CSS `color` property."
 				},
 				{
 					"name": "topmargin",
@@ -437,7 +483,9 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "vlink",
-					"description": "Color of text for visited hypertext links. _This method is non-conforming, use CSS [`color`](https://developer.mozilla.org/en-US/docs/Web/CSS/color \"The color CSS property sets the foreground color value of an element's text and text decorations, and sets the currentcolor value.\") property in conjunction with the [`:visited`](https://developer.mozilla.org/en-US/docs/Web/CSS/:visited \"The :visited CSS pseudo-class represents links that the user has already visited. For privacy reasons, the styles that can be modified using this selector are very limited.\") pseudo-class instead._"
+					"description": "Color of text for visited hypertext links. _This method is non-conforming, use CSS [`color`](https://developer.mozilla.org/en-US/docs/Web/CSS/color \"The color CSS property sets the foreground color value of an element's text and text decorations, and sets the currentcolor value.\") property in conjunction with the [`:visited`](https://developer.mozilla.org/en-US/docs/Web/CSS/:visited \"The :visited CSS pseudo-class represents links that the user has already visited. For privacy reasons, the styles that can be modified using this selector are very limited.\") pseudo-class instead._",
+					"status": "obsolete",
+					"replacement": "Use the CSS `color` property of `a:visited`."
 				}
 			],
 			"references": [
@@ -445,6 +493,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/body"
 				}
+			],
+			"permittedChildren": [
+				"flow"
+			],
+			"permittedParents": [
+				"html"
 			]
 		},
 		{
@@ -459,6 +513,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/article"
 				}
+			],
+			"categories": [
+				"flow",
+				"sectioning"
+			],
+			"permittedChildren": [
+				"flow"
 			]
 		},
 		{
@@ -473,6 +534,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/section"
 				}
+			],
+			"categories": [
+				"flow",
+				"sectioning"
+			],
+			"permittedChildren": [
+				"flow"
 			]
 		},
 		{
@@ -487,6 +555,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/nav"
 				}
+			],
+			"categories": [
+				"flow",
+				"sectioning"
+			],
+			"permittedChildren": [
+				"flow"
 			]
 		},
 		{
@@ -501,6 +576,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/aside"
 				}
+			],
+			"categories": [
+				"flow",
+				"sectioning"
+			],
+			"permittedChildren": [
+				"flow"
 			]
 		},
 		{
@@ -515,6 +597,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/Heading_Elements"
 				}
+			],
+			"categories": [
+				"flow",
+				"heading"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -529,6 +618,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/Heading_Elements"
 				}
+			],
+			"categories": [
+				"flow",
+				"heading"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -543,6 +639,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/Heading_Elements"
 				}
+			],
+			"categories": [
+				"flow",
+				"heading"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -557,6 +660,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/Heading_Elements"
 				}
+			],
+			"categories": [
+				"flow",
+				"heading"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -571,6 +681,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/Heading_Elements"
 				}
+			],
+			"categories": [
+				"flow",
+				"heading"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -585,6 +702,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/Heading_Elements"
 				}
+			],
+			"categories": [
+				"flow",
+				"heading"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -599,6 +723,16 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/header"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"flow"
+			],
+			"prohibitedDescendants": [
+				"header",
+				"footer"
 			]
 		},
 		{
@@ -613,6 +747,16 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/footer"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"flow"
+			],
+			"prohibitedDescendants": [
+				"header",
+				"footer"
 			]
 		},
 		{
@@ -627,6 +771,19 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/address"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"flow"
+			],
+			"prohibitedDescendants": [
+				"header",
+				"footer",
+				"sectioning",
+				"heading",
+				"address"
 			]
 		},
 		{
@@ -641,6 +798,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/p"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -652,23 +815,33 @@ export const htmlData : HTMLDataV1 = {
 			"attributes": [
 				{
 					"name": "align",
-					"description": "Sets the alignment of the rule on the page. If no value is specified, the default value is `left`."
+					"description": "Sets the alignment of the rule on the page. If no value is specified, the default value is `left`.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `text-align`, `vertical-align` or `float` properties."
 				},
 				{
 					"name": "color",
-					"description": "Sets the color of the rule through color name or hexadecimal value."
+					"description": "Sets the color of the rule through color name or hexadecimal value.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `color` property."
 				},
 				{
 					"name": "noshade",
-					"description": "Sets the rule to have no shading."
+					"description": "Sets the rule to have no shading.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `border` and `background-color` properties."
 				},
 				{
 					"name": "size",
-					"description": "Sets the height, in pixels, of the rule."
+					"description": "Sets the height, in pixels, of the rule.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `height` property."
 				},
 				{
 					"name": "width",
-					"description": "Sets the length of the rule on the page through a pixel or percentage value."
+					"description": "Sets the length of the rule on the page through a pixel or percentage value.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `width` property."
 				}
 			],
 			"references": [
@@ -676,6 +849,9 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/hr"
 				}
+			],
+			"categories": [
+				"flow"
 			]
 		},
 		{
@@ -691,7 +867,9 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "width",
-					"description": "Contains the _preferred_ count of characters that a line should have. Though technically still implemented, this attribute has no visual effect; to achieve such an effect, use CSS [`width`](https://developer.mozilla.org/en-US/docs/Web/CSS/width \"The width CSS property sets an element's width. By default it sets the width of the content area, but if box-sizing is set to border-box, it sets the width of the border area.\") instead."
+					"description": "Contains the _preferred_ count of characters that a line should have. Though technically still implemented, this attribute has no visual effect; to achieve such an effect, use CSS [`width`](https://developer.mozilla.org/en-US/docs/Web/CSS/width \"The width CSS property sets an element's width. By default it sets the width of the content area, but if box-sizing is set to border-box, it sets the width of the border area.\") instead.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `width` property."
 				},
 				{
 					"name": "wrap",
@@ -703,6 +881,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/pre"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -725,6 +909,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/blockquote"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"flow"
 			]
 		},
 		{
@@ -759,7 +949,9 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "compact",
-					"description": "This Boolean attribute hints that the list should be rendered in a compact style. The interpretation of this attribute depends on the user agent and it doesn't work in all browsers.\n\n**Warning:** Do not use this attribute, as it has been deprecated: the [`<ol>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/ol \"The HTML <ol> element represents an ordered list of items, typically rendered as a numbered list.\") element should be styled using [CSS](https://developer.mozilla.org/en-US/docs/CSS). To give an effect similar to the `compact` attribute, the [CSS](https://developer.mozilla.org/en-US/docs/CSS) property [`line-height`](https://developer.mozilla.org/en-US/docs/Web/CSS/line-height \"The line-height CSS property sets the amount of space used for lines, such as in text. On block-level elements, it specifies the minimum height of line boxes within the element. On non-replaced inline elements, it specifies the height that is used to calculate line box height.\") can be used with a value of `80%`."
+					"description": "This Boolean attribute hints that the list should be rendered in a compact style. The interpretation of this attribute depends on the user agent and it doesn't work in all browsers.\n\n**Warning:** Do not use this attribute, as it has been deprecated: the [`<ol>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/ol \"The HTML <ol> element represents an ordered list of items, typically rendered as a numbered list.\") element should be styled using [CSS](https://developer.mozilla.org/en-US/docs/CSS). To give an effect similar to the `compact` attribute, the [CSS](https://developer.mozilla.org/en-US/docs/CSS) property [`line-height`](https://developer.mozilla.org/en-US/docs/Web/CSS/line-height \"The line-height CSS property sets the amount of space used for lines, such as in text. On block-level elements, it specifies the minimum height of line boxes within the element. On non-replaced inline elements, it specifies the height that is used to calculate line box height.\") can be used with a value of `80%`.",
+					"status": "obsolete",
+					"replacement": "Use CSS to style the list."
 				}
 			],
 			"references": [
@@ -767,6 +959,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/ol"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"li"
 			]
 		},
 		{
@@ -778,7 +976,9 @@ export const htmlData : HTMLDataV1 = {
 			"attributes": [
 				{
 					"name": "compact",
-					"description": "This Boolean attribute hints that the list should be rendered in a compact style. The interpretation of this attribute depends on the user agent and it doesn't work in all browsers.\n\n**Usage note: **Do not use this attribute, as it has been deprecated: the [`<ul>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/ul \"The HTML <ul> element represents an unordered list of items, typically rendered as a bulleted list.\") element should be styled using [CSS](https://developer.mozilla.org/en-US/docs/CSS). To give a similar effect as the `compact` attribute, the [CSS](https://developer.mozilla.org/en-US/docs/CSS) property [line-height](https://developer.mozilla.org/en-US/docs/CSS/line-height) can be used with a value of `80%`."
+					"description": "This Boolean attribute hints that the list should be rendered in a compact style. The interpretation of this attribute depends on the user agent and it doesn't work in all browsers.\n\n**Usage note: **Do not use this attribute, as it has been deprecated: the [`<ul>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/ul \"The HTML <ul> element represents an unordered list of items, typically rendered as a bulleted list.\") element should be styled using [CSS](https://developer.mozilla.org/en-US/docs/CSS). To give a similar effect as the `compact` attribute, the [CSS](https://developer.mozilla.org/en-US/docs/CSS) property [line-height](https://developer.mozilla.org/en-US/docs/CSS/line-height) can be used with a value of `80%`.",
+					"status": "obsolete",
+					"replacement": "Use CSS to style the list."
 				}
 			],
 			"references": [
@@ -786,6 +986,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/ul"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"li"
 			]
 		},
 		{
@@ -804,7 +1010,9 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "type",
-					"description": "This character attribute indicates the numbering type:\n\n*   `a`: lowercase letters\n*   `A`: uppercase letters\n*   `i`: lowercase Roman numerals\n*   `I`: uppercase Roman numerals\n*   `1`: numbers\n\nThis type overrides the one used by its parent [`<ol>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/ol \"The HTML <ol> element represents an ordered list of items, typically rendered as a numbered list.\") element, if any.\n\n**Usage note:** This attribute has been deprecated: use the CSS [`list-style-type`](https://developer.mozilla.org/en-US/docs/Web/CSS/list-style-type \"The list-style-type CSS property sets the marker (such as a disc, character, or custom counter style) of a list item element.\") property instead."
+					"description": "This character attribute indicates the numbering type:\n\n*   `a`: lowercase letters\n*   `A`: uppercase letters\n*   `i`: lowercase Roman numerals\n*   `I`: uppercase Roman numerals\n*   `1`: numbers\n\nThis type overrides the one used by its parent [`<ol>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/ol \"The HTML <ol> element represents an ordered list of items, typically rendered as a numbered list.\") element, if any.\n\n**Usage note:** This attribute has been deprecated: use the CSS [`list-style-type`](https://developer.mozilla.org/en-US/docs/Web/CSS/list-style-type \"The list-style-type CSS property sets the marker (such as a disc, character, or custom counter style) of a list item element.\") property instead.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `list-style-type` property."
 				}
 			],
 			"references": [
@@ -812,6 +1020,14 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/li"
 				}
+			],
+			"permittedChildren": [
+				"flow"
+			],
+			"permittedParents": [
+				"ul",
+				"ol",
+				"menu"
 			]
 		},
 		{
@@ -826,6 +1042,14 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/dl"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"dt",
+				"dd",
+				"div"
 			]
 		},
 		{
@@ -840,6 +1064,19 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/dt"
 				}
+			],
+			"permittedChildren": [
+				"flow"
+			],
+			"permittedParents": [
+				"dl",
+				"div"
+			],
+			"prohibitedDescendants": [
+				"header",
+				"footer",
+				"sectioning",
+				"heading"
 			]
 		},
 		{
@@ -859,6 +1096,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/dd"
 				}
+			],
+			"permittedChildren": [
+				"flow"
+			],
+			"permittedParents": [
+				"dl",
+				"div"
 			]
 		},
 		{
@@ -873,6 +1117,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/figure"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"figcaption",
+				"flow"
 			]
 		},
 		{
@@ -887,6 +1138,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/figcaption"
 				}
+			],
+			"permittedChildren": [
+				"flow"
+			],
+			"permittedParents": [
+				"figure"
 			]
 		},
 		{
@@ -901,6 +1158,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/main"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"flow"
 			]
 		},
 		{
@@ -915,6 +1178,14 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/div"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"flow",
+				"dt",
+				"dd"
 			]
 		},
 		{
@@ -983,6 +1254,17 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/a"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"interactive"
+			],
+			"permittedChildren": [
+				"transparent"
+			],
+			"prohibitedDescendants": [
+				"interactive"
 			]
 		},
 		{
@@ -997,6 +1279,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/em"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1011,6 +1300,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/strong"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1025,6 +1321,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/small"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1039,6 +1342,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/s"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1053,6 +1363,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/cite"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1075,6 +1392,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/q"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1089,6 +1413,16 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/dfn"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
+			],
+			"prohibitedDescendants": [
+				"dfn"
 			]
 		},
 		{
@@ -1103,6 +1437,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/abbr"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1117,6 +1458,15 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/ruby"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing",
+				"rt",
+				"rp"
 			]
 		},
 		{
@@ -1131,7 +1481,9 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/rb"
 				}
-			]
+			],
+			"status": "obsolete",
+			"replacement": "Put the base text directly into the `ruby` element."
 		},
 		{
 			"name": "rt",
@@ -1145,6 +1497,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/rt"
 				}
+			],
+			"permittedChildren": [
+				"phrasing"
+			],
+			"permittedParents": [
+				"ruby"
 			]
 		},
 		{
@@ -1159,6 +1517,9 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/rp"
 				}
+			],
+			"permittedParents": [
+				"ruby"
 			]
 		},
 		{
@@ -1181,6 +1542,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/time"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1195,6 +1563,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/code"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1209,6 +1584,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/var"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1223,6 +1605,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/samp"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1237,6 +1626,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/kbd"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1251,6 +1647,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/sub"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1265,6 +1668,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/sup"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1279,6 +1689,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/i"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1293,6 +1710,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/b"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1307,6 +1731,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/u"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1321,6 +1752,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/mark"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1335,6 +1773,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/bdi"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1354,6 +1799,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/bdo"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1368,6 +1820,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/span"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -1379,7 +1838,9 @@ export const htmlData : HTMLDataV1 = {
 			"attributes": [
 				{
 					"name": "clear",
-					"description": "Indicates where to begin the next line after the break."
+					"description": "Indicates where to begin the next line after the break.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `clear` property."
 				}
 			],
 			"references": [
@@ -1387,6 +1848,10 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/br"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
 			]
 		},
 		{
@@ -1401,6 +1866,10 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/wbr"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
 			]
 		},
 		{
@@ -1424,6 +1893,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/ins"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"transparent"
 			]
 		},
 		{
@@ -1453,6 +1929,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/del"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"transparent"
 			]
 		},
 		{
@@ -1467,6 +1950,15 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/picture"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"embedded"
+			],
+			"permittedChildren": [
+				"source",
+				"img"
 			]
 		},
 		{
@@ -1561,6 +2053,74 @@ export const htmlData : HTMLDataV1 = {
 				{
 					"name": "sizes",
 					"description": "A list of one or more strings separated by commas indicating a set of source sizes. Each source size consists of:\n\n1.  a media condition. This must be omitted for the last item.\n2.  a source size value.\n\nSource size values specify the intended display size of the image. User agents use the current source size to select one of the sources supplied by the `srcset` attribute, when those sources are described using width ('`w`') descriptors. The selected source size affects the intrinsic size of the image (the image’s display size if no CSS styling is applied). If the `srcset` attribute is absent, or contains no values with a width (`w`) descriptor, then the `sizes` attribute has no effect."
+				},
+				{
+					"name": "loading",
+					"description": {
+						"kind": "markdown",
+						"value": "How the browser loads the image: `eager` loads it immediately, `lazy` defers loading until the image is near the viewport."
+					},
+					"values": [
+						{
+							"name": "eager"
+						},
+						{
+							"name": "lazy"
+						}
+					],
+					"browsers": [
+						"E79",
+						"FF75",
+						"S15.4",
+						"C77",
+						"O64"
+					],
+					"baseline": {
+						"baseline": "high",
+						"baseline_low_date": "2022-03-14",
+						"baseline_high_date": "2024-09-14"
+					},
+					"references": [
+						{
+							"name": "MDN Reference",
+							"url": "https://developer.mozilla.org/docs/Web/HTML/Element/img#loading"
+						}
+					]
+				},
+				{
+					"name": "fetchpriority",
+					"description": {
+						"kind": "markdown",
+						"value": "A hint of the priority of fetching the image relative to other images."
+					},
+					"values": [
+						{
+							"name": "high"
+						},
+						{
+							"name": "low"
+						},
+						{
+							"name": "auto"
+						}
+					],
+					"browsers": [
+						"E102",
+						"FF132",
+						"S17.2",
+						"C102",
+						"O88"
+					],
+					"baseline": {
+						"baseline": "low",
+						"baseline_low_date": "2024-10-29"
+					},
+					"references": [
+						{
+							"name": "MDN Reference",
+							"url": "https://developer.mozilla.org/docs/Web/HTML/Element/img#fetchpriority"
+						}
+					]
 				}
 			],
 			"references": [
@@ -1568,6 +2128,11 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/img"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"embedded"
 			]
 		},
 		{
@@ -1662,6 +2227,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/iframe"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"embedded",
+				"interactive"
 			]
 		},
 		{
@@ -1705,6 +2276,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/embed"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"embedded",
+				"interactive"
 			]
 		},
 		{
@@ -1773,31 +2350,45 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "archive",
-					"description": "A space-separated list of URIs for archives of resources for the object."
+					"description": "A space-separated list of URIs for archives of resources for the object.",
+					"status": "obsolete",
+					"replacement": "Use the `data` and `type` attributes."
 				},
 				{
 					"name": "border",
-					"description": "The width of a border around the control, in pixels."
+					"description": "The width of a border around the control, in pixels.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `border` property."
 				},
 				{
 					"name": "classid",
-					"description": "The URI of the object's implementation. It can be used together with, or in place of, the **data** attribute."
+					"description": "The URI of the object's implementation. It can be used together with, or in place of, the **data** attribute.",
+					"status": "obsolete",
+					"replacement": "Use the `data` and `type` attributes."
 				},
 				{
 					"name": "codebase",
-					"description": "The base path used to resolve relative URIs specified by **classid**, **data**, or **archive**. If not specified, the default is the base URI of the current document."
+					"description": "The base path used to resolve relative URIs specified by **classid**, **data**, or **archive**. If not specified, the default is the base URI of the current document.",
+					"status": "obsolete",
+					"replacement": "Use the `data` and `type` attributes."
 				},
 				{
 					"name": "codetype",
-					"description": "The content type of the data specified by **classid**."
+					"description": "The content type of the data specified by **classid**.",
+					"status": "obsolete",
+					"replacement": "Use the `type` attribute."
 				},
 				{
 					"name": "declare",
-					"description": "The presence of this Boolean attribute makes this element a declaration only. The object must be instantiated by a subsequent `<object>` element. In HTML5, repeat the <object> element completely each that that the resource is reused."
+					"description": "The presence of this Boolean attribute makes this element a declaration only. The object must be instantiated by a subsequent `<object>` element. In HTML5, repeat the <object> element completely each that that the resource is reused.",
+					"status": "obsolete",
+					"replacement": "Repeat the `object` element where it is used."
 				},
 				{
 					"name": "standby",
-					"description": "A message that the browser can show while loading the object's implementation and data."
+					"description": "A message that the browser can show while loading the object's implementation and data.",
+					"status": "obsolete",
+					"replacement": "Optimize the linked resource so that it loads quickly."
 				},
 				{
 					"name": "tabindex",
@@ -1809,6 +2400,15 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/object"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"embedded"
+			],
+			"permittedChildren": [
+				"param",
+				"transparent"
 			]
 		},
 		{
@@ -1846,6 +2446,9 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/param"
 				}
+			],
+			"permittedParents": [
+				"object"
 			]
 		},
 		{
@@ -1904,6 +2507,16 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/video"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"embedded"
+			],
+			"permittedChildren": [
+				"source",
+				"track",
+				"transparent"
 			]
 		},
 		{
@@ -1977,6 +2590,16 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/audio"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"embedded"
+			],
+			"permittedChildren": [
+				"source",
+				"track",
+				"transparent"
 			]
 		},
 		{
@@ -2018,6 +2641,11 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/source"
 				}
+			],
+			"permittedParents": [
+				"picture",
+				"audio",
+				"video"
 			]
 		},
 		{
@@ -2070,6 +2698,10 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/track"
 				}
+			],
+			"permittedParents": [
+				"audio",
+				"video"
 			]
 		},
 		{
@@ -2092,6 +2724,14 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/map"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"area",
+				"transparent"
 			]
 		},
 		{
@@ -2156,7 +2796,9 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "align",
-					"description": "This enumerated attribute indicates how the table must be aligned inside the containing document. It may have the following values:\n\n*   left: the table is displayed on the left side of the document;\n*   center: the table is displayed in the center of the document;\n*   right: the table is displayed on the right side of the document.\n\n**Usage Note**\n\n*   **Do not use this attribute**, as it has been deprecated. The [`<table>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/table \"The HTML <table> element represents tabular data — that is, information presented in a two-dimensional table comprised of rows and columns of cells containing data.\") element should be styled using [CSS](https://developer.mozilla.org/en-US/docs/CSS). Set [`margin-left`](https://developer.mozilla.org/en-US/docs/Web/CSS/margin-left \"The margin-left CSS property sets the margin area on the left side of an element. A positive value places it farther from its neighbors, while a negative value places it closer.\") and [`margin-right`](https://developer.mozilla.org/en-US/docs/Web/CSS/margin-right \"The margin-right CSS property sets the margin area on the right side of an element. A positive value places it farther from its neighbors, while a negative value places it closer.\") to `auto` or [`margin`](https://developer.mozilla.org/en-US/docs/Web/CSS/margin \"The margin CSS property sets the margin area on all four sides of an element. It is a shorthand for margin-top, margin-right, margin-bottom, and margin-left.\") to `0 auto` to achieve an effect that is similar to the align attribute.\n*   Prior to Firefox 4, Firefox also supported the `middle`, `absmiddle`, and `abscenter` values as synonyms of `center`, in quirks mode only."
+					"description": "This enumerated attribute indicates how the table must be aligned inside the containing document. It may have the following values:\n\n*   left: the table is displayed on the left side of the document;\n*   center: the table is displayed in the center of the document;\n*   right: the table is displayed on the right side of the document.\n\n**Usage Note**\n\n*   **Do not use this attribute**, as it has been deprecated. The [`<table>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/table \"The HTML <table> element represents tabular data — that is, information presented in a two-dimensional table comprised of rows and columns of cells containing data.\") element should be styled using [CSS](https://developer.mozilla.org/en-US/docs/CSS). Set [`margin-left`](https://developer.mozilla.org/en-US/docs/Web/CSS/margin-left \"The margin-left CSS property sets the margin area on the left side of an element. A positive value places it farther from its neighbors, while a negative value places it closer.\") and [`margin-right`](https://developer.mozilla.org/en-US/docs/Web/CSS/margin-right \"The margin-right CSS property sets the margin area on the right side of an element. A positive value places it farther from its neighbors, while a negative value places it closer.\") to `auto` or [`margin`](https://developer.mozilla.org/en-US/docs/Web/CSS/margin \"The margin CSS property sets the margin area on all four sides of an element. It is a shorthand for margin-top, margin-right, margin-bottom, and margin-left.\") to `0 auto` to achieve an effect that is similar to the align attribute.\n*   Prior to Firefox 4, Firefox also supported the `middle`, `absmiddle`, and `abscenter` values as synonyms of `center`, in quirks mode only.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `text-align`, `vertical-align` or `float` properties."
 				}
 			],
 			"references": [
@@ -2164,6 +2806,17 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/table"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"caption",
+				"colgroup",
+				"thead",
+				"tbody",
+				"tfoot",
+				"tr"
 			]
 		},
 		{
@@ -2175,7 +2828,9 @@ export const htmlData : HTMLDataV1 = {
 			"attributes": [
 				{
 					"name": "align",
-					"description": "This enumerated attribute indicates how the caption must be aligned with respect to the table. It may have one of the following values:\n\n`left`\n\nThe caption is displayed to the left of the table.\n\n`top`\n\nThe caption is displayed above the table.\n\n`right`\n\nThe caption is displayed to the right of the table.\n\n`bottom`\n\nThe caption is displayed below the table.\n\n**Usage note:** Do not use this attribute, as it has been deprecated. The [`<caption>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/caption \"The HTML Table Caption element (<caption>) specifies the caption (or title) of a table, and if used is always the first child of a <table>.\") element should be styled using the [CSS](https://developer.mozilla.org/en-US/docs/CSS) properties [`caption-side`](https://developer.mozilla.org/en-US/docs/Web/CSS/caption-side \"The caption-side CSS property puts the content of a table's <caption> on the specified side. The values are relative to the writing-mode of the table.\") and [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\")."
+					"description": "This enumerated attribute indicates how the caption must be aligned with respect to the table. It may have one of the following values:\n\n`left`\n\nThe caption is displayed to the left of the table.\n\n`top`\n\nThe caption is displayed above the table.\n\n`right`\n\nThe caption is displayed to the right of the table.\n\n`bottom`\n\nThe caption is displayed below the table.\n\n**Usage note:** Do not use this attribute, as it has been deprecated. The [`<caption>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/caption \"The HTML Table Caption element (<caption>) specifies the caption (or title) of a table, and if used is always the first child of a <table>.\") element should be styled using the [CSS](https://developer.mozilla.org/en-US/docs/CSS) properties [`caption-side`](https://developer.mozilla.org/en-US/docs/Web/CSS/caption-side \"The caption-side CSS property puts the content of a table's <caption> on the specified side. The values are relative to the writing-mode of the table.\") and [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\").",
+					"status": "obsolete",
+					"replacement": "Use the CSS `text-align`, `vertical-align` or `float` properties."
 				}
 			],
 			"references": [
@@ -2183,6 +2838,15 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/caption"
 				}
+			],
+			"permittedChildren": [
+				"flow"
+			],
+			"permittedParents": [
+				"table"
+			],
+			"prohibitedDescendants": [
+				"table"
 			]
 		},
 		{
@@ -2197,7 +2861,9 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "align",
-					"description": "This enumerated attribute specifies how horizontal alignment of each column cell content will be handled. Possible values are:\n\n*   `left`, aligning the content to the left of the cell\n*   `center`, centering the content in the cell\n*   `right`, aligning the content to the right of the cell\n*   `justify`, inserting spaces into the textual content so that the content is justified in the cell\n*   `char`, aligning the textual content on a special character with a minimal offset, defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col#attr-charoff) attributes Unimplemented (see [bug 2212](https://bugzilla.mozilla.org/show_bug.cgi?id=2212 \"character alignment not implemented (align=char, charoff=, text-align:<string>)\")).\n\nIf this attribute is not set, the `left` value is assumed. The descendant [`<col>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col \"The HTML <col> element defines a column within a table and is used for defining common semantics on all common cells. It is generally found within a <colgroup> element.\") elements may override this value using their own [`align`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col#attr-align) attribute.\n\n**Note:** Do not use this attribute as it is obsolete (not supported) in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values:\n    *   Do not try to set the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property on a selector giving a [`<colgroup>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/colgroup \"The HTML <colgroup> element defines a group of columns within a table.\") element. Because [`<td>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td \"The HTML <td> element defines a cell of a table that contains data. It participates in the table model.\") elements are not descendant of the [`<colgroup>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/colgroup \"The HTML <colgroup> element defines a group of columns within a table.\") element, they won't inherit it.\n    *   If the table doesn't use a [`colspan`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-colspan) attribute, use one `td:nth-child(an+b)` CSS selector per column, where a is the total number of the columns in the table and b is the ordinal position of this column in the table. Only after this selector the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property can be used.\n    *   If the table does use a [`colspan`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-colspan) attribute, the effect can be achieved by combining adequate CSS attribute selectors like `[colspan=n]`, though this is not trivial.\n*   To achieve the same effect as the `char` value, in CSS3, you can use the value of the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/colgroup#attr-char) as the value of the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property Unimplemented."
+					"description": "This enumerated attribute specifies how horizontal alignment of each column cell content will be handled. Possible values are:\n\n*   `left`, aligning the content to the left of the cell\n*   `center`, centering the content in the cell\n*   `right`, aligning the content to the right of the cell\n*   `justify`, inserting spaces into the textual content so that the content is justified in the cell\n*   `char`, aligning the textual content on a special character with a minimal offset, defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col#attr-charoff) attributes Unimplemented (see [bug 2212](https://bugzilla.mozilla.org/show_bug.cgi?id=2212 \"character alignment not implemented (align=char, charoff=, text-align:<string>)\")).\n\nIf this attribute is not set, the `left` value is assumed. The descendant [`<col>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col \"The HTML <col> element defines a column within a table and is used for defining common semantics on all common cells. It is generally found within a <colgroup> element.\") elements may override this value using their own [`align`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col#attr-align) attribute.\n\n**Note:** Do not use this attribute as it is obsolete (not supported) in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values:\n    *   Do not try to set the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property on a selector giving a [`<colgroup>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/colgroup \"The HTML <colgroup> element defines a group of columns within a table.\") element. Because [`<td>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td \"The HTML <td> element defines a cell of a table that contains data. It participates in the table model.\") elements are not descendant of the [`<colgroup>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/colgroup \"The HTML <colgroup> element defines a group of columns within a table.\") element, they won't inherit it.\n    *   If the table doesn't use a [`colspan`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-colspan) attribute, use one `td:nth-child(an+b)` CSS selector per column, where a is the total number of the columns in the table and b is the ordinal position of this column in the table. Only after this selector the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property can be used.\n    *   If the table does use a [`colspan`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-colspan) attribute, the effect can be achieved by combining adequate CSS attribute selectors like `[colspan=n]`, though this is not trivial.\n*   To achieve the same effect as the `char` value, in CSS3, you can use the value of the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/colgroup#attr-char) as the value of the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property Unimplemented.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `text-align`, `vertical-align` or `float` properties."
 				}
 			],
 			"references": [
@@ -2205,6 +2871,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/colgroup"
 				}
+			],
+			"permittedChildren": [
+				"col"
+			],
+			"permittedParents": [
+				"table"
 			]
 		},
 		{
@@ -2219,7 +2891,9 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "align",
-					"description": "This enumerated attribute specifies how horizontal alignment of each column cell content will be handled. Possible values are:\n\n*   `left`, aligning the content to the left of the cell\n*   `center`, centering the content in the cell\n*   `right`, aligning the content to the right of the cell\n*   `justify`, inserting spaces into the textual content so that the content is justified in the cell\n*   `char`, aligning the textual content on a special character with a minimal offset, defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col#attr-charoff) attributes Unimplemented (see [bug 2212](https://bugzilla.mozilla.org/show_bug.cgi?id=2212 \"character alignment not implemented (align=char, charoff=, text-align:<string>)\")).\n\nIf this attribute is not set, its value is inherited from the [`align`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/colgroup#attr-align) of the [`<colgroup>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/colgroup \"The HTML <colgroup> element defines a group of columns within a table.\") element this `<col>` element belongs too. If there are none, the `left` value is assumed.\n\n**Note:** Do not use this attribute as it is obsolete (not supported) in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values:\n    *   Do not try to set the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property on a selector giving a [`<col>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col \"The HTML <col> element defines a column within a table and is used for defining common semantics on all common cells. It is generally found within a <colgroup> element.\") element. Because [`<td>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td \"The HTML <td> element defines a cell of a table that contains data. It participates in the table model.\") elements are not descendant of the [`<col>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col \"The HTML <col> element defines a column within a table and is used for defining common semantics on all common cells. It is generally found within a <colgroup> element.\") element, they won't inherit it.\n    *   If the table doesn't use a [`colspan`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-colspan) attribute, use the `td:nth-child(an+b)` CSS selector. Set `a` to zero and `b` to the position of the column in the table, e.g. `td:nth-child(2) { text-align: right; }` to right-align the second column.\n    *   If the table does use a [`colspan`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-colspan) attribute, the effect can be achieved by combining adequate CSS attribute selectors like `[colspan=n]`, though this is not trivial.\n*   To achieve the same effect as the `char` value, in CSS3, you can use the value of the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col#attr-char) as the value of the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property Unimplemented."
+					"description": "This enumerated attribute specifies how horizontal alignment of each column cell content will be handled. Possible values are:\n\n*   `left`, aligning the content to the left of the cell\n*   `center`, centering the content in the cell\n*   `right`, aligning the content to the right of the cell\n*   `justify`, inserting spaces into the textual content so that the content is justified in the cell\n*   `char`, aligning the textual content on a special character with a minimal offset, defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col#attr-charoff) attributes Unimplemented (see [bug 2212](https://bugzilla.mozilla.org/show_bug.cgi?id=2212 \"character alignment not implemented (align=char, charoff=, text-align:<string>)\")).\n\nIf this attribute is not set, its value is inherited from the [`align`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/colgroup#attr-align) of the [`<colgroup>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/colgroup \"The HTML <colgroup> element defines a group of columns within a table.\") element this `<col>` element belongs too. If there are none, the `left` value is assumed.\n\n**Note:** Do not use this attribute as it is obsolete (not supported) in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values:\n    *   Do not try to set the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property on a selector giving a [`<col>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col \"The HTML <col> element defines a column within a table and is used for defining common semantics on all common cells. It is generally found within a <colgroup> element.\") element. Because [`<td>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td \"The HTML <td> element defines a cell of a table that contains data. It participates in the table model.\") elements are not descendant of the [`<col>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col \"The HTML <col> element defines a column within a table and is used for defining common semantics on all common cells. It is generally found within a <colgroup> element.\") element, they won't inherit it.\n    *   If the table doesn't use a [`colspan`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-colspan) attribute, use the `td:nth-child(an+b)` CSS selector. Set `a` to zero and `b` to the position of the column in the table, e.g. `td:nth-child(2) { text-align: right; }` to right-align the second column.\n    *   If the table does use a [`colspan`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-colspan) attribute, the effect can be achieved by combining adequate CSS attribute selectors like `[colspan=n]`, though this is not trivial.\n*   To achieve the same effect as the `char` value, in CSS3, you can use the value of the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/col#attr-char) as the value of the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property Unimplemented.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `text-align`, `vertical-align` or `float` properties."
 				}
 			],
 			"references": [
@@ -2227,6 +2901,9 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/col"
 				}
+			],
+			"permittedParents": [
+				"colgroup"
 			]
 		},
 		{
@@ -2238,7 +2915,9 @@ export const htmlData : HTMLDataV1 = {
 			"attributes": [
 				{
 					"name": "align",
-					"description": "This enumerated attribute specifies how horizontal alignment of each cell content will be handled. Possible values are:\n\n*   `left`, aligning the content to the left of the cell\n*   `center`, centering the content in the cell\n*   `right`, aligning the content to the right of the cell\n*   `justify`, inserting spaces into the textual content so that the content is justified in the cell\n*   `char`, aligning the textual content on a special character with a minimal offset, defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tbody#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tbody#attr-charoff) attributes.\n\nIf this attribute is not set, the `left` value is assumed.\n\n**Note:** Do not use this attribute as it is obsolete (not supported) in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values, use the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property on it.\n*   To achieve the same effect as the `char` value, in CSS3, you can use the value of the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tbody#attr-char) as the value of the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property Unimplemented."
+					"description": "This enumerated attribute specifies how horizontal alignment of each cell content will be handled. Possible values are:\n\n*   `left`, aligning the content to the left of the cell\n*   `center`, centering the content in the cell\n*   `right`, aligning the content to the right of the cell\n*   `justify`, inserting spaces into the textual content so that the content is justified in the cell\n*   `char`, aligning the textual content on a special character with a minimal offset, defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tbody#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tbody#attr-charoff) attributes.\n\nIf this attribute is not set, the `left` value is assumed.\n\n**Note:** Do not use this attribute as it is obsolete (not supported) in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values, use the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property on it.\n*   To achieve the same effect as the `char` value, in CSS3, you can use the value of the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tbody#attr-char) as the value of the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property Unimplemented.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `text-align`, `vertical-align` or `float` properties."
 				}
 			],
 			"references": [
@@ -2246,6 +2925,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/tbody"
 				}
+			],
+			"permittedChildren": [
+				"tr"
+			],
+			"permittedParents": [
+				"table"
 			]
 		},
 		{
@@ -2257,7 +2942,9 @@ export const htmlData : HTMLDataV1 = {
 			"attributes": [
 				{
 					"name": "align",
-					"description": "This enumerated attribute specifies how horizontal alignment of each cell content will be handled. Possible values are:\n\n*   `left`, aligning the content to the left of the cell\n*   `center`, centering the content in the cell\n*   `right`, aligning the content to the right of the cell\n*   `justify`, inserting spaces into the textual content so that the content is justified in the cell\n*   `char`, aligning the textual content on a special character with a minimal offset, defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/thead#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/thead#attr-charoff) attributes Unimplemented (see [bug 2212](https://bugzilla.mozilla.org/show_bug.cgi?id=2212 \"character alignment not implemented (align=char, charoff=, text-align:<string>)\")).\n\nIf this attribute is not set, the `left` value is assumed.\n\n**Note:** Do not use this attribute as it is obsolete (not supported) in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values, use the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property on it.\n*   To achieve the same effect as the `char` value, in CSS3, you can use the value of the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/thead#attr-char) as the value of the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property Unimplemented."
+					"description": "This enumerated attribute specifies how horizontal alignment of each cell content will be handled. Possible values are:\n\n*   `left`, aligning the content to the left of the cell\n*   `center`, centering the content in the cell\n*   `right`, aligning the content to the right of the cell\n*   `justify`, inserting spaces into the textual content so that the content is justified in the cell\n*   `char`, aligning the textual content on a special character with a minimal offset, defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/thead#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/thead#attr-charoff) attributes Unimplemented (see [bug 2212](https://bugzilla.mozilla.org/show_bug.cgi?id=2212 \"character alignment not implemented (align=char, charoff=, text-align:<string>)\")).\n\nIf this attribute is not set, the `left` value is assumed.\n\n**Note:** Do not use this attribute as it is obsolete (not supported) in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values, use the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property on it.\n*   To achieve the same effect as the `char` value, in CSS3, you can use the value of the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/thead#attr-char) as the value of the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property Unimplemented.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `text-align`, `vertical-align` or `float` properties."
 				}
 			],
 			"references": [
@@ -2265,6 +2952,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/thead"
 				}
+			],
+			"permittedChildren": [
+				"tr"
+			],
+			"permittedParents": [
+				"table"
 			]
 		},
 		{
@@ -2276,7 +2969,9 @@ export const htmlData : HTMLDataV1 = {
 			"attributes": [
 				{
 					"name": "align",
-					"description": "This enumerated attribute specifies how horizontal alignment of each cell content will be handled. Possible values are:\n\n*   `left`, aligning the content to the left of the cell\n*   `center`, centering the content in the cell\n*   `right`, aligning the content to the right of the cell\n*   `justify`, inserting spaces into the textual content so that the content is justified in the cell\n*   `char`, aligning the textual content on a special character with a minimal offset, defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tbody#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tbody#attr-charoff) attributes Unimplemented (see [bug 2212](https://bugzilla.mozilla.org/show_bug.cgi?id=2212 \"character alignment not implemented (align=char, charoff=, text-align:<string>)\")).\n\nIf this attribute is not set, the `left` value is assumed.\n\n**Note:** Do not use this attribute as it is obsolete (not supported) in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values, use the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property on it.\n*   To achieve the same effect as the `char` value, in CSS3, you can use the value of the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tfoot#attr-char) as the value of the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property Unimplemented."
+					"description": "This enumerated attribute specifies how horizontal alignment of each cell content will be handled. Possible values are:\n\n*   `left`, aligning the content to the left of the cell\n*   `center`, centering the content in the cell\n*   `right`, aligning the content to the right of the cell\n*   `justify`, inserting spaces into the textual content so that the content is justified in the cell\n*   `char`, aligning the textual content on a special character with a minimal offset, defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tbody#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tbody#attr-charoff) attributes Unimplemented (see [bug 2212](https://bugzilla.mozilla.org/show_bug.cgi?id=2212 \"character alignment not implemented (align=char, charoff=, text-align:<string>)\")).\n\nIf this attribute is not set, the `left` value is assumed.\n\n**Note:** Do not use this attribute as it is obsolete (not supported) in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values, use the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property on it.\n*   To achieve the same effect as the `char` value, in CSS3, you can use the value of the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tfoot#attr-char) as the value of the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property Unimplemented.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `text-align`, `vertical-align` or `float` properties."
 				}
 			],
 			"references": [
@@ -2284,6 +2979,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/tfoot"
 				}
+			],
+			"permittedChildren": [
+				"tr"
+			],
+			"permittedParents": [
+				"table"
 			]
 		},
 		{
@@ -2295,7 +2996,9 @@ export const htmlData : HTMLDataV1 = {
 			"attributes": [
 				{
 					"name": "align",
-					"description": "A [`DOMString`](https://developer.mozilla.org/en-US/docs/Web/API/DOMString \"DOMString is a UTF-16 String. As JavaScript already uses such strings, DOMString is mapped directly to a String.\") which specifies how the cell's context should be aligned horizontally within the cells in the row; this is shorthand for using `align` on every cell in the row individually. Possible values are:\n\n`left`\n\nAlign the content of each cell at its left edge.\n\n`center`\n\nCenter the contents of each cell between their left and right edges.\n\n`right`\n\nAlign the content of each cell at its right edge.\n\n`justify`\n\nWiden whitespaces within the text of each cell so that the text fills the full width of each cell (full justification).\n\n`char`\n\nAlign each cell in the row on a specific character (such that each row in the column that is configured this way will horizontally align its cells on that character). This uses the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tr#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tr#attr-charoff) to establish the alignment character (typically \".\" or \",\" when aligning numerical data) and the number of characters that should follow the alignment character. This alignment type was never widely supported.\n\nIf no value is expressly set for `align`, the parent node's value is inherited.\n\nInstead of using the obsolete `align` attribute, you should instead use the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property to establish `left`, `center`, `right`, or `justify` alignment for the row's cells. To apply character-based alignment, set the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property to the alignment character (such as `\".\"` or `\",\"`)."
+					"description": "A [`DOMString`](https://developer.mozilla.org/en-US/docs/Web/API/DOMString \"DOMString is a UTF-16 String. As JavaScript already uses such strings, DOMString is mapped directly to a String.\") which specifies how the cell's context should be aligned horizontally within the cells in the row; this is shorthand for using `align` on every cell in the row individually. Possible values are:\n\n`left`\n\nAlign the content of each cell at its left edge.\n\n`center`\n\nCenter the contents of each cell between their left and right edges.\n\n`right`\n\nAlign the content of each cell at its right edge.\n\n`justify`\n\nWiden whitespaces within the text of each cell so that the text fills the full width of each cell (full justification).\n\n`char`\n\nAlign each cell in the row on a specific character (such that each row in the column that is configured this way will horizontally align its cells on that character). This uses the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tr#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/tr#attr-charoff) to establish the alignment character (typically \".\" or \",\" when aligning numerical data) and the number of characters that should follow the alignment character. This alignment type was never widely supported.\n\nIf no value is expressly set for `align`, the parent node's value is inherited.\n\nInstead of using the obsolete `align` attribute, you should instead use the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property to establish `left`, `center`, `right`, or `justify` alignment for the row's cells. To apply character-based alignment, set the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property to the alignment character (such as `\".\"` or `\",\"`).",
+					"status": "obsolete",
+					"replacement": "Use the CSS `text-align`, `vertical-align` or `float` properties."
 				}
 			],
 			"references": [
@@ -2303,6 +3006,16 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/tr"
 				}
+			],
+			"permittedChildren": [
+				"td",
+				"th"
+			],
+			"permittedParents": [
+				"table",
+				"thead",
+				"tbody",
+				"tfoot"
 			]
 		},
 		{
@@ -2323,19 +3036,27 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "abbr",
-					"description": "This attribute contains a short abbreviated description of the cell's content. Some user-agents, such as speech readers, may present this description before the content itself.\n\n**Note:** Do not use this attribute as it is obsolete in the latest standard. Alternatively, you can put the abbreviated description inside the cell and place the long content in the **title** attribute."
+					"description": "This attribute contains a short abbreviated description of the cell's content. Some user-agents, such as speech readers, may present this description before the content itself.\n\n**Note:** Do not use this attribute as it is obsolete in the latest standard. Alternatively, you can put the abbreviated description inside the cell and place the long content in the **title** attribute.",
+					"status": "obsolete",
+					"replacement": "Use the `abbr` attribute of a `th` element."
 				},
 				{
 					"name": "align",
-					"description": "This enumerated attribute specifies how the cell content's horizontal alignment will be handled. Possible values are:\n\n*   `left`: The content is aligned to the left of the cell.\n*   `center`: The content is centered in the cell.\n*   `right`: The content is aligned to the right of the cell.\n*   `justify` (with text only): The content is stretched out inside the cell so that it covers its entire width.\n*   `char` (with text only): The content is aligned to a character inside the `<th>` element with minimal offset. This character is defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-charoff) attributes Unimplemented (see [bug 2212](https://bugzilla.mozilla.org/show_bug.cgi?id=2212 \"character alignment not implemented (align=char, charoff=, text-align:<string>)\")).\n\nThe default value when this attribute is not specified is `left`.\n\n**Note:** Do not use this attribute as it is obsolete in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values, apply the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property to the element.\n*   To achieve the same effect as the `char` value, give the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property the same value you would use for the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-char). Unimplemented in CSS3."
+					"description": "This enumerated attribute specifies how the cell content's horizontal alignment will be handled. Possible values are:\n\n*   `left`: The content is aligned to the left of the cell.\n*   `center`: The content is centered in the cell.\n*   `right`: The content is aligned to the right of the cell.\n*   `justify` (with text only): The content is stretched out inside the cell so that it covers its entire width.\n*   `char` (with text only): The content is aligned to a character inside the `<th>` element with minimal offset. This character is defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-charoff) attributes Unimplemented (see [bug 2212](https://bugzilla.mozilla.org/show_bug.cgi?id=2212 \"character alignment not implemented (align=char, charoff=, text-align:<string>)\")).\n\nThe default value when this attribute is not specified is `left`.\n\n**Note:** Do not use this attribute as it is obsolete in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values, apply the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property to the element.\n*   To achieve the same effect as the `char` value, give the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property the same value you would use for the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td#attr-char). Unimplemented in CSS3.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `text-align`, `vertical-align` or `float` properties."
 				},
 				{
 					"name": "axis",
-					"description": "This attribute contains a list of space-separated strings. Each string is the `id` of a group of cells that this header applies to.\n\n**Note:** Do not use this attribute as it is obsolete in the latest standard."
+					"description": "This attribute contains a list of space-separated strings. Each string is the `id` of a group of cells that this header applies to.\n\n**Note:** Do not use this attribute as it is obsolete in the latest standard.",
+					"status": "obsolete",
+					"replacement": "Use the `scope` attribute of a `th` element."
 				},
 				{
 					"name": "bgcolor",
-					"description": "This attribute defines the background color of each cell in a column. It consists of a 6-digit hexadecimal code as defined in [sRGB](https://www.w3.org/Graphics/Color/sRGB) and is prefixed by '#'. This attribute may be used with one of sixteen predefined color strings:\n\n \n\n`black` = \"#000000\"\n\n \n\n`green` = \"#008000\"\n\n \n\n`silver` = \"#C0C0C0\"\n\n \n\n`lime` = \"#00FF00\"\n\n \n\n`gray` = \"#808080\"\n\n \n\n`olive` = \"#808000\"\n\n \n\n`white` = \"#FFFFFF\"\n\n \n\n`yellow` = \"#FFFF00\"\n\n \n\n`maroon` = \"#800000\"\n\n \n\n`navy` = \"#000080\"\n\n \n\n`red` = \"#FF0000\"\n\n \n\n`blue` = \"#0000FF\"\n\n \n\n`purple` = \"#800080\"\n\n \n\n`teal` = \"#008080\"\n\n \n\n`fuchsia` = \"#FF00FF\"\n\n \n\n`aqua` = \"#00FFFF\"\n\n**Note:** Do not use this attribute, as it is non-standard and only implemented in some versions of Microsoft Internet Explorer: The [`<td>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td \"The HTML <td> element defines a cell of a table that contains data. It participates in the table model.\") element should be styled using [CSS](https://developer.mozilla.org/en-US/docs/CSS). To create a similar effect use the [`background-color`](https://developer.mozilla.org/en-US/docs/Web/CSS/background-color \"The background-color CSS property sets the background color of an element.\") property in [CSS](https://developer.mozilla.org/en-US/docs/CSS) instead."
+					"description": "This attribute defines the background color of each cell in a column. It consists of a 6-digit hexadecimal code as defined in [sRGB](https://www.w3.org/Graphics/Color/sRGB) and is prefixed by '#'. This attribute may be used with one of sixteen predefined color strings:\n\n \n\n`black` = \"#000000\"\n\n \n\n`green` = \"#008000\"\n\n \n\n`silver` = \"#C0C0C0\"\n\n \n\n`lime` = \"#00FF00\"\n\n \n\n`gray` = \"#808080\"\n\n \n\n`olive` = \"#808000\"\n\n \n\n`white` = \"#FFFFFF\"\n\n \n\n`yellow` = \"#FFFF00\"\n\n \n\n`maroon` = \"#800000\"\n\n \n\n`navy` = \"#000080\"\n\n \n\n`red` = \"#FF0000\"\n\n \n\n`blue` = \"#0000FF\"\n\n \n\n`purple` = \"#800080\"\n\n \n\n`teal` = \"#008080\"\n\n \n\n`fuchsia` = \"#FF00FF\"\n\n \n\n`aqua` = \"#00FFFF\"\n\n**Note:** Do not use this attribute, as it is non-standard and only implemented in some versions of Microsoft Internet Explorer: The [`<td>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/td \"The HTML <td> element defines a cell of a table that contains data. It participates in the table model.\") element should be styled using [CSS](https://developer.mozilla.org/en-US/docs/CSS). To create a similar effect use the [`background-color`](https://developer.mozilla.org/en-US/docs/Web/CSS/background-color \"The background-color CSS property sets the background color of an element.\") property in [CSS](https://developer.mozilla.org/en-US/docs/CSS) instead.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `background-color` property."
 				}
 			],
 			"references": [
@@ -2343,6 +3064,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/td"
 				}
+			],
+			"permittedChildren": [
+				"flow"
+			],
+			"permittedParents": [
+				"tr"
 			]
 		},
 		{
@@ -2377,15 +3104,21 @@ export const htmlData : HTMLDataV1 = {
 				},
 				{
 					"name": "align",
-					"description": "This enumerated attribute specifies how the cell content's horizontal alignment will be handled. Possible values are:\n\n*   `left`: The content is aligned to the left of the cell.\n*   `center`: The content is centered in the cell.\n*   `right`: The content is aligned to the right of the cell.\n*   `justify` (with text only): The content is stretched out inside the cell so that it covers its entire width.\n*   `char` (with text only): The content is aligned to a character inside the `<th>` element with minimal offset. This character is defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/th#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/th#attr-charoff) attributes.\n\nThe default value when this attribute is not specified is `left`.\n\n**Note:** Do not use this attribute as it is obsolete in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values, apply the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property to the element.\n*   To achieve the same effect as the `char` value, give the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property the same value you would use for the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/th#attr-char). Unimplemented in CSS3."
+					"description": "This enumerated attribute specifies how the cell content's horizontal alignment will be handled. Possible values are:\n\n*   `left`: The content is aligned to the left of the cell.\n*   `center`: The content is centered in the cell.\n*   `right`: The content is aligned to the right of the cell.\n*   `justify` (with text only): The content is stretched out inside the cell so that it covers its entire width.\n*   `char` (with text only): The content is aligned to a character inside the `<th>` element with minimal offset. This character is defined by the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/th#attr-char) and [`charoff`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/th#attr-charoff) attributes.\n\nThe default value when this attribute is not specified is `left`.\n\n**Note:** Do not use this attribute as it is obsolete in the latest standard.\n\n*   To achieve the same effect as the `left`, `center`, `right` or `justify` values, apply the CSS [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property to the element.\n*   To achieve the same effect as the `char` value, give the [`text-align`](https://developer.mozilla.org/en-US/docs/Web/CSS/text-align \"The text-align CSS property sets the horizontal alignment of an inline or table-cell box. This means it works like vertical-align but in the horizontal direction.\") property the same value you would use for the [`char`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/th#attr-char). Unimplemented in CSS3.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `text-align`, `vertical-align` or `float` properties."
 				},
 				{
 					"name": "axis",
-					"description": "This attribute contains a list of space-separated strings. Each string is the `id` of a group of cells that this header applies to.\n\n**Note:** Do not use this attribute as it is obsolete in the latest standard: use the [`scope`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/th#attr-scope) attribute instead."
+					"description": "This attribute contains a list of space-separated strings. Each string is the `id` of a group of cells that this header applies to.\n\n**Note:** Do not use this attribute as it is obsolete in the latest standard: use the [`scope`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/th#attr-scope) attribute instead.",
+					"status": "obsolete",
+					"replacement": "Use the `scope` attribute of a `th` element."
 				},
 				{
 					"name": "bgcolor",
-					"description": "This attribute defines the background color of each cell in a column. It consists of a 6-digit hexadecimal code as defined in [sRGB](https://www.w3.org/Graphics/Color/sRGB) and is prefixed by '#'. This attribute may be used with one of sixteen predefined color strings:\n\n \n\n`black` = \"#000000\"\n\n \n\n`green` = \"#008000\"\n\n \n\n`silver` = \"#C0C0C0\"\n\n \n\n`lime` = \"#00FF00\"\n\n \n\n`gray` = \"#808080\"\n\n \n\n`olive` = \"#808000\"\n\n \n\n`white` = \"#FFFFFF\"\n\n \n\n`yellow` = \"#FFFF00\"\n\n \n\n`maroon` = \"#800000\"\n\n \n\n`navy` = \"#000080\"\n\n \n\n`red` = \"#FF0000\"\n\n \n\n`blue` = \"#0000FF\"\n\n \n\n`purple` = \"#800080\"\n\n \n\n`teal` = \"#008080\"\n\n \n\n`fuchsia` = \"#FF00FF\"\n\n \n\n`aqua` = \"#00FFFF\"\n\n**Note:** Do not use this attribute, as it is non-standard and only implemented in some versions of Microsoft Internet Explorer: The [`<th>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/th \"The HTML <th> element defines a cell as header of a group of table cells. The exact nature of this group is defined by the scope and headers attributes.\") element should be styled using [CSS](https://developer.mozilla.org/en-US/docs/Web/CSS). To create a similar effect use the [`background-color`](https://developer.mozilla.org/en-US/docs/Web/CSS/background-color \"The background-color CSS property sets the background color of an element.\") property in [CSS](https://developer.mozilla.org/en-US/docs/Web/CSS) instead."
+					"description": "This attribute defines the background color of each cell in a column. It consists of a 6-digit hexadecimal code as defined in [sRGB](https://www.w3.org/Graphics/Color/sRGB) and is prefixed by '#'. This attribute may be used with one of sixteen predefined color strings:\n\n \n\n`black` = \"#000000\"\n\n \n\n`green` = \"#008000\"\n\n \n\n`silver` = \"#C0C0C0\"\n\n \n\n`lime` = \"#00FF00\"\n\n \n\n`gray` = \"#808080\"\n\n \n\n`olive` = \"#808000\"\n\n \n\n`white` = \"#FFFFFF\"\n\n \n\n`yellow` = \"#FFFF00\"\n\n \n\n`maroon` = \"#800000\"\n\n \n\n`navy` = \"#000080\"\n\n \n\n`red` = \"#FF0000\"\n\n \n\n`blue` = \"#0000FF\"\n\n \n\n`purple` = \"#800080\"\n\n \n\n`teal` = \"#008080\"\n\n \n\n`fuchsia` = \"#FF00FF\"\n\n \n\n`aqua` = \"#00FFFF\"\n\n**Note:** Do not use this attribute, as it is non-standard and only implemented in some versions of Microsoft Internet Explorer: The [`<th>`](https://developer.mozilla.org/en-US/docs/Web/HTML/Element/th \"The HTML <th> element defines a cell as header of a group of table cells. The exact nature of this group is defined by the scope and headers attributes.\") element should be styled using [CSS](https://developer.mozilla.org/en-US/docs/Web/CSS). To create a similar effect use the [`background-color`](https://developer.mozilla.org/en-US/docs/Web/CSS/background-color \"The background-color CSS property sets the background color of an element.\") property in [CSS](https://developer.mozilla.org/en-US/docs/Web/CSS) instead.",
+					"status": "obsolete",
+					"replacement": "Use the CSS `background-color` property."
 				}
 			],
 			"references": [
@@ -2393,6 +3126,18 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/th"
 				}
+			],
+			"permittedChildren": [
+				"flow"
+			],
+			"permittedParents": [
+				"tr"
+			],
+			"prohibitedDescendants": [
+				"header",
+				"footer",
+				"sectioning",
+				"heading"
 			]
 		},
 		{
@@ -2476,6 +3221,15 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/form"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"flow"
+			],
+			"prohibitedDescendants": [
+				"form"
 			]
 		},
 		{
@@ -2505,6 +3259,17 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/label"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"interactive"
+			],
+			"permittedChildren": [
+				"phrasing"
+			],
+			"prohibitedDescendants": [
+				"label"
 			]
 		},
 		{
@@ -2628,6 +3393,11 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/input"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"interactive"
 			]
 		},
 		{
@@ -2730,6 +3500,17 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/button"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"interactive"
+			],
+			"permittedChildren": [
+				"phrasing"
+			],
+			"prohibitedDescendants": [
+				"interactive"
 			]
 		},
 		{
@@ -2806,6 +3587,16 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/select"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"interactive"
+			],
+			"permittedChildren": [
+				"option",
+				"optgroup",
+				"hr"
 			]
 		},
 		{
@@ -2820,6 +3611,14 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/datalist"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing",
+				"option"
 			]
 		},
 		{
@@ -2850,6 +3649,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/optgroup"
 				}
+			],
+			"permittedChildren": [
+				"option"
+			],
+			"permittedParents": [
+				"select"
 			]
 		},
 		{
@@ -2895,6 +3700,11 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/option"
 				}
+			],
+			"permittedParents": [
+				"select",
+				"datalist",
+				"optgroup"
 			]
 		},
 		{
@@ -3022,6 +3832,11 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/textarea"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"interactive"
 			]
 		},
 		{
@@ -3058,6 +3873,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/output"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
 			]
 		},
 		{
@@ -3087,6 +3909,16 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/progress"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
+			],
+			"prohibitedDescendants": [
+				"progress"
 			]
 		},
 		{
@@ -3148,6 +3980,16 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/meter"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing"
+			],
+			"permittedChildren": [
+				"phrasing"
+			],
+			"prohibitedDescendants": [
+				"meter"
 			]
 		},
 		{
@@ -3185,6 +4027,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/fieldset"
 				}
+			],
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"legend",
+				"flow"
 			]
 		},
 		{
@@ -3199,6 +4048,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/legend"
 				}
+			],
+			"permittedChildren": [
+				"phrasing",
+				"heading"
+			],
+			"permittedParents": [
+				"fieldset"
 			]
 		},
 		{
@@ -3222,6 +4078,14 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/details"
 				}
+			],
+			"categories": [
+				"flow",
+				"interactive"
+			],
+			"permittedChildren": [
+				"summary",
+				"flow"
 			]
 		},
 		{
@@ -3236,6 +4100,13 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/summary"
 				}
+			],
+			"permittedChildren": [
+				"phrasing",
+				"heading"
+			],
+			"permittedParents": [
+				"details"
 			]
 		},
 		{
@@ -3255,6 +4126,24 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/dialog"
 				}
+			],
+			"browsers": [
+				"E79",
+				"FF98",
+				"S15.4",
+				"C37",
+				"O24"
+			],
+			"baseline": {
+				"baseline": "high",
+				"baseline_low_date": "2022-03-14",
+				"baseline_high_date": "2024-09-14"
+			},
+			"categories": [
+				"flow"
+			],
+			"permittedChildren": [
+				"flow"
 			]
 		},
 		{
@@ -3279,7 +4168,9 @@ export const htmlData : HTMLDataV1 = {
 					}
 				},
 				{
-					"name": "charset"
+					"name": "charset",
+					"status": "obsolete",
+					"replacement": "Use an HTTP `Content-Type` header for the linked resource."
 				},
 				{
 					"name": "async",
@@ -3334,6 +4225,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/script"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"metadata",
+				"script-supporting"
 			]
 		},
 		{
@@ -3348,6 +4245,11 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/noscript"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"metadata"
 			]
 		},
 		{
@@ -3362,6 +4264,12 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/template"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"metadata",
+				"script-supporting"
 			]
 		},
 		{
@@ -3395,6 +4303,316 @@ export const htmlData : HTMLDataV1 = {
 					"name": "MDN Reference",
 					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/canvas"
 				}
+			],
+			"categories": [
+				"flow",
+				"phrasing",
+				"embedded"
+			],
+			"permittedChildren": [
+				"transparent"
+			]
+		},
+		{
+			"name": "acronym",
+			"description": {
+				"kind": "markdown",
+				"value": "The acronym element marked an abbreviation or an acronym."
+			},
+			"status": "obsolete",
+			"replacement": "Use the `abbr` element.",
+			"attributes": [],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/acronym"
+				}
+			]
+		},
+		{
+			"name": "applet",
+			"description": {
+				"kind": "markdown",
+				"value": "The applet element embedded a Java applet."
+			},
+			"status": "obsolete",
+			"replacement": "Use the `object` element.",
+			"attributes": [
+				{
+					"name": "code"
+				},
+				{
+					"name": "codebase"
+				},
+				{
+					"name": "archive"
+				},
+				{
+					"name": "width"
+				},
+				{
+					"name": "height"
+				}
+			],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/applet"
+				}
+			]
+		},
+		{
+			"name": "basefont",
+			"description": {
+				"kind": "markdown",
+				"value": "The basefont element set the default font of the document."
+			},
+			"status": "obsolete",
+			"replacement": "Use the CSS `font` and `color` properties.",
+			"attributes": [
+				{
+					"name": "color"
+				},
+				{
+					"name": "face"
+				},
+				{
+					"name": "size"
+				}
+			],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/basefont"
+				}
+			]
+		},
+		{
+			"name": "big",
+			"description": {
+				"kind": "markdown",
+				"value": "The big element rendered its text one font size bigger."
+			},
+			"status": "obsolete",
+			"replacement": "Use the CSS `font-size` property.",
+			"attributes": [],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/big"
+				}
+			]
+		},
+		{
+			"name": "blink",
+			"description": {
+				"kind": "markdown",
+				"value": "The blink element made its text blink."
+			},
+			"status": "obsolete",
+			"replacement": "Use CSS animations.",
+			"attributes": [],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/blink"
+				}
+			]
+		},
+		{
+			"name": "center",
+			"description": {
+				"kind": "markdown",
+				"value": "The center element centered its content horizontally."
+			},
+			"status": "obsolete",
+			"replacement": "Use the CSS `text-align` or `margin` properties.",
+			"attributes": [],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/center"
+				}
+			]
+		},
+		{
+			"name": "dir",
+			"description": {
+				"kind": "markdown",
+				"value": "The dir element represented a list of directory entries."
+			},
+			"status": "obsolete",
+			"replacement": "Use the `ul` element.",
+			"attributes": [],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/dir"
+				}
+			]
+		},
+		{
+			"name": "font",
+			"description": {
+				"kind": "markdown",
+				"value": "The font element set the size, the color and the typeface of its text."
+			},
+			"status": "obsolete",
+			"replacement": "Use the CSS `font` and `color` properties.",
+			"attributes": [
+				{
+					"name": "color"
+				},
+				{
+					"name": "face"
+				},
+				{
+					"name": "size"
+				}
+			],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/font"
+				}
+			]
+		},
+		{
+			"name": "frame",
+			"description": {
+				"kind": "markdown",
+				"value": "The frame element defined a region of a `frameset`."
+			},
+			"status": "obsolete",
+			"replacement": "Use the `iframe` element.",
+			"attributes": [
+				{
+					"name": "src"
+				},
+				{
+					"name": "name"
+				},
+				{
+					"name": "noresize"
+				},
+				{
+					"name": "scrolling"
+				},
+				{
+					"name": "frameborder"
+				}
+			],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/frame"
+				}
+			]
+		},
+		{
+			"name": "frameset",
+			"description": {
+				"kind": "markdown",
+				"value": "The frameset element divided the window into `frame` elements."
+			},
+			"status": "obsolete",
+			"replacement": "Use the `iframe` element or CSS layout.",
+			"attributes": [
+				{
+					"name": "cols"
+				},
+				{
+					"name": "rows"
+				}
+			],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/frameset"
+				}
+			]
+		},
+		{
+			"name": "marquee",
+			"description": {
+				"kind": "markdown",
+				"value": "The marquee element scrolled its content."
+			},
+			"status": "obsolete",
+			"replacement": "Use CSS animations.",
+			"attributes": [
+				{
+					"name": "behavior"
+				},
+				{
+					"name": "bgcolor"
+				},
+				{
+					"name": "direction"
+				},
+				{
+					"name": "loop"
+				},
+				{
+					"name": "scrollamount"
+				},
+				{
+					"name": "scrolldelay"
+				}
+			],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/marquee"
+				}
+			]
+		},
+		{
+			"name": "noframes",
+			"description": {
+				"kind": "markdown",
+				"value": "The noframes element held the content for browsers without support for frames."
+			},
+			"status": "obsolete",
+			"replacement": "Remove the element.",
+			"attributes": [],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/noframes"
+				}
+			]
+		},
+		{
+			"name": "strike",
+			"description": {
+				"kind": "markdown",
+				"value": "The strike element rendered its text with a line through it."
+			},
+			"status": "obsolete",
+			"replacement": "Use the `s` or `del` element.",
+			"attributes": [],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/strike"
+				}
+			]
+		},
+		{
+			"name": "tt",
+			"description": {
+				"kind": "markdown",
+				"value": "The tt element rendered its text in a monospace font."
+			},
+			"status": "obsolete",
+			"replacement": "Use the `code`, `kbd` or `samp` element, or the CSS `font-family` property.",
+			"attributes": [],
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Element/tt"
+				}
 			]
 		}
 	],
@@ -4821,6 +6039,63 @@ export const htmlData : HTMLDataV1 = {
 				"kind": "markdown",
 				"value": "Indicates keyboard shortcuts that an author has implemented to activate or give focus to an element."
 			}
+		},
+		{
+			"name": "popover",
+			"description": {
+				"kind": "markdown",
+				"value": "Turns the element into a popover that is hidden until it is shown by a button with a `popovertarget` attribute or by `showPopover()`. `auto` popovers close when the user clicks outside of them or opens another popover, `manual` popovers only close explicitly."
+			},
+			"values": [
+				{
+					"name": "auto"
+				},
+				{
+					"name": "manual"
+				}
+			],
+			"browsers": [
+				"E114",
+				"FF125",
+				"S17",
+				"C114",
+				"O100"
+			],
+			"baseline": {
+				"baseline": "low",
+				"baseline_low_date": "2024-04-16"
+			},
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Global_attributes/popover"
+				}
+			]
+		},
+		{
+			"name": "inert",
+			"description": {
+				"kind": "markdown",
+				"value": "Makes the element and its content inert: they cannot be focused or clicked and are hidden from assistive technologies."
+			},
+			"valueSet": "v",
+			"browsers": [
+				"E102",
+				"FF112",
+				"S15.5",
+				"C102",
+				"O88"
+			],
+			"baseline": {
+				"baseline": "low",
+				"baseline_low_date": "2023-04-11"
+			},
+			"references": [
+				{
+					"name": "MDN Reference",
+					"url": "https://developer.mozilla.org/docs/Web/HTML/Global_attributes/inert"
+				}
+			]
 		}
 	],
 	"valueSets": [
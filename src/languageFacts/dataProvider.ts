@@ -5,6 +5,10 @@
 
 import { ITagData, IAttributeData, IValueData, IHTMLDataProvider, HTMLDataV1, MarkupContent } from '../htmlLanguageTypes';
 import { normalizeMarkupContent } from '../utils/markup';
+import { getBrowserLabel, getBaselineLabel } from './browsers';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
 
 export class HTMLDataProvider implements IHTMLDataProvider {
 	isApplicable() {
@@ -94,9 +98,25 @@ export class HTMLDataProvider implements IHTMLDataProvider {
 	}
 }
 
+/**
+ * Whether the element, attribute or value is marked as deprecated or obsolete.
+ */
+export function isDeprecated(item: ITagData | IAttributeData | IValueData): boolean {
+	return item.status === 'deprecated' || item.status === 'obsolete';
+}
+
+function getStatusLabel(item: ITagData | IAttributeData | IValueData): string | undefined {
+	switch (item.status) {
+		case 'experimental': return localize('status.experimental', "Experimental");
+		case 'deprecated': return localize('status.deprecated', "Deprecated");
+		case 'obsolete': return localize('status.obsolete', "Obsolete");
+	}
+	return undefined;
+}
+
 /**
  * Generate Documentation used in hover/complete
- * From `documentation` and `references`
+ * From `status`, `documentation`, `baseline`, `browsers` and `references`
  */
 export function generateDocumentation(item: ITagData | IAttributeData | IValueData, settings: { documentation?: boolean; references?: boolean; } = {}, doesSupportMarkdown: boolean): MarkupContent | undefined {
 	const result: MarkupContent = {
@@ -104,13 +124,39 @@ export function generateDocumentation(item: ITagData | IAttributeData | IValueDa
 		value: ''
 	};
 
+	const statusLabel = getStatusLabel(item);
+	if (statusLabel) {
+		result.value += doesSupportMarkdown ? `**${statusLabel}.**` : `${statusLabel}.`;
+		if (item.replacement) {
+			result.value += ' ' + item.replacement;
+		}
+	}
+
 	if (item.description && settings.documentation !== false) {
 		const normalizedDescription = normalizeMarkupContent(item.description);
 		if (normalizedDescription) {
+			if (result.value.length) {
+				result.value += `\n\n`;
+			}
 			result.value += normalizedDescription.value;
 		}
 	}
 
+	if (settings.documentation !== false) {
+		if (item.baseline) {
+			if (result.value.length) {
+				result.value += `\n\n`;
+			}
+			result.value += getBaselineLabel(item.baseline);
+		}
+		if (item.browsers && item.browsers.length > 0) {
+			if (result.value.length) {
+				result.value += `\n\n`;
+			}
+			result.value += localize('browsers', "Browser support: {0}", getBrowserLabel(item.browsers));
+		}
+	}
+
 	if (item.references && item.references.length > 0 && settings.references !== false) {
 		if (result.value.length) {
 			result.value += `\n\n`;
@@ -10,4 +10,81 @@ export const VOID_ELEMENTS: string[] = ['area', 'base', 'br', 'col', 'embed', 'h
 
 export function isVoidElement(e: string): boolean {
 	return !!e && arrays.binarySearch(VOID_ELEMENTS, e.toLowerCase(), (s1: string, s2: string) => s1.localeCompare(s2)) >= 0;
-}
\ No newline at end of file
+}
+
+// Elements that the formatter keeps in the flow of the surrounding text
+export const INLINE_ELEMENTS: string[] = ['a', 'abbr', 'acronym', 'area', 'audio', 'b', 'bdi', 'bdo', 'big', 'br', 'button', 'canvas', 'cite', 'code', 'data', 'datalist', 'del',
+	'dfn', 'em', 'embed', 'i', 'iframe', 'img', 'input', 'ins', 'kbd', 'keygen', 'label', 'map', 'mark', 'math', 'meter', 'noscript', 'object', 'output', 'progress', 'q',
+	'ruby', 's', 'samp', 'select', 'small', 'span', 'strike', 'strong', 'sub', 'sup', 'svg', 'template', 'text', 'textarea', 'time', 'tt', 'u', 'var', 'video', 'wbr'];
+
+export function isInlineElement(e: string): boolean {
+	return !!e && arrays.binarySearch(INLINE_ELEMENTS, e.toLowerCase(), (s1: string, s2: string) => s1.localeCompare(s2)) >= 0;
+}
+
+// Elements whose end tag can be omitted, with the start tags that imply their end tag.
+// See https://html.spec.whatwg.org/multipage/syntax.html#optional-tags
+const IMPLIED_END_TAGS: { [tag: string]: string[] } = {
+	html: [],
+	head: ['body'],
+	body: [],
+	p: [
+		'address', 'article', 'aside', 'blockquote', 'dd', 'details', 'dialog', 'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'form',
+		'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr', 'li', 'main', 'menu', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+	],
+	li: ['li'],
+	dt: ['dt', 'dd'],
+	dd: ['dt', 'dd'],
+	rb: ['rb', 'rt', 'rtc', 'rp'],
+	rt: ['rb', 'rt', 'rtc', 'rp'],
+	rtc: ['rb', 'rtc', 'rp'],
+	rp: ['rb', 'rt', 'rtc', 'rp'],
+	optgroup: ['optgroup'],
+	option: ['option', 'optgroup'],
+	colgroup: ['colgroup', 'caption', 'thead', 'tbody', 'tfoot', 'tr'],
+	caption: ['colgroup', 'thead', 'tbody', 'tfoot', 'tr'],
+	thead: ['tbody', 'tfoot'],
+	tbody: ['tbody', 'tfoot'],
+	tfoot: [],
+	tr: ['tr', 'thead', 'tbody', 'tfoot'],
+	td: ['td', 'th', 'tr', 'thead', 'tbody', 'tfoot'],
+	th: ['td', 'th', 'tr', 'thead', 'tbody', 'tfoot']
+};
+
+// Elements that limit the search for an element whose end tag is implied by a start tag
+const IMPLIED_END_TAG_SCOPES: { [startTag: string]: string[] } = {
+	li: ['ul', 'ol', 'menu'],
+	dt: ['dl'],
+	dd: ['dl'],
+	option: ['select', 'datalist'],
+	optgroup: ['select', 'datalist'],
+	rb: ['ruby'],
+	rt: ['ruby'],
+	rtc: ['ruby'],
+	rp: ['ruby']
+};
+const DEFAULT_SCOPE = ['applet', 'button', 'caption', 'html', 'marquee', 'math', 'object', 'svg', 'table', 'td', 'template', 'th'];
+
+/**
+ * Whether the end tag of an element can be omitted when its parent element ends or when the document ends.
+ */
+export function isOptionalEndTagElement(e: string): boolean {
+	return !!e && IMPLIED_END_TAGS.hasOwnProperty(e.toLowerCase());
+}
+
+/**
+ * Whether the start tag `startTag` implies the end tag of the open element `e`.
+ */
+export function isImpliedEndTag(e: string, startTag: string): boolean {
+	const startTags = IMPLIED_END_TAGS.hasOwnProperty(e.toLowerCase()) && IMPLIED_END_TAGS[e.toLowerCase()];
+	return !!startTags && startTags.indexOf(startTag.toLowerCase()) !== -1;
+}
+
+/**
+ * Whether the open element `e` stops the search for elements whose end tag is implied by the start tag `startTag`.
+ */
+export function isImpliedEndTagScope(e: string, startTag: string): boolean {
+	e = e.toLowerCase();
+	startTag = startTag.toLowerCase();
+	const scope = IMPLIED_END_TAG_SCOPES.hasOwnProperty(startTag) && IMPLIED_END_TAG_SCOPES[startTag];
+	return DEFAULT_SCOPE.indexOf(e) !== -1 || !!scope && scope.indexOf(e) !== -1;
+}
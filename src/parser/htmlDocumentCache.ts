@@ -0,0 +1,114 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { parse, updateHTMLDocument, HTMLDocument } from './htmlParser';
+import { TextDocument, TextDocumentContentChangeEvent, HTMLDocument as IHTMLDocument } from '../htmlLanguageTypes';
+
+interface CacheEntry {
+	version: number;
+	languageId: string;
+	text: string;
+	htmlDocument: HTMLDocument;
+	derivedData: { [key: string]: any };
+	lastAccess: number;
+}
+
+/**
+ * Caches the parsed documents by document URI and version. The least recently used document is evicted once `maxEntries` is exceeded.
+ * Along with a parsed document, the cache keeps data that services compute from the same version of the document.
+ * The cached documents are shared with the callers: a document passed to `update` is reused for the new version and replaced in the cache.
+ */
+export class HTMLDocumentCache {
+
+	private entries: { [uri: string]: CacheEntry } = {};
+	private size = 0;
+	private accessCount = 0;
+
+	constructor(private maxEntries: number) {
+	}
+
+	public get(document: TextDocument): HTMLDocument {
+		return this.getEntry(document).htmlDocument;
+	}
+
+	public update(document: TextDocument, htmlDocument: IHTMLDocument, changes: TextDocumentContentChangeEvent[]): HTMLDocument {
+		const text = document.getText();
+		return this.set(document, text, updateHTMLDocument(htmlDocument, text, changes)).htmlDocument;
+	}
+
+	/**
+	 * Returns the data stored under `key` for the current version of the document. `compute` is called if there is none yet.
+	 */
+	public getDerivedData<T>(document: TextDocument, key: string, compute: () => T): T {
+		const derivedData = this.getEntry(document).derivedData;
+		if (!derivedData.hasOwnProperty(key)) {
+			derivedData[key] = compute();
+		}
+		return derivedData[key];
+	}
+
+	/**
+	 * Discards the derived data of all documents, to be called when the data it is computed from changes.
+	 */
+	public clearDerivedData() {
+		for (const uri in this.entries) {
+			this.entries[uri].derivedData = {};
+		}
+	}
+
+	public onDocumentRemoved(document: TextDocument) {
+		if (this.entries[document.uri]) {
+			delete this.entries[document.uri];
+			this.size--;
+		}
+	}
+
+	public dispose() {
+		this.entries = {};
+		this.size = 0;
+	}
+
+	private getEntry(document: TextDocument): CacheEntry {
+		const text = document.getText();
+		const entry = this.entries[document.uri];
+		// the text is compared as well, as hosts might reuse a version for different content
+		if (entry && entry.version === document.version && entry.languageId === document.languageId && entry.text === text) {
+			entry.lastAccess = this.accessCount++;
+			return entry;
+		}
+		return this.set(document, text, parse(text));
+	}
+
+	private set(document: TextDocument, text: string, htmlDocument: HTMLDocument): CacheEntry {
+		const entry: CacheEntry = { version: document.version, languageId: document.languageId, text, htmlDocument, derivedData: {}, lastAccess: this.accessCount++ };
+		if (this.maxEntries <= 0) {
+			return entry;
+		}
+		if (!this.entries[document.uri]) {
+			if (this.size === this.maxEntries) {
+				this.evictLeastRecentlyUsed();
+			}
+			this.size++;
+		}
+		this.entries[document.uri] = entry;
+		return entry;
+	}
+
+	private evictLeastRecentlyUsed() {
+		let oldestUri: string | undefined;
+		let oldestAccess = Number.MAX_VALUE;
+		for (const uri in this.entries) {
+			const entry = this.entries[uri];
+			if (entry.lastAccess < oldestAccess) {
+				oldestAccess = entry.lastAccess;
+				oldestUri = uri;
+			}
+		}
+		if (oldestUri !== undefined) {
+			delete this.entries[oldestUri];
+			this.size--;
+		}
+	}
+}
@@ -5,8 +5,8 @@
 
 import { createScanner } from './htmlScanner';
 import { findFirst } from '../utils/arrays';
-import { TokenType } from '../htmlLanguageTypes';
-import { isVoidElement } from '../languageFacts/fact';
+import { TokenType, ScannerState, NodeAttribute, TextDocument, TextDocumentContentChangeEvent, HTMLDocument as IHTMLDocument } from '../htmlLanguageTypes';
+import { isVoidElement, isOptionalEndTagElement, isImpliedEndTag, isImpliedEndTagScope } from '../languageFacts/fact';
 
 export class Node {
 	public tag: string | undefined;
@@ -15,8 +15,32 @@ export class Node {
 	public endTagStart: number | undefined;
 	public attributes: { [name: string]: string | null } | undefined;
 	public get attributeNames(): string[] { return this.attributes ? Object.keys(this.attributes) : []; }
+	private attributeList: NodeAttribute[] | undefined;
 	constructor(public start: number, public end: number, public children: Node[], public parent?: Node) {
 	}
+	public getAttributes(): NodeAttribute[] {
+		return this.attributeList || [];
+	}
+	public getAttribute(name: string): NodeAttribute | undefined {
+		if (this.attributeList) {
+			name = name.toLowerCase();
+			for (const attribute of this.attributeList) {
+				if (attribute.name.toLowerCase() === name) {
+					return attribute;
+				}
+			}
+		}
+		return undefined;
+	}
+	public addAttribute(attribute: NodeAttribute) {
+		if (this.getAttribute(attribute.name)) {
+			attribute.duplicate = true;
+		}
+		if (!this.attributeList) {
+			this.attributeList = [];
+		}
+		this.attributeList.push(attribute);
+	}
 	public isSameTag(tagInLowerCase: string | undefined) {
 		if (this.tag === undefined) {
 			return tagInLowerCase === undefined;
@@ -63,14 +87,42 @@ export interface HTMLDocument {
 	findNodeAt(offset: number): Node;
 }
 
-export function parse(text: string): HTMLDocument {
-	const scanner = createScanner(text, undefined, undefined, true);
+interface ParsedHTMLDocument extends HTMLDocument {
+	root: Node;
+	text: string;
+}
 
+export function parse(text: string): HTMLDocument {
 	const htmlDocument = new Node(0, text.length, [], void 0);
-	let curr = htmlDocument;
+	parseNodes(text, 0, htmlDocument);
+	return createHTMLDocument(htmlDocument, text);
+}
+
+function isParsedHTMLDocument(htmlDocument: IHTMLDocument): htmlDocument is ParsedHTMLDocument {
+	return 'root' in htmlDocument && 'text' in htmlDocument;
+}
+
+function createHTMLDocument(htmlDocument: Node, text: string): HTMLDocument {
+	const result: ParsedHTMLDocument = {
+		roots: htmlDocument.children,
+		findNodeBefore: htmlDocument.findNodeBefore.bind(htmlDocument),
+		findNodeAt: htmlDocument.findNodeAt.bind(htmlDocument),
+		root: htmlDocument,
+		text
+	};
+	return result;
+}
+
+/**
+ * Parses the nodes starting at `offset` (a position in content) as children of `curr`.
+ * `onStartTag` is called for each node once its tag name is known. If it returns true, parsing stops and the node is returned.
+ */
+function parseNodes(text: string, offset: number, curr: Node, onStartTag?: (node: Node) => boolean): Node | undefined {
+	const scanner = createScanner(text, offset, ScannerState.WithinContent, true);
 	let endTagStart: number = -1;
 	let endTagName: string | undefined = undefined;
 	let pendingAttribute: string | null = null;
+	let pendingNodeAttribute: NodeAttribute | null = null;
 	let token = scanner.scan();
 	while (token !== TokenType.EOS) {
 		switch (token) {
@@ -81,6 +133,10 @@ export function parse(text: string): HTMLDocument {
 				break;
 			case TokenType.StartTag:
 				curr.tag = scanner.getTokenText();
+				closeImpliedElements(curr, curr.tag);
+				if (onStartTag && onStartTag(curr)) {
+					return curr;
+				}
 				break;
 			case TokenType.StartTagClose:
 				if (curr.parent) {
@@ -121,7 +177,7 @@ export function parse(text: string): HTMLDocument {
 				if (node.parent) {
 					while (curr !== node) {
 						curr.end = endTagStart;
-						curr.closed = false;
+						curr.closed = !!curr.tag && isOptionalEndTagElement(curr.tag);
 						curr = curr.parent!;
 					}
 					curr.closed = true;
@@ -137,6 +193,8 @@ export function parse(text: string): HTMLDocument {
 					curr.attributes = attributes = {};
 				}
 				attributes[pendingAttribute] = null; // Support valueless attributes such as 'checked'
+				pendingNodeAttribute = { name: pendingAttribute, nameStart: scanner.getTokenOffset(), nameEnd: scanner.getTokenEnd(), value: null };
+				curr.addAttribute(pendingNodeAttribute);
 				break;
 			}
 			case TokenType.AttributeValue: {
@@ -146,6 +204,16 @@ export function parse(text: string): HTMLDocument {
 					attributes[pendingAttribute] = value;
 					pendingAttribute = null;
 				}
+				if (pendingNodeAttribute) {
+					pendingNodeAttribute.value = value;
+					pendingNodeAttribute.valueStart = scanner.getTokenOffset();
+					pendingNodeAttribute.valueEnd = scanner.getTokenEnd();
+					const quote = value[0];
+					if (quote === '"' || quote === '\'') {
+						pendingNodeAttribute.quote = quote;
+					}
+					pendingNodeAttribute = null;
+				}
 				break;
 			}
 		}
@@ -156,9 +224,185 @@ export function parse(text: string): HTMLDocument {
 		curr.closed = false;
 		curr = curr.parent;
 	}
-	return {
-		roots: htmlDocument.children,
-		findNodeBefore: htmlDocument.findNodeBefore.bind(htmlDocument),
-		findNodeAt: htmlDocument.findNodeAt.bind(htmlDocument)
+	return undefined;
+}
+
+/**
+ * Closes the open elements whose end tag is implied by the start tag of `child`, e.g. a `<li>` closes the previous `<li>`.
+ * `child` is moved up to become a sibling of the outermost closed element.
+ */
+function closeImpliedElements(child: Node, tag: string) {
+	let impliedEnd: Node | undefined;
+	for (let node = child.parent; node && node.parent; node = node.parent) {
+		if (node.tag) {
+			if (isImpliedEndTag(node.tag, tag)) {
+				impliedEnd = node;
+			} else if (isImpliedEndTagScope(node.tag, tag)) {
+				break;
+			}
+		}
+	}
+	if (impliedEnd) {
+		const newParent = impliedEnd.parent!;
+		let node = child.parent!;
+		node.children.pop();
+		while (node !== newParent) {
+			node.end = child.start;
+			node.closed = !!node.tag && isOptionalEndTagElement(node.tag);
+			node = node.parent!;
+		}
+		child.parent = newParent;
+		newParent.children.push(child);
+	}
+}
+
+/**
+ * Updates a document parsed by `parse` after the given content changes, reparsing only the nodes affected by the changes.
+ * `text` is the content after the changes. The nodes of `previous` are reused, `previous` must not be used afterwards.
+ */
+export function updateHTMLDocument(previous: IHTMLDocument, text: string, changes: TextDocumentContentChangeEvent[]): HTMLDocument {
+	if (!isParsedHTMLDocument(previous)) {
+		return parse(text);
+	}
+	const { root, text: previousText } = previous;
+
+	// compute the modified region: the length of the unchanged prefix and suffix
+	let prefixLength = previousText.length;
+	let suffixLength = previousText.length;
+	const document = TextDocument.create('', 'html', 0, previousText);
+	for (const change of changes) {
+		if (!('range' in change)) {
+			return parse(text);
+		}
+		const length = document.getText().length;
+		const start = document.offsetAt(change.range.start);
+		const end = document.offsetAt(change.range.end);
+		prefixLength = Math.min(prefixLength, start);
+		suffixLength = Math.min(suffixLength, length - end);
+		TextDocument.update(document, [change], 0);
+	}
+	if (document.getText() !== text) {
+		return parse(text); // the changes don't match the new content
+	}
+	if (previousText === text) {
+		return createHTMLDocument(root, text);
+	}
+	const delta = text.length - previousText.length;
+	const editStart = prefixLength;
+	const editEnd = text.length - suffixLength; // end of the modified region in the new content
+
+	// restart at the last node whose tag name lies before the modified region
+	let restartNode: Node | undefined;
+	let container = root;
+	while (container.children.length) {
+		const idx = findFirst(container.children, c => c.start + '<'.length + (c.tag ? c.tag.length : 0) >= editStart) - 1;
+		if (idx < 0) {
+			break;
+		}
+		restartNode = container = container.children[idx];
+	}
+	if (!restartNode) {
+		return parse(text);
+	}
+
+	// detach the restart node and everything following it, remembering the previous state of its ancestors
+	const ancestors: Node[] = [];
+	const previousState: { end: number; endTagStart: number | undefined; closed: boolean; children: Node[] }[] = [];
+	for (let child = restartNode, parent = child.parent; parent; child = parent, parent = parent.parent) {
+		ancestors.push(parent);
+		previousState.push({ end: parent.end, endTagStart: parent.endTagStart, closed: parent.closed, children: parent.children.slice() });
+		parent.children.length = parent.children.indexOf(child) + (child === restartNode ? 0 : 1);
+		parent.end = text.length;
+		parent.endTagStart = undefined;
+		parent.closed = false;
+	}
+
+	const getPreviousState = (node: Node) => {
+		const idx = ancestors.indexOf(node);
+		return idx !== -1 ? previousState[idx] : node;
+	};
+
+	const findPreviousNode = (offset: number): Node | undefined => {
+		let node = root;
+		while (true) {
+			const children = getPreviousState(node).children;
+			const idx = findFirst(children, c => c.start > offset) - 1;
+			if (idx < 0) {
+				return undefined;
+			}
+			node = children[idx];
+			if (node.start === offset) {
+				return node;
+			}
+		}
 	};
-}
\ No newline at end of file
+
+	// nodes after the modified region can be reused if they start with the same open elements
+	const isSynchronized = (node: Node) => {
+		if (node.start < editEnd) {
+			return false;
+		}
+		let previousNode = findPreviousNode(node.start - delta);
+		let curr: Node | undefined = node;
+		while (curr && previousNode) {
+			if ((curr.tag && curr.tag.toLowerCase()) !== (previousNode.tag && previousNode.tag.toLowerCase())) {
+				return false;
+			}
+			curr = curr.parent;
+			previousNode = previousNode.parent;
+		}
+		return !curr && !previousNode;
+	};
+
+	const node = parseNodes(text, restartNode.start, restartNode.parent!, isSynchronized);
+	if (node) {
+		// replace the reparsed node by the previous node and reattach the nodes following it in the previous document
+		let previousNode = findPreviousNode(node.start - delta)!;
+		let curr = node;
+		const parent = curr.parent!;
+		parent.children[parent.children.length - 1] = previousNode;
+		let previousParent = previousNode.parent;
+		previousNode.parent = parent;
+		shiftNode(previousNode, delta);
+		while (curr.parent && previousParent) {
+			const state = getPreviousState(previousParent);
+			const newParent = curr.parent;
+			newParent.end = state.end + delta;
+			newParent.endTagStart = state.endTagStart !== undefined ? state.endTagStart + delta : undefined;
+			newParent.closed = state.closed;
+			for (let i = state.children.indexOf(previousNode) + 1; i < state.children.length; i++) {
+				const child = state.children[i];
+				child.parent = newParent;
+				shiftNode(child, delta);
+				newParent.children.push(child);
+			}
+			previousNode = previousParent;
+			previousParent = previousParent.parent;
+			curr = newParent;
+		}
+	}
+	root.end = text.length;
+	return createHTMLDocument(root, text);
+}
+
+function shiftNode(node: Node, delta: number) {
+	node.start += delta;
+	node.end += delta;
+	if (node.startTagEnd !== undefined) {
+		node.startTagEnd += delta;
+	}
+	if (node.endTagStart !== undefined) {
+		node.endTagStart += delta;
+	}
+	for (const attribute of node.getAttributes()) {
+		attribute.nameStart += delta;
+		attribute.nameEnd += delta;
+		if (attribute.valueStart !== undefined && attribute.valueEnd !== undefined) {
+			attribute.valueStart += delta;
+			attribute.valueEnd += delta;
+		}
+	}
+	for (const child of node.children) {
+		shiftNode(child, delta);
+	}
+}
@@ -0,0 +1,432 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { HTMLDocument, Node } from '../parser/htmlParser';
+import {
+	TextDocument, Range, CodeAction, CodeActionContext, CodeActionKind, Diagnostic, TextEdit, NodeAttribute, HTMLFormatConfiguration, TokenType, ScannerState
+} from '../htmlLanguageTypes';
+import { createScanner } from '../parser/htmlScanner';
+import { HTMLDataManager } from '../languageFacts/dataManager';
+import { DiagnosticCode } from './htmlValidation';
+import { format } from './htmlFormatter';
+import { startsWith, commonPrefixLength, trimQuotes } from '../utils/strings';
+import { ARIA_ROLES } from '../languageFacts/aria';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+const maxSuggestions = 3;
+
+const wrapTag = 'div';
+
+export class HTMLCodeActions {
+
+	constructor(private dataManager: HTMLDataManager) {
+	}
+
+	doCodeActions(document: TextDocument, range: Range, context: CodeActionContext, htmlDocument: HTMLDocument, options: HTMLFormatConfiguration = {}): CodeAction[] {
+		const result: CodeAction[] = [];
+		const text = document.getText();
+
+		const addAction = (title: string, edits: TextEdit[], diagnostic?: Diagnostic) => {
+			const action = CodeAction.create(title, { changes: { [document.uri]: edits } }, CodeActionKind.QuickFix);
+			if (diagnostic) {
+				action.diagnostics = [diagnostic];
+			}
+			result.push(action);
+		};
+		const createRange = (start: number, end: number) => Range.create(document.positionAt(start), document.positionAt(end));
+		const getRenameTagEdits = (node: Node, name: string) => {
+			const tagNameStart = node.start + '<'.length;
+			const edits = [TextEdit.replace(createRange(tagNameStart, tagNameStart + node.tag!.length), name)];
+			if (node.endTagStart !== undefined) {
+				const endTagNameStart = node.endTagStart + '</'.length;
+				edits.push(TextEdit.replace(createRange(endTagNameStart, endTagNameStart + node.tag!.length), name));
+			}
+			return edits;
+		};
+
+		for (const diagnostic of context.diagnostics) {
+			const start = document.offsetAt(diagnostic.range.start);
+			const end = document.offsetAt(diagnostic.range.end);
+			switch (diagnostic.code) {
+				case DiagnosticCode.UnclosedElement: {
+					const node = findElement(htmlDocument, start, end);
+					if (node && node.tag) {
+						addAction(localize('quickfix.insertEndTag', "Insert end tag '</{0}>'", node.tag), [TextEdit.insert(document.positionAt(node.end), `</${node.tag}>`)], diagnostic);
+					}
+					break;
+				}
+				case DiagnosticCode.UnexpectedEndTag:
+					addAction(localize('quickfix.removeEndTag', "Remove end tag '{0}'", text.substring(start, end)), [TextEdit.del(diagnostic.range)], diagnostic);
+					break;
+				case DiagnosticCode.DuplicateAttribute: {
+					const attribute = findAttribute(htmlDocument, start, end);
+					if (attribute) {
+						const attributeEnd = attribute.valueEnd !== undefined ? attribute.valueEnd : attribute.nameEnd;
+						addAction(localize('quickfix.removeDuplicateAttribute', "Remove duplicate attribute '{0}'", attribute.name), [TextEdit.del(createRange(skipWhitespaceBackward(text, attribute.nameStart), attributeEnd))], diagnostic);
+					}
+					break;
+				}
+				case DiagnosticCode.UnknownElement: {
+					const node = findElement(htmlDocument, start, end);
+					if (node && node.tag) {
+						for (const name of this.getSimilarTags(document.languageId, node.tag)) {
+							addAction(localize('quickfix.changeTag', "Change to '{0}'", name), getRenameTagEdits(node, name), diagnostic);
+						}
+					}
+					break;
+				}
+				case DiagnosticCode.UnknownAttribute: {
+					const node = htmlDocument.findNodeAt(start);
+					const attribute = findAttribute(htmlDocument, start, end);
+					if (node.tag && attribute) {
+						for (const name of this.getSimilarAttributes(document.languageId, node.tag, attribute.name)) {
+							addAction(localize('quickfix.changeAttribute', "Change to '{0}'", name), [TextEdit.replace(diagnostic.range, name)], diagnostic);
+						}
+					}
+					break;
+				}
+				// a missing `lang` has no quick fix: the language of the document can't be guessed
+				case DiagnosticCode.MissingAlt: {
+					const node = findElement(htmlDocument, start, end);
+					if (node) {
+						addAction(localize('quickfix.addAttribute', "Add '{0}'", 'alt=""'), [TextEdit.insert(diagnostic.range.end, ' alt=""')], diagnostic);
+					}
+					break;
+				}
+				case DiagnosticCode.PositiveTabindex: {
+					const value = text.substring(start, end);
+					const quote = value[0] === '"' || value[0] === '\'' ? value[0] : '"';
+					addAction(localize('quickfix.resetTabindex', "Change 'tabindex' to 0"), [TextEdit.replace(diagnostic.range, quote + '0' + quote)], diagnostic);
+					break;
+				}
+				case DiagnosticCode.InvalidRole:
+					for (const name of getSimilarNames(text.substring(start, end), ARIA_ROLES)) {
+						addAction(localize('quickfix.changeRole', "Change to '{0}'", name), [TextEdit.replace(diagnostic.range, name)], diagnostic);
+					}
+					break;
+				case DiagnosticCode.InvalidAriaAttribute: {
+					const attribute = findAttribute(htmlDocument, start, end);
+					if (attribute) {
+						const attributeEnd = attribute.valueEnd !== undefined ? attribute.valueEnd : attribute.nameEnd;
+						addAction(localize('quickfix.removeAttribute', "Remove attribute '{0}'", attribute.name), [TextEdit.del(createRange(skipWhitespaceBackward(text, attribute.nameStart), attributeEnd))], diagnostic);
+					}
+					break;
+				}
+				case DiagnosticCode.SkippedHeadingLevel: {
+					const node = findElement(htmlDocument, start, end);
+					const previousLevel = node && getPreviousHeadingLevel(htmlDocument, node);
+					if (node && previousLevel) {
+						const name = 'h' + (previousLevel + 1);
+						addAction(localize('quickfix.changeHeading', "Change to '{0}'", name), getRenameTagEdits(node, name), diagnostic);
+					}
+					break;
+				}
+			}
+		}
+
+		// unquoted attribute values in the range
+		const rangeStart = document.offsetAt(range.start);
+		const rangeEnd = document.offsetAt(range.end);
+		const node = htmlDocument.findNodeAt(rangeStart);
+		if (node.tag && node.startTagEnd !== undefined && rangeStart < node.startTagEnd) {
+			for (const attribute of node.getAttributes()) {
+				if (attribute.value && !attribute.quote && attribute.valueStart !== undefined && attribute.valueEnd !== undefined && attribute.nameStart <= rangeEnd && rangeStart <= attribute.valueEnd) {
+					addAction(localize('quickfix.addQuotes', "Add quotes around the value of '{0}'", attribute.name), [TextEdit.replace(createRange(attribute.valueStart, attribute.valueEnd), `"${attribute.value}"`)]);
+				}
+			}
+		}
+
+		result.push(...getRefactorings(document, range, htmlDocument, options));
+
+		if (context.only) {
+			const only = context.only;
+			return result.filter(action => only.some(kind => action.kind === kind || startsWith(action.kind!, kind + '.')));
+		}
+		return result;
+	}
+
+	private getSimilarTags(languageId: string, tag: string): string[] {
+		const names: string[] = [];
+		this.dataManager.getDataProviders().filter(p => p.isApplicable(languageId)).forEach(provider => {
+			provider.provideTags().forEach(t => names.push(t.name));
+		});
+		return getSimilarNames(tag, names);
+	}
+
+	private getSimilarAttributes(languageId: string, tag: string, attribute: string): string[] {
+		const names: string[] = [];
+		this.dataManager.getDataProviders().filter(p => p.isApplicable(languageId)).forEach(provider => {
+			provider.provideAttributes(tag.toLowerCase()).forEach(a => names.push(a.name));
+		});
+		return getSimilarNames(attribute, names);
+	}
+}
+
+function getRefactorings(document: TextDocument, range: Range, htmlDocument: HTMLDocument, options: HTMLFormatConfiguration): CodeAction[] {
+	const result: CodeAction[] = [];
+	const text = document.getText();
+	const start = document.offsetAt(range.start);
+	const end = document.offsetAt(range.end);
+
+	const addAction = (title: string, edits: TextEdit[]) => {
+		result.push(CodeAction.create(title, { changes: { [document.uri]: edits } }, CodeActionKind.RefactorRewrite));
+	};
+	const createRange = (startOffset: number, endOffset: number) => Range.create(document.positionAt(startOffset), document.positionAt(endOffset));
+
+	const wrapEdit = getWrapEdit(document, start, end, htmlDocument, options);
+	if (wrapEdit) {
+		addAction(localize('refactor.wrap', "Wrap with '<{0}>'", wrapTag), [wrapEdit]);
+	}
+
+	const node = htmlDocument.findNodeAt(start);
+	if (!node.tag || node.startTagEnd === undefined) {
+		return result;
+	}
+	const inStartTag = start > node.start && end <= node.startTagEnd;
+	const inEndTag = node.endTagStart !== undefined && start > node.endTagStart && end <= node.end;
+
+	if ((inStartTag || inEndTag) && node.endTagStart !== undefined) {
+		// remove the tags, dedenting the content if the tags are on lines of their own
+		const edits: TextEdit[] = [];
+		const startTagRange = getTagRemovalRange(text, node.start, node.startTagEnd);
+		const endTagRange = getTagRemovalRange(text, node.endTagStart, node.end);
+		edits.push(TextEdit.del(createRange(startTagRange[0], startTagRange[1])));
+		if (startTagRange[0] !== node.start && endTagRange[0] !== node.endTagStart) {
+			const indentPattern = new RegExp(`^(\\t| {1,${options.tabSize || 4}})`);
+			for (let lineStart = startTagRange[1]; lineStart < endTagRange[0]; lineStart = getLineEnd(text, lineStart) + 1) {
+				const match = indentPattern.exec(text.substring(lineStart, getLineEnd(text, lineStart)));
+				if (match) {
+					edits.push(TextEdit.del(createRange(lineStart, lineStart + match[0].length)));
+				}
+			}
+		}
+		edits.push(TextEdit.del(createRange(endTagRange[0], endTagRange[1])));
+		addAction(localize('refactor.unwrap', "Remove tag '<{0}>' keeping its content", node.tag), edits);
+	}
+
+	if (start === end && node.endTagStart !== undefined && node.startTagEnd <= start && start <= node.endTagStart) {
+		// the new element gets the attributes of the element except its id
+		const attributes = node.getAttributes().filter(a => a.name.toLowerCase() !== 'id').map(a => ' ' + text.substring(a.nameStart, a.valueEnd !== undefined ? a.valueEnd : a.nameEnd));
+		addAction(localize('refactor.split', "Split '<{0}>'", node.tag), [TextEdit.insert(range.start, `</${node.tag}><${node.tag}${attributes.join('')}>`)]);
+	}
+
+	const parent = node.parent;
+	if (parent && node.endTagStart !== undefined && (inStartTag || inEndTag)) {
+		const next = parent.children[parent.children.indexOf(node) + 1];
+		// elements with different attributes are not joined, the attributes of the next element would be lost
+		if (next && next.tag && next.startTagEnd !== undefined && next.tag.toLowerCase() === node.tag.toLowerCase() && isWhitespace(text, node.end, next.start)
+			&& getAttributesKey(next) === getAttributesKey(node)) {
+			addAction(localize('refactor.join', "Join with the next '<{0}>'", node.tag), [TextEdit.del(createRange(node.endTagStart, next.startTagEnd))]);
+		}
+	}
+	return result;
+}
+
+/**
+ * The edit that wraps the selection in a new element, formatted like `format` formats a range. The selection, without surrounding
+ * whitespace, must cover whole sibling nodes or text of one element.
+ */
+function getWrapEdit(document: TextDocument, start: number, end: number, htmlDocument: HTMLDocument, options: HTMLFormatConfiguration): TextEdit | undefined {
+	const text = document.getText();
+	while (start < end && /\s/.test(text[start])) {
+		start++;
+	}
+	while (end > start && /\s/.test(text[end - 1])) {
+		end--;
+	}
+	if (start === end) {
+		return undefined;
+	}
+
+	// the element whose content contains the selection
+	let contentStart = 0;
+	let children = htmlDocument.roots;
+	let container: Node | undefined;
+	do {
+		container = undefined;
+		for (const child of children) {
+			if (child.start < start && start < child.end || child.start < end && end < child.end) {
+				if (child.startTagEnd === undefined || start < child.startTagEnd || child.endTagStart !== undefined && end > child.endTagStart) {
+					return undefined; // the selection starts or ends inside a child
+				}
+				container = child;
+				contentStart = child.startTagEnd;
+				children = child.children;
+				break;
+			}
+		}
+	} while (container);
+	if (!isContentOffset(text, contentStart, start) || !isContentOffset(text, contentStart, end)) {
+		return undefined;
+	}
+
+	// the selection covers complete lines: the new element gets lines of its own
+	const lineStart = getLineStart(text, start);
+	const eol = text.indexOf('\r\n') !== -1 ? '\r\n' : '\n';
+	const isBlock = isWhitespace(text, lineStart, start) && isWhitespace(text, end, getLineEnd(text, end)) && /[\r\n]/.test(text.substring(start, end));
+	const content = text.substring(start, end);
+	const wrapped = isBlock ? `<${wrapTag}>${eol}${content}${eol}</${wrapTag}>` : `<${wrapTag}>${content}</${wrapTag}>`;
+
+	const wrappedDocument = TextDocument.create(document.uri, document.languageId, document.version, text.substring(0, start) + wrapped + text.substring(end));
+	const range = Range.create(wrappedDocument.positionAt(start), wrappedDocument.positionAt(start + wrapped.length));
+	const newText = TextDocument.applyEdits(wrappedDocument, format(wrappedDocument, range, options));
+
+	// replace the part of the document that changed
+	const prefixLength = commonPrefixLength(text, newText);
+	let suffixLength = 0;
+	while (suffixLength < text.length - prefixLength && suffixLength < newText.length - prefixLength && text[text.length - 1 - suffixLength] === newText[newText.length - 1 - suffixLength]) {
+		suffixLength++;
+	}
+	const editRange = Range.create(document.positionAt(prefixLength), document.positionAt(text.length - suffixLength));
+	return TextEdit.replace(editRange, newText.substring(prefixLength, newText.length - suffixLength));
+}
+
+/**
+ * Whether `offset` lies in text content or between nodes, and not inside a tag, comment or other markup. `start` is an offset in content before `offset`.
+ */
+function isContentOffset(text: string, start: number, offset: number): boolean {
+	const scanner = createScanner(text, start);
+	let state = ScannerState.WithinContent;
+	let token = scanner.scan();
+	while (token !== TokenType.EOS) {
+		if (scanner.getTokenOffset() >= offset) {
+			return state === ScannerState.WithinContent;
+		}
+		if (scanner.getTokenEnd() > offset) {
+			return token === TokenType.Content;
+		}
+		state = scanner.getScannerState();
+		token = scanner.scan();
+	}
+	return state === ScannerState.WithinContent;
+}
+
+/**
+ * The attributes of an element, with lower case names and values without quotes, as a string for comparison.
+ */
+function getAttributesKey(node: Node): string {
+	return node.getAttributes().map(a => a.name.toLowerCase() + '=' + (a.value !== null ? trimQuotes(a.value) : '')).sort().join(' ');
+}
+
+/**
+ * The range of a start or end tag to delete. Tags on lines of their own are deleted with their line.
+ */
+function getTagRemovalRange(text: string, start: number, end: number): [number, number] {
+	const lineStart = getLineStart(text, start);
+	const lineEnd = getLineEnd(text, end);
+	if (isWhitespace(text, lineStart, start) && isWhitespace(text, end, lineEnd) && lineEnd < text.length) {
+		return [lineStart, lineEnd + 1];
+	}
+	return [start, end];
+}
+
+function getLineStart(text: string, offset: number): number {
+	return text.lastIndexOf('\n', offset - 1) + 1;
+}
+
+function getLineEnd(text: string, offset: number): number {
+	const lineEnd = text.indexOf('\n', offset);
+	return lineEnd === -1 ? text.length : lineEnd;
+}
+
+function isWhitespace(text: string, start: number, end: number): boolean {
+	return /^\s*$/.test(text.substring(start, end));
+}
+
+function findElement(htmlDocument: HTMLDocument, tagNameStart: number, tagNameEnd: number): Node | undefined {
+	const node = htmlDocument.findNodeAt(tagNameStart);
+	if (node.tag && node.start + '<'.length === tagNameStart && tagNameStart + node.tag.length === tagNameEnd) {
+		return node;
+	}
+	return undefined;
+}
+
+function findAttribute(htmlDocument: HTMLDocument, nameStart: number, nameEnd: number): NodeAttribute | undefined {
+	const node = htmlDocument.findNodeAt(nameStart);
+	for (const attribute of node.getAttributes()) {
+		if (attribute.nameStart === nameStart && attribute.nameEnd === nameEnd) {
+			return attribute;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * The level of the last heading before the given heading, 0 if there is none.
+ */
+function getPreviousHeadingLevel(htmlDocument: HTMLDocument, heading: Node): number {
+	let level = 0;
+	const visitNode = (node: Node): boolean => {
+		if (node === heading) {
+			return true;
+		}
+		const tag = node.tag && node.tag.toLowerCase();
+		if (tag === 'svg' || tag === 'math') {
+			return false;
+		}
+		if (tag && /^h[1-6]$/.test(tag)) {
+			level = parseInt(tag[1], 10);
+		}
+		return node.children.some(visitNode);
+	};
+	htmlDocument.roots.some(visitNode);
+	return level;
+}
+
+function skipWhitespaceBackward(text: string, offset: number): number {
+	while (offset > 0 && /\s/.test(text[offset - 1])) {
+		offset--;
+	}
+	return offset;
+}
+
+/**
+ * Returns the names closest to the given name, allowing one edit for every three characters.
+ */
+function getSimilarNames(name: string, names: string[]): string[] {
+	const lowerName = name.toLowerCase();
+	const maxDistance = Math.max(1, Math.floor(name.length / 3));
+	let bestDistance = maxDistance + 1;
+	let result: string[] = [];
+	for (const candidate of names) {
+		const distance = getEditDistance(lowerName, candidate.toLowerCase());
+		if (distance === 0 || distance > bestDistance) {
+			continue;
+		}
+		if (distance < bestDistance) {
+			bestDistance = distance;
+			result = [];
+		}
+		if (result.indexOf(candidate) === -1) {
+			result.push(candidate);
+		}
+	}
+	return result.slice(0, maxSuggestions);
+}
+
+/**
+ * The number of insertions, deletions, substitutions and transpositions of adjacent characters needed to turn `a` into `b`.
+ */
+function getEditDistance(a: string, b: string): number {
+	const distances: number[][] = [];
+	for (let i = 0; i <= a.length; i++) {
+		distances[i] = [i];
+	}
+	for (let j = 0; j <= b.length; j++) {
+		distances[0][j] = j;
+	}
+	for (let i = 1; i <= a.length; i++) {
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			distances[i][j] = Math.min(distances[i - 1][j] + 1, distances[i][j - 1] + 1, distances[i - 1][j - 1] + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+			}
+		}
+	}
+	return distances[a.length][b.length];
+}
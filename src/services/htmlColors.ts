@@ -0,0 +1,165 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { HTMLDocument, Node } from '../parser/htmlParser';
+import { TextDocument, Range, Color, ColorInformation, ColorPresentation, TextEdit, NodeAttribute } from '../htmlLanguageTypes';
+import { colors, getColorValue, hslFromColor, ColorNotation } from '../languageFacts/colors';
+import { trimQuotes } from '../utils/strings';
+
+// legacy presentational attributes with a color value, by element
+const colorAttributes: { [tag: string]: string[] } = {
+	body: ['bgcolor', 'text', 'link', 'vlink', 'alink'],
+	table: ['bgcolor'],
+	tr: ['bgcolor'],
+	td: ['bgcolor'],
+	th: ['bgcolor'],
+	font: ['color'],
+	basefont: ['color'],
+	hr: ['color'],
+	marquee: ['bgcolor']
+};
+
+// `url()` and custom property names are matched so that names in them are not taken for colors
+const colorPattern = /\burl\([^)]*\)|#[0-9a-f]+\b|\b(?:rgba?|hsla?)\([^()]*\)|[\w-]+/gi;
+
+export function findDocumentColors(document: TextDocument, htmlDocument: HTMLDocument): ColorInformation[] {
+	const result: ColorInformation[] = [];
+	const addColor = (text: string, start: number) => {
+		const value = getColorValue(text);
+		if (value) {
+			result.push({ color: value.color, range: Range.create(document.positionAt(start), document.positionAt(start + text.length)) });
+		}
+	};
+
+	const visitNode = (node: Node) => {
+		const tag = node.tag && node.tag.toLowerCase();
+		if (tag) {
+			const legacyAttributes = colorAttributes.hasOwnProperty(tag) ? colorAttributes[tag] : [];
+			for (const attribute of node.getAttributes()) {
+				const name = attribute.name.toLowerCase();
+				const value = getValue(attribute);
+				if (!value) {
+					continue;
+				}
+				if (name === 'style') {
+					// colors in the values of the declarations
+					const declarationPattern = /[^;:]*:([^;]*)/g;
+					let declaration: RegExpExecArray | null;
+					while (declaration = declarationPattern.exec(value.text)) {
+						const declarationValue = declaration[1];
+						const valueStart = value.start + declaration.index + declaration[0].length - declarationValue.length;
+						colorPattern.lastIndex = 0;
+						let match: RegExpExecArray | null;
+						while (match = colorPattern.exec(declarationValue)) {
+							addColor(match[0], valueStart + match.index);
+						}
+					}
+				} else if (legacyAttributes.indexOf(name) !== -1 || isColorValue(node, tag, name)) {
+					const text = value.text.trim();
+					addColor(text, value.start + value.text.indexOf(text));
+				}
+			}
+		}
+		node.children.forEach(visitNode);
+	};
+	htmlDocument.roots.forEach(visitNode);
+	return result;
+}
+
+export function getColorPresentations(document: TextDocument, htmlDocument: HTMLDocument, color: Color, range: Range): ColorPresentation[] {
+	const text = document.getText(range);
+	const offset = document.offsetAt(range.start);
+	const node = htmlDocument.findNodeAt(offset);
+	const tag = node.tag && node.tag.toLowerCase();
+	const attribute = node.getAttributes().filter(a => a.valueStart !== undefined && a.valueStart <= offset && offset <= a.valueEnd!)[0];
+	if (tag === 'input' && attribute && attribute.name.toLowerCase() === 'value') {
+		// the value of a color input is always a 6 digit hex color
+		return [createPresentation(toHex(color, false), range)];
+	}
+
+	const presentations: { [notation: string]: string } = {
+		hex: toHex(color, color.alpha < 1),
+		rgb: color.alpha === 1 ?
+			`rgb(${toByte(color.red)}, ${toByte(color.green)}, ${toByte(color.blue)})` :
+			`rgba(${toByte(color.red)}, ${toByte(color.green)}, ${toByte(color.blue)}, ${roundAlpha(color.alpha)})`,
+		hsl: getHSLPresentation(color)
+	};
+	const name = color.alpha === 1 ? getColorName(toHex(color, false)) : undefined;
+	if (name) {
+		presentations.named = name;
+	}
+
+	// the notation of the current value comes first
+	const current = getColorValue(text);
+	const notations: ColorNotation[] = ['rgb', 'hex', 'hsl', 'named'];
+	if (current && presentations[current.notation]) {
+		notations.splice(notations.indexOf(current.notation), 1);
+		notations.unshift(current.notation);
+	}
+	return notations.filter(n => !!presentations[n]).map(n => createPresentation(presentations[n], range));
+}
+
+function createPresentation(label: string, range: Range): ColorPresentation {
+	return { label, textEdit: TextEdit.replace(range, label) };
+}
+
+function isColorValue(node: Node, tag: string, attribute: string): boolean {
+	if (tag === 'input' && attribute === 'value') {
+		const type = node.getAttribute('type');
+		return !!type && !!type.value && trimQuotes(type.value).toLowerCase() === 'color';
+	}
+	if (tag === 'meta' && attribute === 'content') {
+		const name = node.getAttribute('name');
+		return !!name && !!name.value && trimQuotes(name.value).toLowerCase() === 'theme-color';
+	}
+	return false;
+}
+
+function getValue(attribute: NodeAttribute): { text: string; start: number } | undefined {
+	if (attribute.value === null || attribute.valueStart === undefined) {
+		return undefined;
+	}
+	if (attribute.quote) {
+		return { text: trimQuotes(attribute.value), start: attribute.valueStart + 1 };
+	}
+	return { text: attribute.value, start: attribute.valueStart };
+}
+
+function getColorName(hex: string): string | undefined {
+	for (const name in colors) {
+		if (colors[name] === hex) {
+			return name;
+		}
+	}
+	return undefined;
+}
+
+function getHSLPresentation(color: Color): string {
+	const hsl = hslFromColor(color);
+	const s = Math.round(hsl.s * 100);
+	const l = Math.round(hsl.l * 100);
+	if (hsl.a === 1) {
+		return `hsl(${hsl.h}, ${s}%, ${l}%)`;
+	}
+	return `hsla(${hsl.h}, ${s}%, ${l}%, ${roundAlpha(hsl.a)})`;
+}
+
+function toByte(value: number): number {
+	return Math.round(value * 255);
+}
+
+function roundAlpha(alpha: number): number {
+	return Math.round(alpha * 100) / 100;
+}
+
+function toTwoDigitHex(n: number): string {
+	const r = n.toString(16);
+	return r.length !== 2 ? '0' + r : r;
+}
+
+function toHex(color: Color, withAlpha: boolean): string {
+	const hex = `#${toTwoDigitHex(toByte(color.red))}${toTwoDigitHex(toByte(color.green))}${toTwoDigitHex(toByte(color.blue))}`;
+	return withAlpha ? hex + toTwoDigitHex(toByte(color.alpha)) : hex;
+}
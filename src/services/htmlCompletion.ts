@@ -7,7 +7,8 @@ import { HTMLDocument, Node } from '../parser/htmlParser';
 import { createScanner } from '../parser/htmlScanner';
 import {
 	CompletionConfiguration, ICompletionParticipant, ScannerState, TokenType, LanguageServiceOptions, DocumentContext,
-	Position, CompletionList, CompletionItemKind, Range, TextEdit, InsertTextFormat, CompletionItem, MarkupKind, TextDocument
+	Position, CompletionList, CompletionItemKind, CompletionItemTag, Range, TextEdit, InsertTextFormat, CompletionItem, MarkupKind, TextDocument,
+	ITagData, IAttributeData, IValueData
 } from '../htmlLanguageTypes';
 import { entities } from '../parser/htmlEntities';
 
@@ -16,8 +17,10 @@ import { isLetterOrDigit, endsWith, startsWith } from '../utils/strings';
 import { HTMLDataManager } from '../languageFacts/dataManager';
 import { isVoidElement } from '../languageFacts/fact';
 import { isDefined } from '../utils/object';
-import { generateDocumentation } from '../languageFacts/dataProvider';
+import { generateDocumentation, isDeprecated } from '../languageFacts/dataProvider';
 import { PathCompletionParticipant } from './pathCompletion';
+import { getElementRole, isAriaAttributeSupported, isAriaAttributeRequired } from '../languageFacts/aria';
+import { getTagDataLookup, isPermittedChild } from '../languageFacts/contentModel';
 const localize = nls.loadMessageBundle();
 
 export class HTMLCompletion {
@@ -89,15 +92,21 @@ export class HTMLCompletion {
 
 		function collectOpenTagSuggestions(afterOpenBracket: number, tagNameEnd?: number): CompletionList {
 			const range = getReplaceRange(afterOpenBracket, tagNameEnd);
+			const getTagData = getTagDataLookup(dataProviders);
 			dataProviders.forEach((provider) => {
 				provider.provideTags().forEach(tag => {
-					result.items.push({
+					const item = withStatus({
 						label: tag.name,
 						kind: CompletionItemKind.Property,
 						documentation: generateDocumentation(tag, undefined, doesSupportMarkdown),
 						textEdit: TextEdit.replace(range, tag.name),
 						insertTextFormat: InsertTextFormat.PlainText
-					});
+					}, tag);
+					if (!item.sortText && !isPermittedChild(node.parent, tag.name.toLowerCase(), tag, getTagData)) {
+						// elements that the content model of the parent does not permit come last
+						item.sortText = '~' + tag.name;
+					}
+					result.items.push(item);
 				});
 			});
 			return result;
@@ -153,14 +162,14 @@ export class HTMLCompletion {
 
 			dataProviders.forEach(provider => {
 				provider.provideTags().forEach(tag => {
-					result.items.push({
+					result.items.push(withStatus({
 						label: '/' + tag.name,
 						kind: CompletionItemKind.Property,
 						documentation: generateDocumentation(tag, undefined, doesSupportMarkdown),
 						filterText: '/' + tag.name + closeTag,
 						textEdit: TextEdit.replace(range, '/' + tag.name + closeTag),
 						insertTextFormat: InsertTextFormat.PlainText
-					});
+					}, tag));
 				});
 			});
 			return result;
@@ -209,6 +218,8 @@ export class HTMLCompletion {
 			const seenAttributes = getExistingAttributes();
 			// include current typing attribute
 			seenAttributes[currentAttribute] = false;
+			// only offer the states and properties of the element's role
+			const role = getElementRole(node);
 
 			dataProviders.forEach(provider => {
 				provider.provideAttributes(currentTag).forEach(attr => {
@@ -216,6 +227,10 @@ export class HTMLCompletion {
 						return;
 					}
 					seenAttributes[attr.name] = true;
+					const isAria = startsWith(attr.name, 'aria-');
+					if (isAria && !isAriaAttributeSupported(role, attr.name)) {
+						return;
+					}
 
 					let codeSnippet = attr.name;
 					let command;
@@ -229,14 +244,19 @@ export class HTMLCompletion {
 						}
 					}
 
-					result.items.push({
+					const item = withStatus({
 						label: attr.name,
 						kind: attr.valueSet === 'handler' ? CompletionItemKind.Function : CompletionItemKind.Value,
 						documentation: generateDocumentation(attr, undefined, doesSupportMarkdown),
 						textEdit: TextEdit.replace(range, codeSnippet),
 						insertTextFormat: InsertTextFormat.Snippet,
 						command
-					});
+					}, attr);
+					if (isAria && isAriaAttributeRequired(role, attr.name)) {
+						// required states and properties come first
+						item.sortText = '!' + attr.name;
+					}
+					result.items.push(item);
 				});
 			});
 			collectDataAttributesSuggestions(range, seenAttributes);
@@ -309,14 +329,14 @@ export class HTMLCompletion {
 				provider.provideValues(currentTag, currentAttributeName).forEach(value => {
 					const insertText = addQuotes ? '"' + value.name + '"' : value.name;
 
-					result.items.push({
+					result.items.push(withStatus({
 						label: value.name,
 						filterText: insertText,
 						kind: CompletionItemKind.Unit,
 						documentation: generateDocumentation(value, undefined, doesSupportMarkdown),
 						textEdit: TextEdit.replace(range, insertText),
 						insertTextFormat: InsertTextFormat.PlainText
-					});
+					}, value));
 				});
 			});
 			collectCharacterEntityProposals();
@@ -577,3 +597,14 @@ function getWordEnd(s: string, offset: number, limit: number): number {
 	}
 	return offset;
 }
+
+/**
+ * Tags the item of a deprecated or obsolete entry and sorts it after the other items.
+ */
+function withStatus(item: CompletionItem, entry: ITagData | IAttributeData | IValueData): CompletionItem {
+	if (isDeprecated(entry)) {
+		item.tags = [CompletionItemTag.Deprecated];
+		item.sortText = '~' + item.label;
+	}
+	return item;
+}
@@ -0,0 +1,169 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { createScanner } from '../parser/htmlScanner';
+import { TokenType, TextDocument, Position, EmbeddedRegion, HTMLDocumentRegions } from '../htmlLanguageTypes';
+import { startsWith, endsWith, repeat } from '../utils/strings';
+
+const scriptLanguages: { [type: string]: string } = {
+	'': 'javascript',
+	'module': 'javascript',
+	'text/javascript': 'javascript',
+	'application/javascript': 'javascript',
+	'text/ecmascript': 'javascript',
+	'application/ecmascript': 'javascript',
+	'text/babel': 'javascript',
+	'application/json': 'json',
+	'application/ld+json': 'json',
+	'importmap': 'json',
+	'speculationrules': 'json'
+};
+
+const styleLanguages: { [type: string]: string } = {
+	'': 'css',
+	'text/css': 'css'
+};
+
+export function getDocumentRegions(document: TextDocument): HTMLDocumentRegions {
+	const text = document.getText();
+	const regions: EmbeddedRegion[] = [];
+	const scanner = createScanner(text);
+	let lastTagName: string | undefined;
+	let lastAttributeName: string | undefined;
+	let scriptType = '';
+	let styleType = '';
+	let token = scanner.scan();
+	while (token !== TokenType.EOS) {
+		switch (token) {
+			case TokenType.StartTag:
+				lastTagName = scanner.getTokenText().toLowerCase();
+				lastAttributeName = undefined;
+				scriptType = '';
+				styleType = '';
+				break;
+			case TokenType.AttributeName:
+				lastAttributeName = scanner.getTokenText().toLowerCase();
+				break;
+			case TokenType.AttributeValue: {
+				const value = scanner.getTokenText();
+				let start = scanner.getTokenOffset();
+				let end = scanner.getTokenEnd();
+				const quote = value[0];
+				if (quote === '"' || quote === '\'') {
+					start++;
+					if (end > start && value[value.length - 1] === quote) {
+						end--;
+					}
+				}
+				if (lastTagName === 'script' && lastAttributeName === 'type') {
+					scriptType = text.substring(start, end).trim().toLowerCase();
+				} else if (lastTagName === 'style' && lastAttributeName === 'type') {
+					styleType = text.substring(start, end).trim().toLowerCase();
+				} else if (lastAttributeName === 'style') {
+					regions.push({ kind: 'styleAttribute', languageId: 'css', start, end });
+				} else if (lastAttributeName && /^on\w+$/.test(lastAttributeName)) {
+					regions.push({ kind: 'eventHandler', languageId: 'javascript', start, end });
+				}
+				lastAttributeName = undefined;
+				break;
+			}
+			case TokenType.Script: {
+				const languageId = getScriptLanguage(scriptType);
+				if (languageId) {
+					const region: EmbeddedRegion = { kind: 'script', languageId, start: scanner.getTokenOffset(), end: scanner.getTokenEnd() };
+					if (scriptType === 'module') {
+						region.module = true;
+					}
+					regions.push(region);
+				}
+				break;
+			}
+			case TokenType.Styles: {
+				const languageId = getStyleLanguage(styleType);
+				if (languageId) {
+					regions.push({ kind: 'style', languageId, start: scanner.getTokenOffset(), end: scanner.getTokenEnd() });
+				}
+				break;
+			}
+		}
+		token = scanner.scan();
+	}
+
+	return {
+		regions,
+		getEmbeddedDocument: (languageId: string, ignoreAttributeValues?: boolean) => getEmbeddedDocument(document, regions, languageId, !!ignoreAttributeValues),
+		getLanguageAtPosition: (position: Position) => getLanguageAtOffset(regions, document.offsetAt(position)),
+		getLanguagesInDocument: () => {
+			const result = ['html'];
+			for (const region of regions) {
+				if (result.indexOf(region.languageId) === -1) {
+					result.push(region.languageId);
+				}
+			}
+			return result;
+		}
+	};
+}
+
+/**
+ * The language of the content of a `script` element with the given lower case `type`, undefined if the content is not a known language.
+ */
+export function getScriptLanguage(type: string): string | undefined {
+	return scriptLanguages.hasOwnProperty(type) ? scriptLanguages[type] : undefined;
+}
+
+/**
+ * The language of the content of a `style` element with the given lower case `type`, undefined if the content is not a known language.
+ */
+export function getStyleLanguage(type: string): string | undefined {
+	return styleLanguages.hasOwnProperty(type) ? styleLanguages[type] : undefined;
+}
+
+function getLanguageAtOffset(regions: EmbeddedRegion[], offset: number): string {
+	for (const region of regions) {
+		if (offset < region.start) {
+			break;
+		}
+		if (offset <= region.end) {
+			return region.languageId;
+		}
+	}
+	return 'html';
+}
+
+function getEmbeddedDocument(document: TextDocument, regions: EmbeddedRegion[], languageId: string, ignoreAttributeValues: boolean): TextDocument {
+	const text = document.getText();
+	let result = '';
+	let offset = 0;
+	let suffix = '';
+	for (const region of regions) {
+		const isAttributeValue = region.kind === 'styleAttribute' || region.kind === 'eventHandler';
+		if (region.languageId !== languageId || ignoreAttributeValues && isAttributeValue) {
+			continue;
+		}
+		const prefix = isAttributeValue && languageId === 'css' ? '__{' : '';
+		result += getWhitespace(text, offset, region.start, suffix, prefix);
+		result += text.substring(region.start, region.end);
+		offset = region.end;
+		suffix = isAttributeValue ? (languageId === 'css' ? '}' : ';') : '';
+	}
+	result += getWhitespace(text, offset, text.length, suffix, '');
+	return TextDocument.create(document.uri, languageId, document.version, result);
+}
+
+/**
+ * Replaces the text between the regions by whitespace, keeping line breaks so that offsets and positions are preserved.
+ * The suffix of the previous region and the prefix of the next region are inserted where the replaced text leaves room on the same line.
+ */
+function getWhitespace(text: string, start: number, end: number, suffix: string, prefix: string): string {
+	let whitespace = text.substring(start, end).replace(/[^\r\n]/g, ' ');
+	if (suffix && startsWith(whitespace, repeat(' ', suffix.length))) {
+		whitespace = suffix + whitespace.substr(suffix.length);
+	}
+	if (prefix && endsWith(whitespace, repeat(' ', prefix.length))) {
+		whitespace = whitespace.substr(0, whitespace.length - prefix.length) + prefix;
+	}
+	return whitespace;
+}
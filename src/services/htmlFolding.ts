@@ -5,7 +5,7 @@
 
 import { TokenType, FoldingRange, FoldingRangeKind, TextDocument } from '../htmlLanguageTypes';
 import { createScanner } from '../parser/htmlScanner';
-import { isVoidElement } from '../languageFacts/fact';
+import { isVoidElement, isOptionalEndTagElement, isImpliedEndTag, isImpliedEndTagScope } from '../languageFacts/fact';
 
 function limitRanges(ranges: FoldingRange[], rangeLimit: number) {
 	ranges = ranges.sort((r1, r2) => {
@@ -93,11 +93,36 @@ export function getFoldingRanges(document: TextDocument, context: { rangeLimit?:
 		prevStart = range.startLine;
 	}
 
+	// closes the element at the given stack index and all elements above it that have an optional end tag
+	function closeElements(index: number, endLine: number) {
+		for (let k = stack.length - 1; k >= index; k--) {
+			const stackElement = stack[k];
+			if (k === index || isOptionalEndTagElement(stackElement.tagName)) {
+				const startLine = stackElement.startLine;
+				if (endLine > startLine && prevStart !== startLine) {
+					addRange({ startLine, endLine });
+				}
+			}
+		}
+		stack.length = index;
+	}
+
 	while (token !== TokenType.EOS) {
 		switch (token) {
 			case TokenType.StartTag: {
 				const tagName = scanner.getTokenText();
 				const startLine = document.positionAt(scanner.getTokenOffset()).line;
+				let impliedEnd = -1;
+				for (let i = stack.length - 1; i >= 0 && stack[i].tagName.length; i--) {
+					if (isImpliedEndTag(stack[i].tagName, tagName)) {
+						impliedEnd = i;
+					} else if (isImpliedEndTagScope(stack[i].tagName, tagName)) {
+						break;
+					}
+				}
+				if (impliedEnd >= 0) {
+					closeElements(impliedEnd, startLine - 1);
+				}
 				stack.push({ startLine, tagName });
 				lastTagName = tagName;
 				break;
@@ -118,14 +143,8 @@ export function getFoldingRanges(document: TextDocument, context: { rangeLimit?:
 					i--;
 				}
 				if (i >= 0) {
-					const stackElement = stack[i];
-					stack.length = i;
 					const line = document.positionAt(scanner.getTokenOffset()).line;
-					const startLine = stackElement.startLine;
-					const endLine = line - 1;
-					if (endLine > startLine && prevStart !== startLine) {
-						addRange({ startLine, endLine });
-					}
+					closeElements(i, line - 1);
 				}
 				break;
 			}
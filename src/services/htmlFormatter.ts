@@ -3,17 +3,39 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { HTMLFormatConfiguration, Range, TextEdit, Position, TextDocument } from '../htmlLanguageTypes';
-import { IBeautifyHTMLOptions, html_beautify } from '../beautify/beautify-html';
-import { repeat } from '../utils/strings';
+import {
+	HTMLFormatConfiguration, Range, TextEdit, Position, TextDocument, TokenType, ScannerState, IHTMLDataProvider, IAttributeData, EmbeddedContentFormatter
+} from '../htmlLanguageTypes';
+import { parse, Node, HTMLDocument } from '../parser/htmlParser';
+import { createScanner } from '../parser/htmlScanner';
+import { isInlineElement } from '../languageFacts/fact';
+import { getTagDataLookup, TagDataLookup } from '../languageFacts/contentModel';
+import { getScriptLanguage, getStyleLanguage } from './htmlDocumentRegions';
+import { commonPrefixLength, endsWith, repeat, startsWith, trimQuotes } from '../utils/strings';
 
-export function format(document: TextDocument, range: Range | undefined, options: HTMLFormatConfiguration): TextEdit[] {
+type WrapAttributes = HTMLFormatConfiguration['wrapAttributes'];
+
+const TEMPLATE_DELIMITERS = [['{{', '}}'], ['{%', '%}'], ['{#', '#}'], ['<%', '%>'], ['<?', '?>']];
+const HANDLEBARS_DELIMITERS = [['{{', '}}']];
+const DEFAULT_ATTRIBUTE_GROUPS = 'id,class,name,data-*,src|href,aria-*,*,on*';
+
+/**
+ * Formats the document or the given range. `htmlDocument`, the parsed document, is used when the whole document is formatted.
+ */
+export function format(document: TextDocument, range: Range | undefined, options: HTMLFormatConfiguration, dataProviders: IHTMLDataProvider[] = [], htmlDocument?: HTMLDocument): TextEdit[] {
 	let value = document.getText();
 	let includesEnd = true;
 	let initialIndentLevel = 0;
+	let editsEnd = value.length;
 	const tabSize = options.tabSize || 4;
 	if (range) {
-		let startOffset = document.offsetAt(range.start);
+		// start at the beginning of the tag, comment or doctype the range starts in
+		const rangeStart = document.offsetAt(range.start);
+		let startOffset = getConstructStart(value, rangeStart);
+		if (startOffset < rangeStart) {
+			// the range is only extended as far as needed for that construct: there are no edits after its end
+			editsEnd = document.offsetAt(range.end);
+		}
 
 		// include all leading whitespace iff at the beginning of the line
 		let extendedStart = startOffset;
@@ -30,7 +52,7 @@ export function format(document: TextDocument, range: Range | undefined, options
 		}
 
 		// include all following whitespace until the end of the line
-		let endOffset = document.offsetAt(range.end);
+		let endOffset = Math.max(startOffset, document.offsetAt(range.end));
 		let extendedEnd = endOffset;
 		while (extendedEnd < value.length && isWhitespace(value, extendedEnd)) {
 			extendedEnd++;
@@ -40,18 +62,6 @@ export function format(document: TextDocument, range: Range | undefined, options
 		}
 		range = Range.create(document.positionAt(startOffset), document.positionAt(endOffset));
 
-		// Do not modify if substring starts in inside an element
-		// Ending inside an element is fine as it doesn't cause formatting errors
-		const firstHalf = value.substring(0, startOffset);
-		if (new RegExp(/.*[<][^>]*$/).test(firstHalf)) {
-			//return without modification
-			value = value.substring(startOffset, endOffset);
-			return [{
-				range: range,
-				newText: value
-			}];
-		}
-
 		includesEnd = endOffset === value.length;
 		value = value.substring(startOffset, endOffset);
 
@@ -62,43 +72,902 @@ export function format(document: TextDocument, range: Range | undefined, options
 	} else {
 		range = Range.create(Position.create(0, 0), document.positionAt(value.length));
 	}
-	const htmlOptions: IBeautifyHTMLOptions = {
-		indent_size: tabSize,
-		indent_char: options.insertSpaces ? ' ' : '\t',
-		indent_empty_lines: getFormatOption(options, 'indentEmptyLines', false),
-		wrap_line_length: getFormatOption(options, 'wrapLineLength', 120),
-		unformatted: getTagsFormatOption(options, 'unformatted', void 0),
-		content_unformatted: getTagsFormatOption(options, 'contentUnformatted', void 0),
-		indent_inner_html: getFormatOption(options, 'indentInnerHtml', false),
-		preserve_newlines: getFormatOption(options, 'preserveNewLines', true),
-		max_preserve_newlines: getFormatOption(options, 'maxPreserveNewLines', 32786),
-		indent_handlebars: getFormatOption(options, 'indentHandlebars', false),
-		end_with_newline: includesEnd && getFormatOption(options, 'endWithNewline', false),
-		extra_liners: getTagsFormatOption(options, 'extraLiners', void 0),
-		wrap_attributes: getFormatOption(options, 'wrapAttributes', 'auto'),
-		wrap_attributes_indent_size: getFormatOption(options, 'wrapAttributesIndentSize', void 0),
-		eol: '\n',
-		indent_scripts: getFormatOption(options, 'indentScripts', 'normal'),
-		templating: getTemplatingFormatOption(options, 'all'),
-		unformatted_content_delimiter: getFormatOption(options, 'unformattedContentDelimiter', ''),
+	const printer = new Printer({
+		indentUnit: options.insertSpaces ? repeat(' ', tabSize) : '\t',
+		tabSize,
+		eol: getEOL(document),
+		wrapLineLength: getFormatOption(options, 'wrapLineLength', 120),
+		indentEmptyLines: getFormatOption(options, 'indentEmptyLines', false),
+		initialIndentLevel,
+		indentFirstLine: range.start.character === 0
+	});
+	const formatter = new HTMLFormatter(document.uri, value, printer, options, dataProviders);
+	let result = formatter.format(value === document.getText() ? htmlDocument : undefined);
+	if (includesEnd && getFormatOption(options, 'endWithNewline', false)) {
+		result += getEOL(document);
+	}
+	return getEdits(document, document.offsetAt(range.start), value, result).filter(edit => document.offsetAt(edit.range.end) <= editsEnd);
+}
+
+/**
+ * Formats after `ch` was typed at `position`. After a new line ('\n') the line is indented for the element it is in, a closing
+ * tag that directly follows a start tag is moved to the next line. A closing tag that starts a line is aligned with its start tag
+ * when it is typed ('/' and '>').
+ */
+export function doOnTypeFormatting(document: TextDocument, position: Position, ch: string, htmlDocument: HTMLDocument, options: HTMLFormatConfiguration): TextEdit[] {
+	const text = document.getText();
+	const offset = document.offsetAt(position);
+	const lineStart = document.offsetAt(Position.create(position.line, 0));
+	let contentStart = lineStart;
+	while (contentStart < text.length && isWhitespace(text, contentStart)) {
+		contentStart++;
+	}
+	const indentUnit = options.insertSpaces ? repeat(' ', options.tabSize || 4) : '\t';
+	let indent: string | undefined;
+	const edits: TextEdit[] = [];
+	if (ch === '\n') {
+		const constructStart = getConstructStart(text, contentStart);
+		if (constructStart !== contentStart) {
+			if (text.charAt(constructStart + 1) !== '!' && text.charAt(constructStart + 1) !== '/') {
+				// an attribute on a new line
+				const wrapAttributesIndentSize = getFormatOption(options, 'wrapAttributesIndentSize', void 0);
+				indent = getLineIndent(text, constructStart) + (wrapAttributesIndentSize !== undefined ? repeat(' ', wrapAttributesIndentSize) : indentUnit);
+			}
+		} else {
+			const container = getContainer(htmlDocument, contentStart);
+			const containerTag = container && container.tag!.toLowerCase();
+			if (!container || !containerTag) {
+				indent = '';
+			} else if (containerTag !== 'script' && containerTag !== 'style' && getTagsFormatOption(options, 'contentUnformatted', ['pre', 'textarea']).indexOf(containerTag) === -1) {
+				const containerIndent = getLineIndent(text, container.start);
+				const contentIndent = containerTag === 'html' && !getFormatOption(options, 'indentInnerHtml', false) ? containerIndent : containerIndent + indentUnit;
+				if (container.endTagStart === contentStart) {
+					if (/^\s*$/.test(text.substring(container.startTagEnd!, lineStart))) {
+						indent = contentIndent;
+						edits.push(TextEdit.insert(document.positionAt(contentStart), getEOL(document) + containerIndent));
+					} else {
+						indent = containerIndent;
+					}
+				} else {
+					indent = contentIndent;
+				}
+			}
+		}
+	} else if (ch === '/' && text.substring(offset - 2, offset) === '</' && contentStart === offset - 2) {
+		const container = getContainer(htmlDocument, contentStart);
+		indent = container ? getLineIndent(text, container.start) : '';
+	} else if (ch === '>' && /<\/[^\s<>]*\s*>$/.test(text.substring(contentStart, offset))) {
+		const node = htmlDocument.findNodeAt(offset);
+		if (node.tag && node.endTagStart === contentStart && node.end === offset) {
+			indent = getLineIndent(text, node.start);
+		}
+	}
+	if (indent !== undefined && indent !== text.substring(lineStart, contentStart)) {
+		edits.unshift(TextEdit.replace(Range.create(document.positionAt(lineStart), document.positionAt(contentStart)), indent));
+	}
+	return edits;
+}
+
+/**
+ * The element whose content contains `offset`, undefined at the root of the document.
+ */
+function getContainer(htmlDocument: HTMLDocument, offset: number): Node | undefined {
+	let node: Node | undefined = htmlDocument.findNodeAt(offset);
+	while (node && node.tag) {
+		if (node.startTagEnd !== undefined && node.startTagEnd <= offset && (node.endTagStart !== undefined ? offset <= node.endTagStart : offset < node.end || !node.closed)) {
+			return node;
+		}
+		node = node.parent;
+	}
+	return undefined;
+}
+
+/**
+ * The whitespace at the beginning of the line that contains `offset`.
+ */
+function getLineIndent(text: string, offset: number): string {
+	let lineStart = offset;
+	while (lineStart > 0 && !isEOL(text, lineStart - 1)) {
+		lineStart--;
+	}
+	let contentStart = lineStart;
+	while (contentStart < offset && isWhitespace(text, contentStart)) {
+		contentStart++;
+	}
+	return text.substring(lineStart, contentStart);
+}
+
+/**
+ * Returns the edits that turn `original` into `formatted`. The texts are compared token by token, so that changes of whitespace
+ * between tokens result in whitespace-only edits. Tokens that differ are replaced together with the whitespace around them.
+ */
+function getEdits(document: TextDocument, offset: number, original: string, formatted: string): TextEdit[] {
+	const edits: TextEdit[] = [];
+	if (original === formatted) {
+		return edits;
+	}
+	const addEdit = (start: number, end: number, newText: string) => {
+		const edit = getReplaceEdit(original.substring(start, end), newText);
+		if (edit) {
+			const range = Range.create(document.positionAt(offset + start + edit.start), document.positionAt(offset + start + edit.end));
+			edits.push(TextEdit.replace(range, edit.newText));
+		}
 	};
+	const originalTokens = getTokens(original);
+	const formattedTokens = getTokens(formatted);
+	let originalOffset = 0;
+	let formattedOffset = 0;
+	for (const [originalIndex, formattedIndex] of getMatchingTokens(originalTokens, formattedTokens)) {
+		const originalToken = originalTokens[originalIndex];
+		const formattedToken = formattedTokens[formattedIndex];
+		addEdit(originalOffset, originalToken.start, formatted.substring(formattedOffset, formattedToken.start));
+		originalOffset = originalToken.end;
+		formattedOffset = formattedToken.end;
+	}
+	addEdit(originalOffset, original.length, formatted.substring(formattedOffset));
+	return edits;
+}
+
+/**
+ * The edit that replaces the part of `original` that differs from `newText`, with offsets relative to `original`.
+ */
+function getReplaceEdit(original: string, newText: string): { start: number; end: number; newText: string } | undefined {
+	if (original === newText) {
+		return undefined;
+	}
+	let prefix = commonPrefixLength(original, newText);
+	if (prefix > 0 && original.charAt(prefix - 1) === '\r') {
+		prefix--; // don't split a CRLF
+	}
+	let suffix = 0;
+	while (suffix < original.length - prefix && suffix < newText.length - prefix && original.charAt(original.length - suffix - 1) === newText.charAt(newText.length - suffix - 1)) {
+		suffix++;
+	}
+	if (suffix > 0 && original.charAt(original.length - suffix) === '\n' && original.charAt(original.length - suffix - 1) === '\r') {
+		suffix--;
+	}
+	return { start: prefix, end: original.length - suffix, newText: newText.substring(prefix, newText.length - suffix) };
+}
+
+interface DiffToken {
+	text: string;
+	start: number;
+	end: number;
+}
 
-	let result = html_beautify(trimLeft(value), htmlOptions);
-	if (initialIndentLevel > 0) {
-		const indent = options.insertSpaces ? repeat(' ', tabSize * initialIndentLevel) : repeat('\t', initialIndentLevel);
-		result = result.split('\n').join('\n' + indent);
-		if (range.start.character === 0) {
-			result = indent + result; // keep the indent
+/**
+ * Splits the text into words and the punctuation of tags. Whitespace is not part of the tokens.
+ */
+function getTokens(text: string): DiffToken[] {
+	const tokens: DiffToken[] = [];
+	const regex = /[<>=\/'"`]|[^\s<>=\/'"`]+/g;
+	let match: RegExpExecArray | null;
+	while (match = regex.exec(text)) {
+		tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+	}
+	return tokens;
+}
+
+const MAX_DIFF_COST = 500;
+
+/**
+ * Returns the pairs of indexes of the tokens that are kept, computed with the diff algorithm of Myers. The tokens between the common
+ * prefix and suffix are not matched if the number of insertions and deletions exceeds `MAX_DIFF_COST`.
+ */
+function getMatchingTokens(original: DiffToken[], formatted: DiffToken[]): [number, number][] {
+	const matches: [number, number][] = [];
+	let prefix = 0;
+	while (prefix < original.length && prefix < formatted.length && original[prefix].text === formatted[prefix].text) {
+		matches.push([prefix, prefix]);
+		prefix++;
+	}
+	let suffix = 0;
+	while (suffix < original.length - prefix && suffix < formatted.length - prefix && original[original.length - suffix - 1].text === formatted[formatted.length - suffix - 1].text) {
+		suffix++;
+	}
+	const n = original.length - prefix - suffix;
+	const m = formatted.length - prefix - suffix;
+	const isSame = (x: number, y: number) => original[prefix + x].text === formatted[prefix + y].text;
+
+	// trace[d][k + d + 1] is the furthest x on diagonal k before step d
+	const trace: number[][] = [];
+	const v: { [k: number]: number } = { 1: 0 };
+	let found = n === 0 && m === 0;
+	for (let d = 0; !found && d <= Math.min(n + m, MAX_DIFF_COST); d++) {
+		const snapshot: number[] = [];
+		for (let k = -d - 1; k <= d + 1; k++) {
+			snapshot.push(v[k] || 0);
+		}
+		trace.push(snapshot);
+		for (let k = -d; k <= d && !found; k += 2) {
+			let x = k === -d || k !== d && v[k - 1] < v[k + 1] ? v[k + 1] : v[k - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && isSame(x, y)) {
+				x++;
+				y++;
+			}
+			v[k] = x;
+			found = x >= n && y >= m;
+		}
+	}
+	if (found) {
+		const middle: [number, number][] = [];
+		let x = n;
+		let y = m;
+		for (let d = trace.length - 1; d >= 0; d--) {
+			const snapshot = trace[d];
+			const k = x - y;
+			const previousK = k === -d || k !== d && snapshot[k - 1 + d + 1] < snapshot[k + 1 + d + 1] ? k + 1 : k - 1;
+			const previousX = snapshot[previousK + d + 1];
+			const previousY = previousX - previousK;
+			while (x > previousX && y > previousY) {
+				x--;
+				y--;
+				middle.push([prefix + x, prefix + y]);
+			}
+			x = previousX;
+			y = previousY;
 		}
+		matches.push(...middle.reverse());
+	}
+	for (let i = suffix; i > 0; i--) {
+		matches.push([original.length - i, formatted.length - i]);
+	}
+	return matches;
+}
+
+interface PrinterOptions {
+	indentUnit: string;
+	tabSize: number;
+	eol: string;
+	wrapLineLength: number;
+	indentEmptyLines: boolean;
+	initialIndentLevel: number;
+	indentFirstLine: boolean;
+}
+
+/**
+ * Builds the formatted text. Line breaks and spaces are requested before the next item is printed, so that
+ * whitespace is never emitted at the end of a line or at the beginning and the end of the result.
+ */
+class Printer {
+
+	private parts: string[] = [];
+	private started = false;
+	private pendingNewLines = 0;
+	private pendingSpace = false;
+
+	public column = 0;
+	public lineCount = 0;
+	public indentOffset = 0;
+
+	constructor(public readonly options: PrinterOptions) {
+	}
+
+	public getIndent(level: number): string {
+		return repeat(this.options.indentUnit, Math.max(0, this.options.initialIndentLevel + this.indentOffset + level));
+	}
+
+	/**
+	 * Requests `count` line breaks before the next item.
+	 */
+	public newLine(count = 1) {
+		if (this.started) {
+			this.pendingNewLines = Math.max(this.pendingNewLines, count);
+		}
+	}
+
+	/**
+	 * Requests a space before the next item. The space becomes a line break if the item does not fit on the line.
+	 */
+	public space() {
+		if (this.started) {
+			this.pendingSpace = true;
+		}
+	}
+
+	/**
+	 * Prints an item at the given indentation level, after the requested line breaks or space.
+	 * `width` is the width of the item used to decide whether it fits on the current line.
+	 */
+	public print(text: string, level: number, width = getWidth(text, this.options.tabSize)) {
+		const options = this.options;
+		if (!this.started) {
+			this.started = true;
+			if (options.indentFirstLine) {
+				this.append(this.getIndent(level));
+			}
+		} else if (this.pendingNewLines > 0) {
+			const indent = this.getIndent(level);
+			for (let i = 1; i < this.pendingNewLines; i++) {
+				this.append(options.eol + (options.indentEmptyLines ? indent : ''));
+			}
+			this.append(options.eol + indent);
+		} else if (this.pendingSpace) {
+			if (options.wrapLineLength > 0 && this.column + 1 + width > options.wrapLineLength) {
+				this.append(options.eol + this.getIndent(level));
+			} else {
+				this.append(' ');
+			}
+		}
+		this.pendingNewLines = 0;
+		this.pendingSpace = false;
+		this.append(text);
+	}
+
+	/**
+	 * Appends text to the current line, ignoring any requested line breaks or space.
+	 */
+	public append(text: string) {
+		if (!text) {
+			return;
+		}
+		this.parts.push(text);
+		const lines = text.split(/\r\n|\r|\n/);
+		if (lines.length > 1) {
+			this.lineCount += lines.length - 1;
+			this.column = getWidth(lines[lines.length - 1], this.options.tabSize);
+		} else {
+			this.column += getWidth(text, this.options.tabSize);
+		}
+	}
+
+	public getText(): string {
+		return this.parts.join('');
 	}
-	return [{
-		range: range,
-		newText: result
-	}];
 }
 
-function trimLeft(str: string) {
-	return str.replace(/^\s+/, '');
+interface TagPart {
+	whitespace: string;
+	text: string;
+}
+
+/**
+ * Formats HTML using the nodes of the parsed document for the structure and the scanner for the tokens of tags and content.
+ */
+class HTMLFormatter {
+
+	private unformatted: string[];
+	private contentUnformatted: string[];
+	private extraLiners: string[];
+	private indentInnerHtml: boolean;
+	private preserveNewLines: boolean;
+	private maxPreserveNewLines: number;
+	private wrapAttributes: WrapAttributes;
+	private wrapAttributesIndentSize: number | undefined;
+	private indentScripts: HTMLFormatConfiguration['indentScripts'];
+	private indentHandlebars: boolean;
+	private templateDelimiters: string[][];
+	private unformattedContentDelimiter: string;
+	private sortAttributes: boolean;
+	private attributeGroups: string[][];
+	private attributeQuotes: HTMLFormatConfiguration['attributeQuotes'];
+	private collapseBooleanAttributes: boolean;
+	private lowercaseTagNames: boolean;
+	private lowercaseAttributeNames: boolean;
+	private getTagData: TagDataLookup;
+	private attributeData: { [tag: string]: { [name: string]: IAttributeData } } = {};
+	private embeddedFormatters: { [languageId: string]: EmbeddedContentFormatter };
+
+	constructor(private uri: string, private text: string, private printer: Printer, options: HTMLFormatConfiguration, private dataProviders: IHTMLDataProvider[]) {
+		this.unformatted = getTagsFormatOption(options, 'unformatted', []);
+		this.contentUnformatted = getTagsFormatOption(options, 'contentUnformatted', ['pre', 'textarea']);
+		this.extraLiners = getTagsFormatOption(options, 'extraLiners', ['head', 'body', '/html']);
+		this.indentInnerHtml = getFormatOption(options, 'indentInnerHtml', false);
+		this.preserveNewLines = getFormatOption(options, 'preserveNewLines', true);
+		this.maxPreserveNewLines = getFormatOption(options, 'maxPreserveNewLines', 32786);
+		this.wrapAttributes = getFormatOption(options, 'wrapAttributes', 'auto');
+		this.wrapAttributesIndentSize = getFormatOption(options, 'wrapAttributesIndentSize', void 0);
+		this.indentScripts = getFormatOption(options, 'indentScripts', 'normal');
+		this.indentHandlebars = getFormatOption(options, 'indentHandlebars', false);
+		this.templateDelimiters = getFormatOption(options, 'templating', false) ? TEMPLATE_DELIMITERS : this.indentHandlebars ? HANDLEBARS_DELIMITERS : [];
+		this.unformattedContentDelimiter = getFormatOption(options, 'unformattedContentDelimiter', '');
+		this.sortAttributes = getFormatOption(options, 'sortAttributes', false);
+		this.attributeGroups = (<string>getFormatOption(options, 'attributeGroups', DEFAULT_ATTRIBUTE_GROUPS)).split(',').map(group => group.split('|').map(name => name.trim().toLowerCase()));
+		this.attributeQuotes = getFormatOption(options, 'attributeQuotes', 'preserve');
+		this.collapseBooleanAttributes = getFormatOption(options, 'collapseBooleanAttributes', false);
+		this.lowercaseTagNames = getFormatOption(options, 'lowercaseTagNames', false);
+		this.lowercaseAttributeNames = getFormatOption(options, 'lowercaseAttributeNames', false);
+		this.getTagData = getTagDataLookup(dataProviders);
+		this.embeddedFormatters = getFormatOption(options, 'embeddedFormatters', {});
+	}
+
+	public format(htmlDocument = parse(this.text)): string {
+		this.formatContent(0, this.text.length, htmlDocument.roots, 0, '');
+		return this.printer.getText();
+	}
+
+	/**
+	 * Formats the content between `start` and `end`. `whitespace` is the whitespace before the content that is not printed yet.
+	 * Returns the whitespace at the end of the content.
+	 */
+	private formatContent(start: number, end: number, children: Node[], level: number, whitespace: string): string {
+		let offset = start;
+		for (const child of children) {
+			whitespace = this.formatText(offset, child.start, level, whitespace);
+			whitespace = this.formatNode(child, level, whitespace);
+			offset = child.end;
+		}
+		return this.formatText(offset, end, level, whitespace);
+	}
+
+	private formatNode(node: Node, level: number, whitespace: string): string {
+		if (!node.tag) {
+			// a '<' that doesn't start a tag: print it as text and the nodes that were parsed as its children as siblings
+			const tagEnd = node.startTagEnd !== undefined ? node.startTagEnd : node.children.length ? node.children[0].start : node.end;
+			whitespace = this.formatWords(this.text.substring(node.start, tagEnd), level, whitespace);
+			return this.formatContent(tagEnd, node.end, node.children, level, whitespace);
+		}
+		const tag = node.tag.toLowerCase();
+		this.printWhitespace(whitespace);
+		if (this.unformatted.indexOf(tag) !== -1) {
+			this.printer.print(this.text.substring(node.start, node.end), level);
+			return '';
+		}
+		const isInline = isInlineElement(tag);
+		if (!isInline) {
+			this.printer.newLine();
+		}
+		if (this.extraLiners.indexOf(tag) !== -1) {
+			this.printer.newLine(2);
+		}
+		const trailingWhitespace = this.formatStartTag(node, level);
+		if (node.startTagEnd === undefined) {
+			return trailingWhitespace;
+		}
+		const contentEnd = node.endTagStart !== undefined ? node.endTagStart : node.end;
+		let multiline = false;
+		whitespace = '';
+		if ((tag === 'script' || tag === 'style') && !node.children.length) {
+			multiline = this.formatEmbeddedContent(node, node.startTagEnd, contentEnd, level);
+		} else if (this.contentUnformatted.indexOf(tag) !== -1) {
+			this.printer.append(this.text.substring(node.startTagEnd, contentEnd));
+		} else {
+			const lineCount = this.printer.lineCount;
+			const contentLevel = tag === 'html' && !this.indentInnerHtml ? level : level + 1;
+			whitespace = this.formatContent(node.startTagEnd, contentEnd, node.children, contentLevel, '');
+			multiline = !isInline && this.printer.lineCount > lineCount;
+		}
+		if (node.endTagStart === undefined) {
+			// the whitespace at the end of an element without end tag is printed before the next node
+			return whitespace;
+		}
+		this.printWhitespace(whitespace);
+		if (multiline) {
+			this.printer.newLine();
+		}
+		if (this.extraLiners.indexOf('/' + tag) !== -1) {
+			this.printer.newLine(2);
+		}
+		let endTag = normalizeEndTag(this.text.substring(node.endTagStart, node.end));
+		if (this.isLowercaseTag(node) && endTag.substring(2, 2 + tag.length).toLowerCase() === tag) {
+			endTag = '</' + tag + endTag.substring(2 + tag.length);
+		}
+		this.printer.print(endTag, level);
+		return '';
+	}
+
+	/**
+	 * Prints the start tag. Returns the whitespace at the end of a start tag without closing bracket.
+	 */
+	private formatStartTag(node: Node, level: number): string {
+		const end = node.startTagEnd !== undefined ? node.startTagEnd : node.end;
+		const scanner = createScanner(this.text, node.start, ScannerState.WithinContent, true);
+		let parts: TagPart[] = [];
+		let whitespace = '';
+		let close = '';
+		let token = scanner.scan();
+		while (token !== TokenType.EOS && scanner.getTokenOffset() < end) {
+			const tokenText = scanner.getTokenText();
+			if (token === TokenType.StartTagClose || token === TokenType.StartTagSelfClose) {
+				close = token === TokenType.StartTagSelfClose && whitespace ? ' ' + tokenText : tokenText;
+				break;
+			}
+			if (token === TokenType.Whitespace) {
+				whitespace += tokenText;
+			} else {
+				const last = parts[parts.length - 1];
+				// tokens that are not separated by whitespace stay together, the whitespace around '=' is removed
+				if (!last || whitespace && token !== TokenType.DelimiterAssign && !(token === TokenType.AttributeValue && endsWith(last.text, '='))) {
+					parts.push({ whitespace, text: tokenText });
+				} else {
+					last.text += tokenText;
+				}
+				whitespace = '';
+			}
+			token = scanner.scan();
+		}
+		if (!parts.length) {
+			return whitespace;
+		}
+		const printer = this.printer;
+		const tag = node.tag!.toLowerCase();
+		const tagName = parts[0].text === '<' + node.tag && this.isLowercaseTag(node) ? '<' + tag : parts[0].text;
+		let attributes = parts.slice(1).map(part => ({ whitespace: part.whitespace, text: this.formatAttribute(tag, part.text) }));
+		if (this.sortAttributes) {
+			attributes = this.sortAttributeParts(attributes);
+		}
+		parts = [{ whitespace: '', text: tagName }, ...attributes];
+		const tabSize = printer.options.tabSize;
+
+		printer.print(tagName, level, getWidth(parts.map(part => part.text).join(' ') + close, tabSize));
+
+		const wrap = this.wrapAttributes;
+		const forceWrap = attributes.length > 1 && (wrap === 'force' || wrap === 'force-aligned' || wrap === 'force-expand-multiline');
+		const expand = forceWrap && wrap === 'force-expand-multiline';
+		const preserve = wrap === 'preserve' || wrap === 'preserve-aligned';
+		const tagIndent = printer.getIndent(level);
+		let attributeIndent: string;
+		if (wrap === 'force-aligned' || wrap === 'aligned-multiple' || wrap === 'preserve-aligned') {
+			attributeIndent = tagIndent + repeat(' ', Math.max(0, printer.column + 1 - getWidth(tagIndent, tabSize)));
+		} else {
+			attributeIndent = tagIndent + (this.wrapAttributesIndentSize !== undefined ? repeat(' ', this.wrapAttributesIndentSize) : printer.options.indentUnit);
+		}
+		attributes.forEach((attribute, index) => {
+			let wrapLine: boolean;
+			if (forceWrap) {
+				wrapLine = index > 0 || expand;
+			} else if (preserve) {
+				wrapLine = /[\r\n]/.test(attribute.whitespace);
+			} else {
+				const wrapLineLength = printer.options.wrapLineLength;
+				wrapLine = wrapLineLength > 0 && printer.column + 1 + getWidth(attribute.text, tabSize) > wrapLineLength;
+			}
+			printer.append(wrapLine ? printer.options.eol + attributeIndent : ' ');
+			printer.append(attribute.text);
+		});
+		if (expand && close) {
+			printer.append(printer.options.eol + tagIndent);
+			close = close.trim();
+		}
+		printer.append(close);
+		return close ? '' : whitespace;
+	}
+
+	private isLowercaseTag(node: Node): boolean {
+		const tag = node.tag;
+		return this.lowercaseTagNames && !!tag && tag !== tag.toLowerCase() && !!this.getTagData(tag.toLowerCase());
+	}
+
+	/**
+	 * Applies the name and value options to an attribute of the element `tag`. The names and boolean attributes are taken from the data providers.
+	 */
+	private formatAttribute(tag: string, text: string): string {
+		const match = /^([^=]+)(?:=([\s\S]+))?$/.exec(text);
+		if (!match) {
+			return text;
+		}
+		let name = match[1];
+		let value: string | undefined = match[2];
+		const attributeData = this.getAttributeData(tag, name.toLowerCase());
+		if (attributeData && this.lowercaseAttributeNames) {
+			name = name.toLowerCase();
+		}
+		if (value !== undefined && attributeData && attributeData.valueSet === 'v' && this.collapseBooleanAttributes) {
+			const unquoted = trimQuotes(value);
+			if (!unquoted || unquoted.toLowerCase() === name.toLowerCase()) {
+				value = undefined;
+			}
+		}
+		if (value !== undefined && this.attributeQuotes !== 'preserve') {
+			value = requote(value, this.attributeQuotes === 'single' ? '\'' : '"');
+		}
+		return value !== undefined ? name + '=' + value : name;
+	}
+
+	private getAttributeData(tag: string, name: string): IAttributeData | undefined {
+		if (!this.attributeData.hasOwnProperty(tag)) {
+			const attributes: { [name: string]: IAttributeData } = {};
+			this.dataProviders.forEach(provider => {
+				provider.provideAttributes(tag).forEach(attribute => {
+					const attributeName = attribute.name.toLowerCase();
+					if (!attributes.hasOwnProperty(attributeName)) {
+						attributes[attributeName] = attribute;
+					}
+				});
+			});
+			this.attributeData[tag] = attributes;
+		}
+		const attributes = this.attributeData[tag];
+		return attributes.hasOwnProperty(name) ? attributes[name] : undefined;
+	}
+
+	/**
+	 * Sorts the attributes by the index of their group in `attributeGroups`, keeping the order within the groups.
+	 * Attributes with template expressions are not sorted.
+	 */
+	private sortAttributeParts(attributes: TagPart[]): TagPart[] {
+		if (attributes.some(attribute => TEMPLATE_DELIMITERS.some(delimiters => attribute.text.indexOf(delimiters[0]) !== -1))) {
+			return attributes;
+		}
+		return attributes
+			.map((attribute, index) => ({ attribute, index, group: this.getAttributeGroup(attribute.text.split('=')[0].toLowerCase()) }))
+			.sort((a, b) => a.group - b.group || a.index - b.index)
+			.map(entry => entry.attribute);
+	}
+
+	private getAttributeGroup(name: string): number {
+		let otherGroup = -1;
+		for (let i = 0; i < this.attributeGroups.length; i++) {
+			for (const pattern of this.attributeGroups[i]) {
+				if (pattern === '*') {
+					if (otherGroup === -1) {
+						otherGroup = i;
+					}
+				} else if (endsWith(pattern, '*') ? startsWith(name, pattern.substring(0, pattern.length - 1)) : name === pattern) {
+					return i;
+				}
+			}
+		}
+		return otherGroup !== -1 ? otherGroup : this.attributeGroups.length;
+	}
+
+	/**
+	 * Formats the content of a script or style element with the embedded formatter of its language, if any. The lines are indented
+	 * according to `indentScripts`, keeping their relative indentation. Returns whether the content spans multiple lines.
+	 */
+	private formatEmbeddedContent(node: Node, start: number, end: number, level: number): boolean {
+		const printer = this.printer;
+		const contentLevel = this.indentScripts === 'keep' ? level : this.indentScripts === 'separate' ? 0 : level + 1;
+		let content = this.text.substring(start, end);
+		const languageId = getEmbeddedLanguage(node);
+		const formatter = languageId && this.embeddedFormatters.hasOwnProperty(languageId) ? this.embeddedFormatters[languageId] : undefined;
+		if (formatter && content.trim()) {
+			const document = TextDocument.create(this.uri, languageId!, 0, content);
+			const options = { tabSize: printer.options.tabSize, insertSpaces: printer.options.indentUnit !== '\t', baseIndent: printer.getIndent(contentLevel) };
+			try {
+				// the formatted content starts on a new line
+				content = printer.options.eol + TextDocument.applyEdits(document, formatter(document, options));
+			} catch (e) {
+				// the content is only re-indented if the formatter fails
+			}
+		}
+		const lines = content.split(/\r\n|\r|\n/);
+		if (lines.length === 1) {
+			printer.append(content);
+			return false;
+		}
+		const tabSize = printer.options.tabSize;
+		const firstLine = lines.shift()!.trim();
+		let minIndent = Number.MAX_VALUE;
+		for (const line of lines) {
+			if (line.trim()) {
+				minIndent = Math.min(minIndent, getWidth(getLeadingWhitespace(line), tabSize));
+			}
+		}
+		if (firstLine) {
+			printer.newLine();
+			printer.print(firstLine, contentLevel);
+		}
+		let newLines = 1;
+		for (const line of lines) {
+			const trimmed = line.trim();
+			if (!trimmed) {
+				newLines++;
+				continue;
+			}
+			printer.newLine(newLines);
+			printer.print(this.getRelativeIndent(getWidth(getLeadingWhitespace(line), tabSize) - minIndent) + trimmed, contentLevel);
+			newLines = 1;
+		}
+		return true;
+	}
+
+	/**
+	 * Formats the text, comments, doctypes and stray end tags between `start` and `end`. Returns the whitespace at the end.
+	 */
+	private formatText(start: number, end: number, level: number, whitespace: string): string {
+		if (start >= end) {
+			return whitespace;
+		}
+		const scanner = createScanner(this.text, start);
+		let token = scanner.scan();
+		while (token !== TokenType.EOS && scanner.getTokenOffset() < end) {
+			const offset = scanner.getTokenOffset();
+			let closing: TokenType | undefined;
+			switch (token) {
+				case TokenType.StartCommentTag: closing = TokenType.EndCommentTag; break;
+				case TokenType.StartDoctypeTag: closing = TokenType.EndDoctypeTag; break;
+				case TokenType.EndTagOpen: closing = TokenType.EndTagClose; break;
+			}
+			if (closing !== undefined) {
+				const isDoctype = token === TokenType.StartDoctypeTag;
+				while (token !== closing && token !== TokenType.EOS && scanner.getTokenEnd() < end) {
+					token = scanner.scan();
+				}
+				const raw = this.text.substring(offset, Math.min(scanner.getTokenEnd(), end));
+				this.printWhitespace(whitespace);
+				whitespace = '';
+				if (isDoctype) {
+					this.printer.newLine();
+					this.printer.print(raw, level);
+					this.printer.newLine();
+				} else {
+					this.printer.print(closing === TokenType.EndTagClose ? normalizeEndTag(raw) : raw, level);
+				}
+			} else {
+				whitespace = this.formatWords(this.text.substring(offset, Math.min(scanner.getTokenEnd(), end)), level, whitespace);
+			}
+			token = scanner.scan();
+		}
+		return whitespace;
+	}
+
+	/**
+	 * Prints the words of the text. Returns the whitespace at the end.
+	 */
+	private formatWords(text: string, level: number, whitespace: string): string {
+		let offset = 0;
+		while (true) {
+			const wordStart = skipWhitespace(text, offset);
+			whitespace += text.substring(offset, wordStart);
+			if (wordStart === text.length) {
+				return whitespace;
+			}
+			offset = this.getWordEnd(text, wordStart);
+			this.printWord(text.substring(wordStart, offset), level, whitespace);
+			whitespace = '';
+		}
+	}
+
+	private printWord(word: string, level: number, whitespace: string) {
+		const printer = this.printer;
+		if (this.indentHandlebars) {
+			if (/^\{\{[#^]/.test(word)) {
+				printer.newLine();
+				printer.print(word, level);
+				printer.indentOffset++;
+				printer.newLine();
+				return;
+			}
+			if (/^\{\{\//.test(word)) {
+				printer.indentOffset = Math.max(0, printer.indentOffset - 1);
+				printer.newLine();
+				printer.print(word, level);
+				printer.newLine();
+				return;
+			}
+			if (/^\{\{\s*else\b/.test(word)) {
+				printer.newLine();
+				printer.print(word, level - 1);
+				printer.newLine();
+				return;
+			}
+		}
+		this.printWhitespace(whitespace);
+		printer.print(word, level);
+	}
+
+	/**
+	 * Returns the end of the word starting at `offset`. Template expressions and unformatted content are part of the word, including their whitespace.
+	 */
+	private getWordEnd(text: string, offset: number): number {
+		const delimiter = this.unformattedContentDelimiter;
+		while (offset < text.length && !isWhitespaceOrEOL(text, offset)) {
+			let closing: string | undefined;
+			let opening = '';
+			if (delimiter && text.substr(offset, delimiter.length) === delimiter) {
+				opening = closing = delimiter;
+			} else {
+				for (const [open, close] of this.templateDelimiters) {
+					if (text.substr(offset, open.length) === open) {
+						opening = open;
+						closing = close;
+						break;
+					}
+				}
+			}
+			if (closing !== undefined) {
+				const closingOffset = text.indexOf(closing, offset + opening.length);
+				offset = closingOffset === -1 ? text.length : closingOffset + closing.length;
+			} else {
+				offset++;
+			}
+		}
+		return offset;
+	}
+
+	private printWhitespace(whitespace: string) {
+		if (!whitespace) {
+			return;
+		}
+		const newLines = this.preserveNewLines ? Math.min(whitespace.split(/\r\n|\r|\n/).length - 1, this.maxPreserveNewLines) : 0;
+		if (newLines > 0) {
+			this.printer.newLine(newLines);
+		} else {
+			this.printer.space();
+		}
+	}
+
+	private getRelativeIndent(width: number): string {
+		const options = this.printer.options;
+		if (options.indentUnit === '\t') {
+			return repeat('\t', Math.floor(width / options.tabSize)) + repeat(' ', width % options.tabSize);
+		}
+		return repeat(' ', width);
+	}
+}
+
+/**
+ * Returns the start of the tag, comment or doctype that contains `offset`, or `offset` if it is in content.
+ */
+function getConstructStart(text: string, offset: number): number {
+	const scanner = createScanner(text, 0, ScannerState.WithinContent, true);
+	let constructStart = -1;
+	let token = scanner.scan();
+	while (token !== TokenType.EOS && scanner.getTokenOffset() < offset) {
+		switch (token) {
+			case TokenType.StartTagOpen:
+			case TokenType.EndTagOpen:
+			case TokenType.StartCommentTag:
+			case TokenType.StartDoctypeTag:
+				constructStart = scanner.getTokenOffset();
+				break;
+			case TokenType.StartTagClose:
+			case TokenType.StartTagSelfClose:
+			case TokenType.EndTagClose:
+			case TokenType.EndCommentTag:
+			case TokenType.EndDoctypeTag:
+				if (scanner.getTokenEnd() <= offset) {
+					constructStart = -1;
+				}
+				break;
+		}
+		token = scanner.scan();
+	}
+	return constructStart !== -1 ? constructStart : offset;
+}
+
+/**
+ * The language of the content of a script or style element, undefined if it is not a known language.
+ */
+function getEmbeddedLanguage(node: Node): string | undefined {
+	const type = node.getAttribute('type');
+	const typeValue = type && type.value ? trimQuotes(type.value).trim().toLowerCase() : '';
+	return node.tag!.toLowerCase() === 'style' ? getStyleLanguage(typeValue) : getScriptLanguage(typeValue);
+}
+
+/**
+ * Changes the quotes of an attribute value to `quote`. Unquoted values get quoted, values that contain `quote` are not changed.
+ */
+function requote(value: string, quote: string): string {
+	const first = value.charAt(0);
+	const quoted = value.length >= 2 && (first === '"' || first === '\'') && value.charAt(value.length - 1) === first;
+	const content = quoted ? value.substring(1, value.length - 1) : value;
+	if (!quoted && !/^[^\s"'`=<>]+$/.test(value) || content.indexOf(quote) !== -1) {
+		return value;
+	}
+	return quote + content + quote;
+}
+
+function normalizeEndTag(endTag: string): string {
+	return endTag.replace(/^(<\/[^\s>]*)\s+>$/, '$1>');
+}
+
+/**
+ * The width of the first line of the text, with tabs expanded to `tabSize` columns.
+ */
+function getWidth(text: string, tabSize: number): number {
+	let width = 0;
+	for (let i = 0; i < text.length; i++) {
+		const ch = text.charAt(i);
+		if (ch === '\r' || ch === '\n') {
+			break;
+		}
+		width += ch === '\t' ? tabSize : 1;
+	}
+	return width;
+}
+
+function getLeadingWhitespace(line: string): string {
+	return line.substring(0, skipWhitespace(line, 0));
+}
+
+function skipWhitespace(text: string, offset: number): number {
+	while (offset < text.length && isWhitespaceOrEOL(text, offset)) {
+		offset++;
+	}
+	return offset;
 }
 
 function getFormatOption(options: HTMLFormatConfiguration, key: keyof HTMLFormatConfiguration, dflt: any): any {
@@ -111,7 +980,7 @@ function getFormatOption(options: HTMLFormatConfiguration, key: keyof HTMLFormat
 	return dflt;
 }
 
-function getTagsFormatOption(options: HTMLFormatConfiguration, key: keyof HTMLFormatConfiguration, dflt: string[] | undefined): string[] | undefined {
+function getTagsFormatOption(options: HTMLFormatConfiguration, key: keyof HTMLFormatConfiguration, dflt: string[]): string[] {
 	const list = <string>getFormatOption(options, key, null);
 	if (typeof list === 'string') {
 		if (list.length > 0) {
@@ -122,14 +991,6 @@ function getTagsFormatOption(options: HTMLFormatConfiguration, key: keyof HTMLFo
 	return dflt;
 }
 
-function getTemplatingFormatOption(options: HTMLFormatConfiguration, dflt: string): ('auto' | 'none' | 'django' | 'erb' | 'handlebars' | 'php')[] | undefined {
-	const value = getFormatOption(options, 'templating', dflt);
-	if (value === true) {
-		return ['auto'];
-	}
-	return ['none'];
-}
-
 function computeIndentLevel(content: string, offset: number, options: HTMLFormatConfiguration): number {
 	let i = offset;
 	let nChars = 0;
@@ -168,3 +1029,7 @@ function isEOL(text: string, offset: number) {
 function isWhitespace(text: string, offset: number) {
 	return ' \t'.indexOf(text.charAt(offset)) !== -1;
 }
+
+function isWhitespaceOrEOL(text: string, offset: number) {
+	return ' \t\r\n\f'.indexOf(text.charAt(offset)) !== -1;
+}
@@ -4,8 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { HTMLDocument } from '../parser/htmlParser';
-import { createScanner } from '../parser/htmlScanner';
-import { TokenType, TextDocument, Range, Position, DocumentHighlightKind, DocumentHighlight } from '../htmlLanguageTypes';
+import { TextDocument, Range, Position, DocumentHighlightKind, DocumentHighlight } from '../htmlLanguageTypes';
 
 export function findDocumentHighlights(document: TextDocument, position: Position, htmlDocument: HTMLDocument): DocumentHighlight[] {
 	const offset = document.offsetAt(position);
@@ -14,8 +13,8 @@ export function findDocumentHighlights(document: TextDocument, position: Positio
 		return [];
 	}
 	const result = [];
-	const startTagRange = getTagNameRange(TokenType.StartTag, document, node.start);
-	const endTagRange = typeof node.endTagStart === 'number' && getTagNameRange(TokenType.EndTag, document, node.endTagStart);
+	const startTagRange = getTagNameRange(document, node.start + '<'.length, node.tag);
+	const endTagRange = typeof node.endTagStart === 'number' && getTagNameRange(document, node.endTagStart + '</'.length, node.tag);
 	if (startTagRange && covers(startTagRange, position) || endTagRange && covers(endTagRange, position)) {
 		if (startTagRange) {
 			result.push({ kind: DocumentHighlightKind.Read, range: startTagRange });
@@ -35,14 +34,6 @@ function covers(range: Range, position: Position) {
 	return isBeforeOrEqual(range.start, position) && isBeforeOrEqual(position, range.end);
 }
 
-function getTagNameRange(tokenType: TokenType, document: TextDocument, startOffset: number): Range | null {
-	const scanner = createScanner(document.getText(), startOffset);
-	let token = scanner.scan();
-	while (token !== TokenType.EOS && token !== tokenType) {
-		token = scanner.scan();
-	}
-	if (token !== TokenType.EOS) {
-		return { start: document.positionAt(scanner.getTokenOffset()), end: document.positionAt(scanner.getTokenEnd()) };
-	}
-	return null;
+function getTagNameRange(document: TextDocument, tagNameStart: number, tag: string): Range {
+	return { start: document.positionAt(tagNameStart), end: document.positionAt(tagNameStart + tag.length) };
 }
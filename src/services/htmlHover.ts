@@ -3,14 +3,15 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { HTMLDocument } from '../parser/htmlParser';
+import { HTMLDocument, Node } from '../parser/htmlParser';
 import { createScanner } from '../parser/htmlScanner';
-import { TokenType, LanguageServiceOptions, HoverSettings, TextDocument, Range, Position, Hover, MarkedString, MarkupContent, MarkupKind } from '../htmlLanguageTypes';
+import { TokenType, LanguageServiceOptions, HoverSettings, TextDocument, Range, Position, Hover, MarkedString, MarkupContent, MarkupKind, IAttributeData, IValueData } from '../htmlLanguageTypes';
 import { HTMLDataManager } from '../languageFacts/dataManager';
 import { isDefined } from '../utils/object';
 import { generateDocumentation } from '../languageFacts/dataProvider';
 import { entities } from '../parser/htmlEntities';
-import { isLetterOrDigit } from '../utils/strings';
+import { isLetterOrDigit, startsWith, trimQuotes } from '../utils/strings';
+import { getElementRole, isAriaAttribute, isAriaAttributeSupported, isAriaAttributeRequired } from '../languageFacts/aria';
 import * as nls from 'vscode-nls';
 const localize = nls.loadMessageBundle();
 
@@ -62,8 +63,12 @@ export class HTMLHover {
 				let hover: Hover | null = null;
 
 				provider.provideAttributes(currTag).forEach(attr => {
-					if (currAttr === attr.name && attr.description) {
+					if (currAttr === attr.name && isDocumented(attr)) {
 						const contentsDoc = generateDocumentation(attr, options, doesSupportMarkdown);
+						const roleNote = getAriaRoleNote(node, attr.name);
+						if (contentsDoc && roleNote) {
+							contentsDoc.value = roleNote + '\n\n' + contentsDoc.value;
+						}
 						if (contentsDoc) {
 							hover = { contents: contentsDoc, range };
 						} else {
@@ -85,7 +90,7 @@ export class HTMLHover {
 				let hover: Hover | null = null;
 
 				provider.provideValues(currTag, currAttr).forEach(attrValue => {
-					if (currAttrValue === attrValue.name && attrValue.description) {
+					if (currAttrValue === attrValue.name && isDocumented(attrValue)) {
 						const contentsDoc = generateDocumentation(attrValue, options, doesSupportMarkdown);
 						if (contentsDoc) {
 							hover = { contents: contentsDoc, range };
@@ -219,11 +224,12 @@ export class HTMLHover {
 			return getTagHover(node.tag, tagRange, true);
 		}
 
-		const attrRange = getTagNameRange(TokenType.AttributeName, node.start);
-		if (attrRange) {
-			const tag = node.tag;
-			const attr = document.getText(attrRange);
-			return getAttrHover(tag, attr, attrRange);
+		const attributes = node.getAttributes();
+		for (const attribute of attributes) {
+			if (attribute.nameStart <= offset && offset <= attribute.nameEnd) {
+				const attrRange = Range.create(document.positionAt(attribute.nameStart), document.positionAt(attribute.nameEnd));
+				return getAttrHover(node.tag, attribute.name, attrRange);
+			}
 		}
 
 		const entityRange = getEntityRange();
@@ -231,28 +237,10 @@ export class HTMLHover {
 			return getEntityHover(text, entityRange);
 		}
 
-		function scanAttrAndAttrValue(nodeStart: number, attrValueStart: number) {
-			const scanner = createScanner(document.getText(), nodeStart);
-			let token = scanner.scan();
-			let prevAttr = undefined;
-			while (token !== TokenType.EOS && (scanner.getTokenEnd() <= attrValueStart)) {
-				token = scanner.scan();
-				if (token === TokenType.AttributeName) {
-					prevAttr = scanner.getTokenText();
-				}
-			}
-
-			return prevAttr;
-		}
-
-		const attrValueRange = getTagNameRange(TokenType.AttributeValue, node.start);
-		if (attrValueRange) {
-			const tag = node.tag;
-			const attrValue = trimQuotes(document.getText(attrValueRange));
-			const matchAttr = scanAttrAndAttrValue(node.start, document.offsetAt(attrValueRange.start));
-
-			if (matchAttr) {
-				return getAttrValueHover(tag, matchAttr, attrValue, attrValueRange);
+		for (const attribute of attributes) {
+			if (attribute.value !== null && attribute.valueStart !== undefined && attribute.valueEnd !== undefined && attribute.valueStart <= offset && offset <= attribute.valueEnd) {
+				const attrValueRange = Range.create(document.positionAt(attribute.valueStart), document.positionAt(attribute.valueEnd));
+				return getAttrValueHover(node.tag, attribute.name, trimQuotes(attribute.value), attrValueRange);
 			}
 		}
 
@@ -300,19 +288,23 @@ export class HTMLHover {
 	}
 }
 
-function trimQuotes(s: string) {
-	if (s.length <= 1) {
-		return s.replace(/['"]/, '');
-	}
+function isDocumented(entry: IAttributeData | IValueData): boolean {
+	return !!(entry.description || entry.status || entry.baseline || entry.browsers);
+}
 
-	if (s[0] === `'` || s[0] === `"`) {
-		s = s.slice(1);
+/**
+ * Whether the element's role requires or does not support the given `aria-*` attribute.
+ */
+function getAriaRoleNote(node: Node, attribute: string): string | undefined {
+	const role = getElementRole(node);
+	if (!role || !startsWith(attribute.toLowerCase(), 'aria-') || !isAriaAttribute(attribute)) {
+		return undefined;
 	}
-
-	if (s[s.length - 1] === `'` || s[s.length - 1] === `"`) {
-		s = s.slice(0, -1);
+	if (!isAriaAttributeSupported(role, attribute)) {
+		return localize('aria.unsupported', "Not supported by role '{0}'.", role);
 	}
-
-	return s;
+	if (isAriaAttributeRequired(role, attribute)) {
+		return localize('aria.required', "Required by role '{0}'.", role);
+	}
+	return undefined;
 }
-
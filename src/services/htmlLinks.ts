@@ -3,11 +3,11 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { createScanner } from '../parser/htmlScanner';
+import { HTMLDocument, Node } from '../parser/htmlParser';
 import * as strings from '../utils/strings';
 import { URI as Uri } from 'vscode-uri';
 
-import { TokenType, DocumentContext, TextDocument, Range, DocumentLink } from '../htmlLanguageTypes';
+import { DocumentContext, TextDocument, Range, DocumentLink } from '../htmlLanguageTypes';
 
 function normalizeRef(url: string): string {
 	const first = url[0];
@@ -80,52 +80,46 @@ function isValidURI(uri: string) {
 	}
 }
 
-export function findDocumentLinks(document: TextDocument, documentContext: DocumentContext): DocumentLink[] {
+export function findDocumentLinks(document: TextDocument, documentContext: DocumentContext, htmlDocument: HTMLDocument): DocumentLink[] {
 	const newLinks: DocumentLink[] = [];
 
-	const scanner = createScanner(document.getText(), 0);
-	let token = scanner.scan();
-	let lastAttributeName: string | undefined = undefined;
 	let afterBase = false;
 	let base: string | undefined = void 0;
 	const idLocations: { [id: string]: number | undefined } = {};
 
-	while (token !== TokenType.EOS) {
-		switch (token) {
-			case TokenType.StartTag:
-				if (!base) {
-					const tagName = scanner.getTokenText().toLowerCase();
-					afterBase = tagName === 'base';
-				}
-				break;
-			case TokenType.AttributeName:
-				lastAttributeName = scanner.getTokenText().toLowerCase();
-				break;
-			case TokenType.AttributeValue:
-				if (lastAttributeName === 'src' || lastAttributeName === 'href') {
-					const attributeValue = scanner.getTokenText();
-					if (!afterBase) { // don't highlight the base link itself
-						const link = createLink(document, documentContext, attributeValue, scanner.getTokenOffset(), scanner.getTokenEnd(), base);
-						if (link) {
-							newLinks.push(link);
-						}
+	const visit = (node: Node) => {
+		if (node.tag !== undefined && !base) {
+			afterBase = node.tag.toLowerCase() === 'base';
+		}
+		for (const attribute of node.getAttributes()) {
+			const attributeValue = attribute.value;
+			if (attributeValue === null || attribute.valueStart === undefined || attribute.valueEnd === undefined) {
+				continue;
+			}
+			const attributeName = attribute.name.toLowerCase();
+			if (attributeName === 'src' || attributeName === 'href') {
+				if (!afterBase) { // don't highlight the base link itself
+					const link = createLink(document, documentContext, attributeValue, attribute.valueStart, attribute.valueEnd, base);
+					if (link) {
+						newLinks.push(link);
 					}
-					if (afterBase && typeof base === 'undefined') {
-						base = normalizeRef(attributeValue);
-						if (base && documentContext) {
-							base = documentContext.resolveReference(base, document.uri);
-						}
+				}
+				if (afterBase && typeof base === 'undefined') {
+					base = normalizeRef(attributeValue);
+					if (base && documentContext) {
+						base = documentContext.resolveReference(base, document.uri);
 					}
-					afterBase = false;
-					lastAttributeName = undefined;
-				} else if (lastAttributeName === 'id') {
-					const id = normalizeRef(scanner.getTokenText());
-					idLocations[id] = scanner.getTokenOffset();
 				}
-				break;
+				afterBase = false;
+			} else if (attributeName === 'id') {
+				const id = normalizeRef(attributeValue);
+				idLocations[id] = attribute.valueStart;
+			}
 		}
-		token = scanner.scan();
-	}
+		node.children.forEach(visit);
+	};
+	htmlDocument.roots.forEach(visit);
+
 	// change local links with ids to actual positions
 	for (const link of newLinks) {
 		const localWithHash = document.uri + '#';
@@ -0,0 +1,140 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { HTMLDocument, Node } from '../parser/htmlParser';
+import { TextDocument, Position, Location, Range, NodeAttribute } from '../htmlLanguageTypes';
+
+// attributes whose value is an id or a space separated list of ids
+const idReferenceAttributes: { [attribute: string]: boolean } = {
+	'for': true,
+	'form': true,
+	'list': true,
+	'headers': true,
+	'itemref': true,
+	'popovertarget': true,
+	'commandfor': true,
+	'aria-activedescendant': true,
+	'aria-controls': true,
+	'aria-describedby': true,
+	'aria-details': true,
+	'aria-errormessage': true,
+	'aria-flowto': true,
+	'aria-labelledby': true,
+	'aria-owns': true
+};
+
+// attributes whose value is a URL that references an id by its fragment, e.g. `href="#top"`
+const fragmentAttributes: { [attribute: string]: boolean } = {
+	'href': true,
+	'usemap': true
+};
+
+export interface IdSymbol {
+	id: string;
+	start: number;
+	end: number;
+	isDeclaration: boolean;
+}
+
+/**
+ * Returns the id declarations (`id` attributes) and the id references (IDREF attributes and fragment links) of the document, in document order.
+ */
+export function getIdSymbols(htmlDocument: HTMLDocument): IdSymbol[] {
+	const result: IdSymbol[] = [];
+	const visitNode = (node: Node) => {
+		result.push(...getNodeIdSymbols(node));
+		node.children.forEach(visitNode);
+	};
+	htmlDocument.roots.forEach(visitNode);
+	return result;
+}
+
+/**
+ * Returns the id declaration or reference at the given offset.
+ */
+export function getIdSymbolAt(htmlDocument: HTMLDocument, offset: number): IdSymbol | undefined {
+	const node = htmlDocument.findNodeAt(offset);
+	for (const symbol of getNodeIdSymbols(node)) {
+		if (symbol.start <= offset && offset <= symbol.end) {
+			return symbol;
+		}
+	}
+	return undefined;
+}
+
+export function findDefinition(document: TextDocument, position: Position, htmlDocument: HTMLDocument): Location | null {
+	const symbol = getIdSymbolAt(htmlDocument, document.offsetAt(position));
+	if (!symbol) {
+		return null;
+	}
+	for (const s of getIdSymbols(htmlDocument)) {
+		if (s.isDeclaration && s.id === symbol.id) {
+			return Location.create(document.uri, getRange(document, s));
+		}
+	}
+	return null;
+}
+
+export function findReferences(document: TextDocument, position: Position, htmlDocument: HTMLDocument): Location[] {
+	const symbol = getIdSymbolAt(htmlDocument, document.offsetAt(position));
+	if (!symbol) {
+		return [];
+	}
+	return getIdSymbols(htmlDocument).filter(s => s.id === symbol.id).map(s => Location.create(document.uri, getRange(document, s)));
+}
+
+function getRange(document: TextDocument, symbol: IdSymbol): Range {
+	return Range.create(document.positionAt(symbol.start), document.positionAt(symbol.end));
+}
+
+function getNodeIdSymbols(node: Node): IdSymbol[] {
+	const result: IdSymbol[] = [];
+	if (!node.tag) {
+		return result;
+	}
+	for (const attribute of node.getAttributes()) {
+		const name = attribute.name.toLowerCase();
+		if (name === 'id') {
+			const value = getAttributeValue(attribute);
+			const id = value && value.text.trim();
+			if (value && id) {
+				const start = value.start + value.text.indexOf(id);
+				result.push({ id, start, end: start + id.length, isDeclaration: true });
+			}
+		} else if (idReferenceAttributes[name]) {
+			const value = getAttributeValue(attribute);
+			if (value) {
+				const idPattern = /\S+/g;
+				let match: RegExpExecArray | null;
+				while (match = idPattern.exec(value.text)) {
+					const start = value.start + match.index;
+					result.push({ id: match[0], start, end: start + match[0].length, isDeclaration: false });
+				}
+			}
+		} else if (fragmentAttributes[name]) {
+			const value = getAttributeValue(attribute);
+			const match = value && /^\s*#([^\s#]+)\s*$/.exec(value.text);
+			if (value && match) {
+				const start = value.start + value.text.indexOf('#') + 1;
+				result.push({ id: match[1], start, end: start + match[1].length, isDeclaration: false });
+			}
+		}
+	}
+	return result;
+}
+
+/**
+ * Returns the attribute value without quotes and its offset.
+ */
+function getAttributeValue(attribute: NodeAttribute): { text: string; start: number } | undefined {
+	if (attribute.value === null || attribute.valueStart === undefined) {
+		return undefined;
+	}
+	if (attribute.quote) {
+		const closed = attribute.value.length > 1 && attribute.value[attribute.value.length - 1] === attribute.quote;
+		return { text: attribute.value.substring(1, closed ? attribute.value.length - 1 : attribute.value.length), start: attribute.valueStart + 1 };
+	}
+	return { text: attribute.value, start: attribute.valueStart };
+}
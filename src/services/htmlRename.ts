@@ -3,8 +3,9 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { TextDocument, Position, WorkspaceEdit, Range, TextEdit } from '../htmlLanguageTypes';
+import { TextDocument, Position, WorkspaceEdit, Range, TextEdit, PrepareRenameResult } from '../htmlLanguageTypes';
 import { HTMLDocument, Node } from '../parser/htmlParser';
+import { getIdSymbols, getIdSymbolAt } from './htmlReferences';
 
 export function doRename(
   document: TextDocument,
@@ -13,6 +14,18 @@ export function doRename(
   htmlDocument: HTMLDocument
 ): WorkspaceEdit | null {
   const offset = document.offsetAt(position);
+
+  const idSymbol = getIdSymbolAt(htmlDocument, offset);
+  if (idSymbol) {
+    if (!newName || /\s/.test(newName)) {
+      return null; // ids can't contain whitespace
+    }
+    const idEdits = getIdSymbols(htmlDocument).filter(s => s.id === idSymbol.id).map(s => TextEdit.replace(Range.create(document.positionAt(s.start), document.positionAt(s.end)), newName));
+    return {
+      changes: { [document.uri.toString()]: idEdits }
+    };
+  }
+
   const node = htmlDocument.findNodeAt(offset);
 
   if (!node.tag) {
@@ -54,6 +67,30 @@ export function doRename(
   };
 }
 
+export function prepareRename(document: TextDocument, position: Position, htmlDocument: HTMLDocument): PrepareRenameResult | null {
+  const offset = document.offsetAt(position);
+
+  const idSymbol = getIdSymbolAt(htmlDocument, offset);
+  if (idSymbol) {
+    return {
+      range: Range.create(document.positionAt(idSymbol.start), document.positionAt(idSymbol.end)),
+      placeholder: idSymbol.id,
+      kind: 'id'
+    };
+  }
+
+  const node = htmlDocument.findNodeAt(offset);
+  if (!node.tag || !isWithinTagRange(node, offset, node.tag)) {
+    return null;
+  }
+  const tagNameStart = node.endTagStart && offset >= node.endTagStart ? node.endTagStart + '</'.length : node.start + '<'.length;
+  return {
+    range: Range.create(document.positionAt(tagNameStart), document.positionAt(tagNameStart + node.tag.length)),
+    placeholder: node.tag,
+    kind: 'tag'
+  };
+}
+
 function toLocString(p: Position) {
   return `(${p.line}, ${p.character})`;
 }
@@ -3,14 +3,13 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { createScanner } from '../parser/htmlScanner';
-import { parse, Node } from '../parser/htmlParser';
-import { TokenType, Range, Position, SelectionRange, TextDocument } from '../htmlLanguageTypes';
+import { HTMLDocument, Node } from '../parser/htmlParser';
+import { Range, Position, SelectionRange, TextDocument } from '../htmlLanguageTypes';
 
-export function getSelectionRanges(document: TextDocument, positions: Position[]): SelectionRange[] {
+export function getSelectionRanges(document: TextDocument, positions: Position[], htmlDocument: HTMLDocument): SelectionRange[] {
 
 	function getSelectionRange(position: Position): SelectionRange {
-		const applicableRanges = getApplicableRanges(document, position);
+		const applicableRanges = getApplicableRanges(document, position, htmlDocument);
 		let prev : [number, number] | undefined = undefined;
 		let current: SelectionRange | undefined = undefined;
 		for (let index = applicableRanges.length - 1; index >= 0; index--) {
@@ -32,10 +31,9 @@ export function getSelectionRanges(document: TextDocument, positions: Position[]
 	return positions.map(getSelectionRange);
 }
 
-function getApplicableRanges(document: TextDocument, position: Position): [number, number][] {
-	const htmlDoc = parse(document.getText());
+function getApplicableRanges(document: TextDocument, position: Position, htmlDocument: HTMLDocument): [number, number][] {
 	const currOffset = document.offsetAt(position);
-	const currNode = htmlDoc.findNodeAt(currOffset);
+	const currNode = htmlDocument.findNodeAt(currOffset);
 
 	let result = getAllParentTagRanges(currNode);
 
@@ -59,7 +57,7 @@ function getApplicableRanges(document: TextDocument, position: Position): [numbe
 			result.unshift([currNode.start + 1, currNode.startTagEnd - 1]);
 		}
 
-		const attributeLevelRanges = getAttributeLevelRanges(document, currNode, currOffset);
+		const attributeLevelRanges = getAttributeLevelRanges(currNode, currOffset);
 		result = attributeLevelRanges.concat(result);
 		return result;
 	}
@@ -79,7 +77,7 @@ function getApplicableRanges(document: TextDocument, position: Position): [numbe
 	 */
 	if (currNode.start < currOffset && currOffset < currNode.startTagEnd) {
 		result.unshift([currNode.start + 1, currNode.startTagEnd - 1]);
-		const attributeLevelRanges = getAttributeLevelRanges(document, currNode, currOffset);
+		const attributeLevelRanges = getAttributeLevelRanges(currNode, currOffset);
 		result = attributeLevelRanges.concat(result);
 		return result;
 	}
@@ -129,79 +127,50 @@ function getAllParentTagRanges(initialNode: Node): [number, number][] {
 	return result;
 }
 
-function getAttributeLevelRanges(document: TextDocument, currNode: Node, currOffset: number) : [number, number][] {
-	const currNodeRange = Range.create(document.positionAt(currNode.start), document.positionAt(currNode.end));
-	const currNodeText = document.getText(currNodeRange);
-	const relativeOffset = currOffset - currNode.start;
-
+function getAttributeLevelRanges(currNode: Node, currOffset: number) : [number, number][] {
 	/**
 	 * Tag level semantic selection
-	 */
-
-	const scanner = createScanner(currNodeText);
-	let token = scanner.scan();
-
-	/**
 	 * For text like
 	 * <div class="foo">bar</div>
 	 */
-	const positionOffset = currNode.start;
-
-	const result = [];
-
-	let isInsideAttribute = false;
-	let attrStart = -1;
-	while (token !== TokenType.EOS) {
-		switch (token) {
-			case TokenType.AttributeName: {
-				if (relativeOffset < scanner.getTokenOffset()) {
-					isInsideAttribute = false;
-					break;
-				}
+	const result: [number, number][] = [];
 
-				if (relativeOffset <= scanner.getTokenEnd()) {
-					// `class`
-					result.unshift([scanner.getTokenOffset(), scanner.getTokenEnd()]);
-				}
+	for (const attribute of currNode.getAttributes()) {
+		if (currOffset < attribute.nameStart) {
+			break;
+		}
 
-				isInsideAttribute = true;
-				attrStart = scanner.getTokenOffset();
-				break;
-			}
-			case TokenType.AttributeValue: {
-				if (!isInsideAttribute) {
-					break;
-				}
+		if (currOffset <= attribute.nameEnd) {
+			// `class`
+			result.unshift([attribute.nameStart, attribute.nameEnd]);
+		}
 
-				const valueText = scanner.getTokenText();
-				if (relativeOffset < scanner.getTokenOffset()) {
-					// `class="foo"`
-					result.push([attrStart, scanner.getTokenEnd()]);
-					break;
-				}
+		if (attribute.value === null || attribute.valueStart === undefined || attribute.valueEnd === undefined) {
+			continue;
+		}
 
-				if (relativeOffset >= scanner.getTokenOffset() && relativeOffset <= scanner.getTokenEnd()) {
-					// `"foo"`
-					result.unshift([scanner.getTokenOffset(), scanner.getTokenEnd()]);
+		const valueText = attribute.value;
+		if (currOffset < attribute.valueStart) {
+			// `class="foo"`
+			result.push([attribute.nameStart, attribute.valueEnd]);
+			continue;
+		}
 
-					// `foo`
-					if ((valueText[0] === `"` && valueText[valueText.length - 1] === `"`) || (valueText[0] === `'` && valueText[valueText.length - 1] === `'`)) {
-						if (relativeOffset >= scanner.getTokenOffset() + 1 && relativeOffset <= scanner.getTokenEnd() - 1) {
-							result.unshift([scanner.getTokenOffset() + 1, scanner.getTokenEnd() - 1]);
-						}
-					}
+		if (currOffset <= attribute.valueEnd) {
+			// `"foo"`
+			result.unshift([attribute.valueStart, attribute.valueEnd]);
 
-					// `class="foo"`
-					result.push([attrStart, scanner.getTokenEnd()]);
+			// `foo`
+			if ((valueText[0] === `"` && valueText[valueText.length - 1] === `"`) || (valueText[0] === `'` && valueText[valueText.length - 1] === `'`)) {
+				if (currOffset >= attribute.valueStart + 1 && currOffset <= attribute.valueEnd - 1) {
+					result.unshift([attribute.valueStart + 1, attribute.valueEnd - 1]);
 				}
-
-				break;
 			}
+
+			// `class="foo"`
+			result.push([attribute.nameStart, attribute.valueEnd]);
 		}
-		token = scanner.scan();
 	}
 
-	return result.map(pair => {
-		return [pair[0] + positionOffset, pair[1] + positionOffset];
-	});
-}
\ No newline at end of file
+	return result;
+}
@@ -0,0 +1,236 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { createScanner } from '../parser/htmlScanner';
+import { TokenType, TextDocument, Range, SemanticTokens, SemanticTokensDelta, SemanticTokensLegend, IHTMLDataProvider, ITagData, IAttributeData } from '../htmlLanguageTypes';
+import { HTMLDataManager } from '../languageFacts/dataManager';
+import { HTMLDocumentCache } from '../parser/htmlDocumentCache';
+import { isDeprecated } from '../languageFacts/dataProvider';
+import { startsWith } from '../utils/strings';
+
+const tokenTypes = ['element', 'attribute', 'attributeValue', 'comment'];
+const tokenModifiers = ['custom', 'unknown', 'data', 'eventHandler', 'deprecated'];
+
+const enum TokenTypes {
+	Element = 0,
+	Attribute = 1,
+	AttributeValue = 2,
+	Comment = 3
+}
+
+const enum TokenModifiers {
+	Custom = 1 << 0,
+	Unknown = 1 << 1,
+	Data = 1 << 2,
+	EventHandler = 1 << 3,
+	Deprecated = 1 << 4
+}
+
+// elements whose content is not HTML and is not described by the data providers
+const foreignElements: { [tag: string]: boolean } = {
+	svg: true,
+	math: true
+};
+
+interface SemanticToken {
+	start: number;
+	end: number;
+	type: TokenTypes;
+	modifiers: number;
+}
+
+export class HTMLSemanticTokens {
+
+	private previousResults: { [uri: string]: { resultId: string; data: number[] } } = {};
+	private nextResultId = 1;
+
+	constructor(private dataManager: HTMLDataManager, private documentCache: HTMLDocumentCache) {
+	}
+
+	getLegend(): SemanticTokensLegend {
+		return { tokenTypes: tokenTypes.slice(), tokenModifiers: tokenModifiers.slice() };
+	}
+
+	/**
+	 * Returns the semantic tokens of the document, or of the given range. The result of a request without range can be passed to `getSemanticTokensDelta`.
+	 */
+	getSemanticTokens(document: TextDocument, range?: Range): SemanticTokens {
+		const data = this.encodeTokens(document, range);
+		if (range) {
+			return { data };
+		}
+		const resultId = String(this.nextResultId++);
+		this.previousResults[document.uri] = { resultId, data };
+		return { resultId, data };
+	}
+
+	/**
+	 * Returns the changes to the semantic tokens since the result with `previousResultId`, or all tokens if that result is not known anymore.
+	 */
+	getSemanticTokensDelta(document: TextDocument, previousResultId: string): SemanticTokens | SemanticTokensDelta {
+		const previous = this.previousResults[document.uri];
+		if (!previous || previous.resultId !== previousResultId) {
+			return this.getSemanticTokens(document);
+		}
+		const { resultId, data } = this.getSemanticTokens(document);
+		const oldData = previous.data;
+		let prefix = 0;
+		while (prefix < oldData.length && prefix < data.length && oldData[prefix] === data[prefix]) {
+			prefix++;
+		}
+		if (prefix === oldData.length && prefix === data.length) {
+			return { resultId, edits: [] };
+		}
+		let suffix = 0;
+		while (suffix < oldData.length - prefix && suffix < data.length - prefix && oldData[oldData.length - 1 - suffix] === data[data.length - 1 - suffix]) {
+			suffix++;
+		}
+		return { resultId, edits: [{ start: prefix, deleteCount: oldData.length - prefix - suffix, data: data.slice(prefix, data.length - suffix) }] };
+	}
+
+	onDocumentRemoved(document: TextDocument): void {
+		delete this.previousResults[document.uri];
+	}
+
+	dispose(): void {
+		this.previousResults = {};
+	}
+
+	private encodeTokens(document: TextDocument, range?: Range): number[] {
+		const text = document.getText();
+		const rangeStart = range ? document.offsetAt(range.start) : 0;
+		const rangeEnd = range ? document.offsetAt(range.end) : text.length;
+
+		const data: number[] = [];
+		let previousLine = 0;
+		let previousCharacter = 0;
+		for (const token of this.documentCache.getDerivedData(document, 'semanticTokens', () => this.findTokens(document))) {
+			// tokens must not span lines
+			const linePattern = /[^\r\n]+/g;
+			const tokenText = text.substring(token.start, token.end);
+			let match: RegExpExecArray | null;
+			while (match = linePattern.exec(tokenText)) {
+				const start = token.start + match.index;
+				const end = start + match[0].length;
+				if (end <= rangeStart || start >= rangeEnd) {
+					continue;
+				}
+				const position = document.positionAt(start);
+				const deltaLine = position.line - previousLine;
+				const deltaCharacter = deltaLine === 0 ? position.character - previousCharacter : position.character;
+				data.push(deltaLine, deltaCharacter, end - start, token.type, token.modifiers);
+				previousLine = position.line;
+				previousCharacter = position.character;
+			}
+		}
+		return data;
+	}
+
+	private findTokens(document: TextDocument): SemanticToken[] {
+		const dataProviders = this.dataManager.getDataProviders().filter(p => p.isApplicable(document.languageId));
+		const knownTags: { [tag: string]: ITagData } = {};
+		const providerTags = dataProviders.map(provider => {
+			const tags: { [tag: string]: boolean } = {};
+			provider.provideTags().forEach(tag => {
+				const name = tag.name.toLowerCase();
+				tags[name] = true;
+				if (!knownTags.hasOwnProperty(name)) {
+					knownTags[name] = tag;
+				}
+			});
+			return tags;
+		});
+		const knownAttributes: { [tag: string]: { [attribute: string]: IAttributeData } } = {};
+		const getAttributeData = (tag: string, attribute: string): IAttributeData | undefined => {
+			if (!knownAttributes.hasOwnProperty(tag)) {
+				knownAttributes[tag] = getKnownAttributes(dataProviders, providerTags, tag);
+			}
+			return knownAttributes[tag].hasOwnProperty(attribute) ? knownAttributes[tag][attribute] : undefined;
+		};
+
+		const result: SemanticToken[] = [];
+		const scanner = createScanner(document.getText());
+		let tag = '';
+		let foreignDepth = 0;
+		let commentStart = -1;
+		let token = scanner.scan();
+		while (token !== TokenType.EOS) {
+			switch (token) {
+				case TokenType.StartTag:
+				case TokenType.EndTag: {
+					tag = scanner.getTokenText().toLowerCase();
+					let modifiers = 0;
+					if (foreignDepth === 0 && !foreignElements.hasOwnProperty(tag)) {
+						const tagData = knownTags.hasOwnProperty(tag) ? knownTags[tag] : undefined;
+						if (!tagData) {
+							modifiers |= tag.indexOf('-') !== -1 ? TokenModifiers.Custom : TokenModifiers.Unknown;
+						} else if (isDeprecated(tagData)) {
+							modifiers |= TokenModifiers.Deprecated;
+						}
+					}
+					if (token === TokenType.EndTag && foreignDepth > 0 && foreignElements.hasOwnProperty(tag)) {
+						foreignDepth--;
+					}
+					result.push({ start: scanner.getTokenOffset(), end: scanner.getTokenEnd(), type: TokenTypes.Element, modifiers });
+					break;
+				}
+				case TokenType.StartTagClose:
+					if (foreignElements.hasOwnProperty(tag)) {
+						foreignDepth++;
+					}
+					break;
+				case TokenType.AttributeName: {
+					const attribute = scanner.getTokenText().toLowerCase();
+					const attributeData = foreignDepth === 0 ? getAttributeData(tag, attribute) : undefined;
+					let modifiers = 0;
+					if (startsWith(attribute, 'data-')) {
+						modifiers |= TokenModifiers.Data;
+					} else if (/^on\w+$/.test(attribute)) {
+						modifiers |= TokenModifiers.EventHandler;
+					} else if (foreignDepth === 0 && !attributeData) {
+						modifiers |= TokenModifiers.Custom;
+					}
+					if (attributeData && isDeprecated(attributeData)) {
+						modifiers |= TokenModifiers.Deprecated;
+					}
+					result.push({ start: scanner.getTokenOffset(), end: scanner.getTokenEnd(), type: TokenTypes.Attribute, modifiers });
+					break;
+				}
+				case TokenType.AttributeValue:
+					result.push({ start: scanner.getTokenOffset(), end: scanner.getTokenEnd(), type: TokenTypes.AttributeValue, modifiers: 0 });
+					break;
+				case TokenType.StartCommentTag:
+					commentStart = scanner.getTokenOffset();
+					break;
+				case TokenType.EndCommentTag:
+					result.push({ start: commentStart, end: scanner.getTokenEnd(), type: TokenTypes.Comment, modifiers: 0 });
+					commentStart = -1;
+					break;
+			}
+			token = scanner.scan();
+		}
+		if (commentStart !== -1) {
+			result.push({ start: commentStart, end: scanner.getTokenEnd(), type: TokenTypes.Comment, modifiers: 0 });
+		}
+		return result;
+	}
+}
+
+/**
+ * The attributes of `tag`. Providers that don't define the tag are asked for the attributes of no tag, their global attributes, so that
+ * tag names like `constructor` don't reach lookups by tag name in the providers.
+ */
+function getKnownAttributes(dataProviders: IHTMLDataProvider[], providerTags: { [tag: string]: boolean }[], tag: string): { [attribute: string]: IAttributeData } {
+	const result: { [attribute: string]: IAttributeData } = {};
+	dataProviders.forEach((provider, i) => {
+		provider.provideAttributes(providerTags[i].hasOwnProperty(tag) ? tag : '').forEach(attribute => {
+			const name = attribute.name.toLowerCase();
+			if (!result.hasOwnProperty(name)) {
+				result[name] = attribute;
+			}
+		});
+	});
+	return result;
+}
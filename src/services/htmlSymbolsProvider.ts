@@ -3,8 +3,12 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { Location, Range, SymbolInformation, SymbolKind, TextDocument} from '../htmlLanguageTypes';
+import { Location, Range, SymbolInformation, SymbolKind, TextDocument, DocumentSymbol, DocumentSymbolsSettings } from '../htmlLanguageTypes';
 import { HTMLDocument, Node } from '../parser/htmlParser';
+import { trimQuotes } from '../utils/strings';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
 
 export function findDocumentSymbols(document: TextDocument, htmlDocument: HTMLDocument): SymbolInformation[] {
 	const symbols = <SymbolInformation[]>[];
@@ -16,6 +20,150 @@ export function findDocumentSymbols(document: TextDocument, htmlDocument: HTMLDo
 	return symbols;
 }
 
+const symbolKinds: { [tag: string]: SymbolKind } = {
+	h1: SymbolKind.Namespace,
+	h2: SymbolKind.Namespace,
+	h3: SymbolKind.Namespace,
+	h4: SymbolKind.Namespace,
+	h5: SymbolKind.Namespace,
+	h6: SymbolKind.Namespace,
+	header: SymbolKind.Module,
+	footer: SymbolKind.Module,
+	nav: SymbolKind.Module,
+	main: SymbolKind.Module,
+	aside: SymbolKind.Module,
+	section: SymbolKind.Module,
+	article: SymbolKind.Module,
+	search: SymbolKind.Module,
+	form: SymbolKind.Struct,
+	input: SymbolKind.Property,
+	select: SymbolKind.Property,
+	textarea: SymbolKind.Property,
+	button: SymbolKind.Property,
+	table: SymbolKind.Array,
+	ul: SymbolKind.Array,
+	ol: SymbolKind.Array,
+	dl: SymbolKind.Array,
+	script: SymbolKind.Function,
+	style: SymbolKind.Object
+};
+
+// values of the `role` attribute that make an element a landmark
+const landmarkRoles: { [role: string]: boolean } = {
+	banner: true,
+	complementary: true,
+	contentinfo: true,
+	form: true,
+	main: true,
+	navigation: true,
+	region: true,
+	search: true
+};
+
+export function findDocumentSymbols2(document: TextDocument, htmlDocument: HTMLDocument, settings?: DocumentSymbolsSettings): DocumentSymbol[] {
+	if (settings && settings.mode === 'headings') {
+		return provideHeadingSymbols(document, htmlDocument);
+	}
+	const filtered = !!settings && settings.mode === 'filtered';
+	const symbols: DocumentSymbol[] = [];
+	htmlDocument.roots.forEach(node => {
+		provideDocumentSymbolsInternal(document, node, filtered, symbols);
+	});
+	return symbols;
+}
+
+function provideDocumentSymbolsInternal(document: TextDocument, node: Node, filtered: boolean, symbols: DocumentSymbol[]): void {
+	const kind = getSymbolKind(node);
+	if (filtered && kind !== SymbolKind.Namespace && kind !== SymbolKind.Module && kind !== SymbolKind.Struct && !node.getAttribute('id')) {
+		// the children of elements left out are listed in the nearest listed ancestor
+		node.children.forEach(child => {
+			provideDocumentSymbolsInternal(document, child, filtered, symbols);
+		});
+		return;
+	}
+	const range = Range.create(document.positionAt(node.start), document.positionAt(node.end));
+	const tagNameStart = node.start + '<'.length;
+	const selectionRange = node.tag ? Range.create(document.positionAt(tagNameStart), document.positionAt(tagNameStart + node.tag.length)) : Range.create(range.start, range.start);
+	const children: DocumentSymbol[] = [];
+	node.children.forEach(child => {
+		provideDocumentSymbolsInternal(document, child, filtered, children);
+	});
+	symbols.push(DocumentSymbol.create(nodeToName(node), undefined, kind, range, selectionRange, children));
+}
+
+interface OpenHeading {
+	level: number;
+	start: number;
+	symbol: DocumentSymbol;
+}
+
+/**
+ * Builds the outline from the headings. A heading contains the following headings of lower rank up to the next heading of the same or higher rank.
+ * Headings in a `section` or `article` are contained in the heading preceding the element and are closed at the end of the element.
+ */
+function provideHeadingSymbols(document: TextDocument, htmlDocument: HTMLDocument): DocumentSymbol[] {
+	const text = document.getText();
+	const symbols: DocumentSymbol[] = [];
+	const openHeadings: OpenHeading[] = [];
+
+	const closeHeadings = (depth: number, end: number) => {
+		while (openHeadings.length > depth) {
+			const heading = openHeadings.pop()!;
+			heading.symbol.range = Range.create(document.positionAt(heading.start), document.positionAt(end));
+		}
+	};
+
+	const visitNode = (node: Node, sectionDepth: number) => {
+		const tag = node.tag && node.tag.toLowerCase();
+		const match = tag && /^h([1-6])$/.exec(tag);
+		if (match) {
+			const level = Number(match[1]);
+			while (openHeadings.length > sectionDepth && openHeadings[openHeadings.length - 1].level >= level) {
+				closeHeadings(openHeadings.length - 1, node.start);
+			}
+			const parent = openHeadings.length ? openHeadings[openHeadings.length - 1] : undefined;
+			const expectedLevel = parent ? parent.level + 1 : 1;
+			const detail = level > expectedLevel ? localize('symbols.skippedHeadingLevel', "Skipped heading level, expected h{0}", expectedLevel) : undefined;
+			const selectionRange = Range.create(document.positionAt(node.start), document.positionAt(node.end));
+			const symbol = DocumentSymbol.create(getHeadingText(text, node) || nodeToName(node), detail, SymbolKind.Namespace, selectionRange, selectionRange, []);
+			(parent ? parent.symbol.children! : symbols).push(symbol);
+			openHeadings.push({ level, start: node.start, symbol });
+			return;
+		}
+		if (tag === 'section' || tag === 'article') {
+			const depth = openHeadings.length;
+			node.children.forEach(child => visitNode(child, depth));
+			closeHeadings(depth, node.end);
+			return;
+		}
+		node.children.forEach(child => visitNode(child, sectionDepth));
+	};
+	htmlDocument.roots.forEach(node => visitNode(node, 0));
+	closeHeadings(0, text.length);
+	return symbols;
+}
+
+function getHeadingText(text: string, node: Node): string {
+	if (node.startTagEnd === undefined) {
+		return '';
+	}
+	const content = text.substring(node.startTagEnd, node.endTagStart !== undefined ? node.endTagStart : node.end);
+	return content.replace(/<!--[\s\S]*?-->|<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function getSymbolKind(node: Node): SymbolKind {
+	const tag = node.tag && node.tag.toLowerCase();
+	if (tag && symbolKinds.hasOwnProperty(tag)) {
+		return symbolKinds[tag];
+	}
+	const role = node.getAttribute('role');
+	const landmarkRole = role && role.value !== null ? trimQuotes(role.value).trim().toLowerCase() : '';
+	if (landmarkRoles.hasOwnProperty(landmarkRole)) {
+		return landmarkRole === 'form' ? SymbolKind.Struct : SymbolKind.Module;
+	}
+	return SymbolKind.Field;
+}
+
 function provideFileSymbolsInternal(document: TextDocument, node: Node, container: string, symbols: SymbolInformation[]): void {
 
 	const name = nodeToName(node);
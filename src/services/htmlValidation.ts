@@ -0,0 +1,500 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { HTMLDocument, Node } from '../parser/htmlParser';
+import { createScanner } from '../parser/htmlScanner';
+import {
+	TokenType, ScannerState, TextDocument, Range, Diagnostic, DiagnosticSeverity, ValidationSettings, LintSettings, LintSeverity, IHTMLDataProvider,
+	ITagData, IAttributeData, IValueData
+} from '../htmlLanguageTypes';
+import { HTMLDataManager } from '../languageFacts/dataManager';
+import { startsWith, trimQuotes } from '../utils/strings';
+import { isOptionalEndTagElement } from '../languageFacts/fact';
+import { isDeprecated } from '../languageFacts/dataProvider';
+import { getUnsupportedBrowsers } from '../languageFacts/browsers';
+import { isAriaRole, isAriaAttribute, isAriaAttributeSupported, getElementRole } from '../languageFacts/aria';
+import {
+	TagDataLookup, getTagDataLookup, getElementCategories, getPermittedChildren, isPermittedContent, isTextPermitted, getProhibitingAncestor
+} from '../languageFacts/contentModel';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+export enum DiagnosticCode {
+	SyntaxError = 'syntax-error',
+	UnclosedElement = 'unclosed-element',
+	UnexpectedEndTag = 'unexpected-end-tag',
+	DuplicateAttribute = 'duplicate-attribute',
+	UnknownElement = 'unknown-element',
+	UnknownAttribute = 'unknown-attribute',
+	InvalidAttributeValue = 'invalid-attribute-value',
+	DeprecatedElement = 'deprecated-element',
+	DeprecatedAttribute = 'deprecated-attribute',
+	DeprecatedAttributeValue = 'deprecated-attribute-value',
+	UnsupportedFeature = 'unsupported-feature',
+	MissingAlt = 'missing-alt',
+	MissingLabel = 'missing-label',
+	MissingAccessibleName = 'missing-accessible-name',
+	InvalidRole = 'invalid-role',
+	InvalidAriaAttribute = 'invalid-aria-attribute',
+	PositiveTabindex = 'positive-tabindex',
+	MissingLang = 'missing-lang',
+	SkippedHeadingLevel = 'skipped-heading-level',
+	InvalidContent = 'invalid-content'
+}
+
+// value sets that only list common values, other values are allowed as well
+const openValueSets: { [valueSet: string]: boolean } = {
+	inputautocomplete: true,
+	metanames: true
+};
+
+// attributes whose value is a space separated list of tokens
+const tokenListAttributes: { [attribute: string]: boolean } = {
+	sandbox: true,
+	role: true,
+	'aria-relevant': true
+};
+
+// elements whose content is not HTML and is not described by the data providers
+const foreignElements: { [tag: string]: boolean } = {
+	svg: true,
+	math: true
+};
+
+// input types that are labelled by their value or that are not shown
+const unlabelledInputTypes: { [type: string]: boolean } = {
+	button: true,
+	hidden: true,
+	image: true,
+	reset: true,
+	submit: true
+};
+
+export class HTMLValidation {
+
+	constructor(private dataManager: HTMLDataManager) {
+	}
+
+	doValidation(document: TextDocument, htmlDocument: HTMLDocument, settings?: ValidationSettings): Diagnostic[] {
+		if (settings && settings.validate === false) {
+			return [];
+		}
+		const text = document.getText();
+		const diagnostics: Diagnostic[] = [];
+		const matchedEndTags: { [offset: number]: boolean } = {};
+
+		const addDiagnostic = (start: number, end: number, message: string, code: DiagnosticCode, severity: DiagnosticSeverity = DiagnosticSeverity.Error) => {
+			const range = Range.create(document.positionAt(start), document.positionAt(end));
+			diagnostics.push(Diagnostic.create(range, message, severity, code, document.languageId));
+		};
+
+		const visitNode = (node: Node) => {
+			if (node.tag) {
+				if (typeof node.endTagStart === 'number') {
+					matchedEndTags[node.endTagStart] = true;
+				}
+				// a start tag cut short by the next tag is already reported by the scanner
+				const isIncompleteStartTag = node.startTagEnd === undefined && node.end < text.length;
+				// elements like `html`, `body` or `li` may omit the end tag at the end of the document
+				const isImpliedByEndOfDocument = node.end === text.length && isOptionalEndTagElement(node.tag);
+				if (!node.closed && !isIncompleteStartTag && !isImpliedByEndOfDocument) {
+					const tagNameStart = node.start + '<'.length;
+					addDiagnostic(tagNameStart, tagNameStart + node.tag.length, localize('error.unclosedElement', "Element '{0}' is not closed.", node.tag), DiagnosticCode.UnclosedElement);
+				}
+				for (const attribute of node.getAttributes()) {
+					if (attribute.duplicate) {
+						addDiagnostic(attribute.nameStart, attribute.nameEnd, localize('error.duplicateAttribute', "Duplicate attribute '{0}'.", attribute.name), DiagnosticCode.DuplicateAttribute);
+					}
+				}
+			}
+			node.children.forEach(visitNode);
+		};
+		htmlDocument.roots.forEach(visitNode);
+
+		const scanner = createScanner(text, 0, ScannerState.WithinContent, true);
+		let endTagStart = -1;
+		let endTagName: string | undefined;
+		let token = scanner.scan();
+		while (token !== TokenType.EOS) {
+			const error = scanner.getTokenError();
+			if (error) {
+				addDiagnostic(scanner.getTokenOffset(), scanner.getTokenEnd(), error, DiagnosticCode.SyntaxError);
+			}
+			switch (token) {
+				case TokenType.EndTagOpen:
+					endTagStart = scanner.getTokenOffset();
+					endTagName = undefined;
+					break;
+				case TokenType.EndTag:
+					endTagName = scanner.getTokenText();
+					break;
+				case TokenType.EndTagClose:
+					if (endTagName && !matchedEndTags[endTagStart]) {
+						addDiagnostic(endTagStart, scanner.getTokenEnd(), localize('error.unexpectedEndTag', "Unexpected end tag '{0}'.", endTagName), DiagnosticCode.UnexpectedEndTag);
+					}
+					break;
+			}
+			token = scanner.scan();
+		}
+
+		const lint = settings && settings.lint || {};
+		const dataProviders = this.dataManager.getDataProviders().filter(p => p.isApplicable(document.languageId));
+		const getTagData = getTagDataLookup(dataProviders);
+		this.lintDocument(htmlDocument, lint, settings && settings.targetBrowsers || [], dataProviders, getTagData, addDiagnostic);
+		this.lintAccessibility(htmlDocument, text, lint, addDiagnostic);
+		this.lintContentModel(htmlDocument, text, lint, getTagData, addDiagnostic);
+		return diagnostics.sort((d1, d2) => document.offsetAt(d1.range.start) - document.offsetAt(d2.range.start));
+	}
+
+	private lintDocument(htmlDocument: HTMLDocument, lint: LintSettings, targetBrowsers: string[], dataProviders: IHTMLDataProvider[], getTagData: TagDataLookup,
+		addDiagnostic: (start: number, end: number, message: string, code: DiagnosticCode, severity: DiagnosticSeverity) => void) {
+
+		const unknownElements = toDiagnosticSeverity(lint.unknownElements);
+		const unknownAttributes = toDiagnosticSeverity(lint.unknownAttributes);
+		const invalidAttributeValues = toDiagnosticSeverity(lint.invalidAttributeValues);
+		const deprecated = toDiagnosticSeverity(lint.deprecated || 'warning');
+		const unsupportedFeatures = targetBrowsers.length ? toDiagnosticSeverity(lint.unsupportedFeatures || 'warning') : undefined;
+		if (!unknownElements && !unknownAttributes && !invalidAttributeValues && !deprecated && !unsupportedFeatures) {
+			return;
+		}
+
+		const checkBrowserSupport = (entry: ITagData | IAttributeData | IValueData, start: number, end: number, getMessage: (browsers: string) => string) => {
+			const unsupportedBrowsers = getUnsupportedBrowsers(entry.browsers, targetBrowsers);
+			if (unsupportedFeatures && unsupportedBrowsers.length) {
+				addDiagnostic(start, end, getMessage(unsupportedBrowsers.join(', ')), DiagnosticCode.UnsupportedFeature, unsupportedFeatures);
+			}
+		};
+
+		const lintAttributes = (tag: string, node: Node) => {
+			const knownAttributes: { [attribute: string]: IAttributeData | undefined } = {};
+			dataProviders.forEach(provider => {
+				provider.provideAttributes(tag).forEach(attr => {
+					const name = attr.name.toLowerCase();
+					if (!knownAttributes.hasOwnProperty(name)) {
+						knownAttributes[name] = attr;
+					}
+				});
+			});
+			for (const attribute of node.getAttributes()) {
+				const name = attribute.name.toLowerCase();
+				const attributeData = knownAttributes.hasOwnProperty(name) ? knownAttributes[name] : undefined;
+				if (!attributeData) {
+					if (unknownAttributes && !startsWith(name, 'data-')) {
+						addDiagnostic(attribute.nameStart, attribute.nameEnd, localize('lint.unknownAttribute', "Unknown attribute '{0}' on element '{1}'.", name, tag), DiagnosticCode.UnknownAttribute, unknownAttributes);
+					}
+					continue;
+				}
+				if (deprecated && isDeprecated(attributeData)) {
+					const message = getDeprecationMessage(attributeData, localize('lint.deprecatedAttribute', "Attribute '{0}' is deprecated.", name), localize('lint.obsoleteAttribute', "Attribute '{0}' is obsolete.", name));
+					addDiagnostic(attribute.nameStart, attribute.nameEnd, message, DiagnosticCode.DeprecatedAttribute, deprecated);
+				}
+				checkBrowserSupport(attributeData, attribute.nameStart, attribute.nameEnd,
+					browsers => localize('lint.unsupportedAttribute', "Attribute '{0}' is not supported by {1}.", name, browsers));
+				if ((invalidAttributeValues || deprecated || unsupportedFeatures) && attribute.value !== null) {
+					const value = trimQuotes(attribute.value);
+					if (!value || isTemplated(value)) {
+						continue;
+					}
+					const knownValues: { [value: string]: IValueData } = {};
+					let hasValues = false;
+					dataProviders.forEach(provider => {
+						provider.provideValues(tag, name).forEach(v => {
+							const valueName = v.name.toLowerCase();
+							if (!knownValues.hasOwnProperty(valueName)) {
+								knownValues[valueName] = v;
+							}
+							hasValues = true;
+						});
+					});
+					if (!hasValues) {
+						continue;
+					}
+					const tokens = tokenListAttributes.hasOwnProperty(name) ? value.split(/\s+/).filter(t => t.length > 0) : [value];
+					const isOpenValueSet = !!attributeData.valueSet && openValueSets.hasOwnProperty(attributeData.valueSet);
+					if (invalidAttributeValues && !isOpenValueSet && tokens.some(t => !knownValues.hasOwnProperty(t.toLowerCase()))) {
+						addDiagnostic(attribute.valueStart!, attribute.valueEnd!, localize('lint.invalidAttributeValue', "Invalid value '{0}' for attribute '{1}'.", value, name), DiagnosticCode.InvalidAttributeValue, invalidAttributeValues);
+					}
+					const deprecatedValue = deprecated && tokens.filter(t => knownValues.hasOwnProperty(t.toLowerCase())).map(t => knownValues[t.toLowerCase()]).filter(isDeprecated)[0];
+					if (deprecated && deprecatedValue) {
+						const message = getDeprecationMessage(deprecatedValue,
+							localize('lint.deprecatedAttributeValue', "Value '{0}' of attribute '{1}' is deprecated.", deprecatedValue.name, name),
+							localize('lint.obsoleteAttributeValue', "Value '{0}' of attribute '{1}' is obsolete.", deprecatedValue.name, name));
+						addDiagnostic(attribute.valueStart!, attribute.valueEnd!, message, DiagnosticCode.DeprecatedAttributeValue, deprecated);
+					}
+					for (const t of tokens) {
+						if (knownValues.hasOwnProperty(t.toLowerCase())) {
+							const valueData = knownValues[t.toLowerCase()];
+							checkBrowserSupport(valueData, attribute.valueStart!, attribute.valueEnd!,
+								browsers => localize('lint.unsupportedAttributeValue', "Value '{0}' of attribute '{1}' is not supported by {2}.", valueData.name, name, browsers));
+						}
+					}
+				}
+			}
+		};
+
+		const visitNode = (node: Node) => {
+			const tag = node.tag && node.tag.toLowerCase();
+			if (tag) {
+				if (foreignElements.hasOwnProperty(tag)) {
+					return;
+				}
+				const tagData = getTagData(tag);
+				if (tagData) {
+					const tagNameStart = node.start + '<'.length;
+					if (deprecated && isDeprecated(tagData)) {
+						const message = getDeprecationMessage(tagData, localize('lint.deprecatedElement', "Element '{0}' is deprecated.", node.tag), localize('lint.obsoleteElement', "Element '{0}' is obsolete.", node.tag));
+						addDiagnostic(tagNameStart, tagNameStart + tag.length, message, DiagnosticCode.DeprecatedElement, deprecated);
+					}
+					checkBrowserSupport(tagData, tagNameStart, tagNameStart + tag.length,
+						browsers => localize('lint.unsupportedElement', "Element '{0}' is not supported by {1}.", node.tag, browsers));
+					if (unknownAttributes || invalidAttributeValues || deprecated || unsupportedFeatures) {
+						lintAttributes(tag, node);
+					}
+				} else if (unknownElements && tag.indexOf('-') === -1) {
+					const tagNameStart = node.start + '<'.length;
+					addDiagnostic(tagNameStart, tagNameStart + tag.length, localize('lint.unknownElement', "Unknown element '{0}'.", node.tag), DiagnosticCode.UnknownElement, unknownElements);
+				}
+			}
+			node.children.forEach(visitNode);
+		};
+		htmlDocument.roots.forEach(visitNode);
+	}
+
+	private lintAccessibility(htmlDocument: HTMLDocument, text: string, lint: LintSettings,
+		addDiagnostic: (start: number, end: number, message: string, code: DiagnosticCode, severity: DiagnosticSeverity) => void) {
+
+		const missingAlt = toDiagnosticSeverity(lint.missingAlt);
+		const missingLabel = toDiagnosticSeverity(lint.missingLabel);
+		const missingAccessibleName = toDiagnosticSeverity(lint.missingAccessibleName);
+		const invalidAria = toDiagnosticSeverity(lint.invalidAria);
+		const positiveTabindex = toDiagnosticSeverity(lint.positiveTabindex);
+		const missingLang = toDiagnosticSeverity(lint.missingLang);
+		const skippedHeadingLevels = toDiagnosticSeverity(lint.skippedHeadingLevels);
+		if (!missingAlt && !missingLabel && !missingAccessibleName && !invalidAria && !positiveTabindex && !missingLang && !skippedHeadingLevels) {
+			return;
+		}
+
+		// ids of the elements labelled by a `label` with a `for` attribute
+		const labelledIds: { [id: string]: boolean } = {};
+		if (missingLabel) {
+			const collectLabels = (node: Node) => {
+				if (node.tag && node.tag.toLowerCase() === 'label') {
+					const id = getAttributeValue(node, 'for');
+					if (id) {
+						labelledIds[id] = true;
+					}
+				}
+				node.children.forEach(collectLabels);
+			};
+			htmlDocument.roots.forEach(collectLabels);
+		}
+
+		let previousHeadingLevel = 0;
+		const visitNode = (node: Node, inLabel: boolean) => {
+			const tag = node.tag && node.tag.toLowerCase();
+			if (!tag || foreignElements.hasOwnProperty(tag)) {
+				return;
+			}
+			const tagNameStart = node.start + '<'.length;
+			const tagNameEnd = tagNameStart + tag.length;
+			const type = (getAttributeValue(node, 'type') || '').toLowerCase();
+
+			if (missingAlt && node.getAttribute('alt') === undefined && (tag === 'img' || tag === 'input' && type === 'image' || tag === 'area' && node.getAttribute('href'))) {
+				addDiagnostic(tagNameStart, tagNameEnd, localize('lint.missingAlt', "Element '{0}' has no 'alt' attribute.", node.tag), DiagnosticCode.MissingAlt, missingAlt);
+			}
+			if (missingLabel && !inLabel && (tag === 'input' && !unlabelledInputTypes.hasOwnProperty(type) || tag === 'select' || tag === 'textarea') && !hasLabelAttribute(node)) {
+				const id = getAttributeValue(node, 'id');
+				if (!id || !labelledIds.hasOwnProperty(id)) {
+					addDiagnostic(tagNameStart, tagNameEnd, localize('lint.missingLabel', "Form control '{0}' has no label.", node.tag), DiagnosticCode.MissingLabel, missingLabel);
+				}
+			}
+			if (missingAccessibleName && (tag === 'button' || tag === 'a' && node.getAttribute('href')) && !hasLabelAttribute(node) && !hasAccessibleContent(node, text)) {
+				addDiagnostic(tagNameStart, tagNameEnd, localize('lint.missingAccessibleName', "Element '{0}' has no accessible name.", node.tag), DiagnosticCode.MissingAccessibleName, missingAccessibleName);
+			}
+			if (missingLang && tag === 'html' && !getAttributeValue(node, 'lang')) {
+				addDiagnostic(tagNameStart, tagNameEnd, localize('lint.missingLang', "Element 'html' has no 'lang' attribute."), DiagnosticCode.MissingLang, missingLang);
+			}
+			if (skippedHeadingLevels && /^h[1-6]$/.test(tag)) {
+				const level = parseInt(tag[1], 10);
+				if (previousHeadingLevel && level > previousHeadingLevel + 1) {
+					addDiagnostic(tagNameStart, tagNameEnd, localize('lint.skippedHeadingLevel', "Heading '{0}' skips a level, expected 'h{1}'.", node.tag, previousHeadingLevel + 1), DiagnosticCode.SkippedHeadingLevel, skippedHeadingLevels);
+				}
+				previousHeadingLevel = level;
+			}
+
+			for (const attribute of node.getAttributes()) {
+				const name = attribute.name.toLowerCase();
+				const value = attribute.value !== null ? trimQuotes(attribute.value) : '';
+				if (isTemplated(value)) {
+					continue;
+				}
+				if (name === 'tabindex' && positiveTabindex && parseInt(value, 10) > 0) {
+					addDiagnostic(attribute.valueStart!, attribute.valueEnd!, localize('lint.positiveTabindex', "Avoid positive 'tabindex' values, they change the tab order of the page."), DiagnosticCode.PositiveTabindex, positiveTabindex);
+				} else if (name === 'role' && invalidAria && attribute.valueStart !== undefined) {
+					const valueStart = attribute.valueStart + (attribute.quote ? 1 : 0);
+					const tokenPattern = /\S+/g;
+					let match: RegExpExecArray | null;
+					while (match = tokenPattern.exec(value)) {
+						if (!isAriaRole(match[0])) {
+							addDiagnostic(valueStart + match.index, valueStart + match.index + match[0].length, localize('lint.invalidRole', "'{0}' is not a valid ARIA role.", match[0]), DiagnosticCode.InvalidRole, invalidAria);
+						}
+					}
+				}
+			}
+			if (invalidAria) {
+				const role = getElementRole(node);
+				for (const attribute of node.getAttributes()) {
+					const name = attribute.name.toLowerCase();
+					if (!startsWith(name, 'aria-')) {
+						continue;
+					}
+					if (!isAriaAttribute(name)) {
+						addDiagnostic(attribute.nameStart, attribute.nameEnd, localize('lint.unknownAriaAttribute', "Unknown ARIA attribute '{0}'.", name), DiagnosticCode.InvalidAriaAttribute, invalidAria);
+					} else if (role && !isAriaAttributeSupported(role, name)) {
+						addDiagnostic(attribute.nameStart, attribute.nameEnd, localize('lint.unsupportedAriaAttribute', "Attribute '{0}' is not supported by role '{1}'.", name, role), DiagnosticCode.InvalidAriaAttribute, invalidAria);
+					}
+				}
+			}
+			node.children.forEach(child => visitNode(child, inLabel || tag === 'label'));
+		};
+		htmlDocument.roots.forEach(node => visitNode(node, false));
+	}
+
+	private lintContentModel(htmlDocument: HTMLDocument, text: string, lint: LintSettings, getTagData: TagDataLookup,
+		addDiagnostic: (start: number, end: number, message: string, code: DiagnosticCode, severity: DiagnosticSeverity) => void) {
+
+		const invalidContent = toDiagnosticSeverity(lint.invalidContent);
+		if (!invalidContent) {
+			return;
+		}
+
+		const lintText = (node: Node) => {
+			const permittedChildren = getPermittedChildren(node, getTagData);
+			if (!permittedChildren || isTextPermitted(permittedChildren) || node.startTagEnd === undefined) {
+				return;
+			}
+			const addTextDiagnostic = (start: number, end: number) => {
+				const textRange = getTextRange(text, start, end);
+				if (textRange) {
+					addDiagnostic(textRange[0], textRange[1], localize('lint.textNotPermitted', "Text is not allowed in element '{0}'.", node.tag), DiagnosticCode.InvalidContent, invalidContent);
+				}
+			};
+			let offset = node.startTagEnd;
+			for (const child of node.children) {
+				addTextDiagnostic(offset, child.start);
+				offset = child.end;
+			}
+			addTextDiagnostic(offset, node.endTagStart !== undefined ? node.endTagStart : node.end);
+		};
+
+		const visitNode = (node: Node) => {
+			const tag = node.tag && node.tag.toLowerCase();
+			// the content of templates is checked where it is used
+			if (!tag || foreignElements.hasOwnProperty(tag) || tag === 'template') {
+				return;
+			}
+			const tagData = getTagData(tag);
+			const parent = node.parent;
+			const parentTag = parent && parent.tag && parent.tag.toLowerCase();
+			if (tagData && parent && parentTag) {
+				const tagNameStart = node.start + '<'.length;
+				const tagNameEnd = tagNameStart + tag.length;
+				const categories = getElementCategories(node, tagData);
+				if (tagData.permittedParents) {
+					if (tagData.permittedParents.indexOf(parentTag) === -1) {
+						const parents = tagData.permittedParents.map(p => `'${p}'`).join(', ');
+						addDiagnostic(tagNameStart, tagNameEnd, localize('lint.parentNotPermitted', "Element '{0}' must be a child of {1}.", node.tag, parents), DiagnosticCode.InvalidContent, invalidContent);
+					}
+				} else {
+					const permittedChildren = getPermittedChildren(parent, getTagData);
+					if (permittedChildren && !isPermittedContent(permittedChildren, tag, categories)) {
+						addDiagnostic(tagNameStart, tagNameEnd, localize('lint.childNotPermitted', "Element '{0}' is not allowed in element '{1}'.", node.tag, parent.tag), DiagnosticCode.InvalidContent, invalidContent);
+					}
+				}
+				const ancestor = getProhibitingAncestor(parent, tag, categories, getTagData);
+				if (ancestor) {
+					addDiagnostic(tagNameStart, tagNameEnd, localize('lint.descendantNotPermitted', "Element '{0}' cannot be nested in element '{1}'.", node.tag, ancestor.tag), DiagnosticCode.InvalidContent, invalidContent);
+				}
+			}
+			lintText(node);
+			node.children.forEach(visitNode);
+		};
+		htmlDocument.roots.forEach(visitNode);
+	}
+}
+
+function getDeprecationMessage(entry: ITagData | IAttributeData | IValueData, deprecatedMessage: string, obsoleteMessage: string): string {
+	const message = entry.status === 'obsolete' ? obsoleteMessage : deprecatedMessage;
+	return entry.replacement ? message + ' ' + entry.replacement : message;
+}
+
+function toDiagnosticSeverity(severity: LintSeverity | undefined): DiagnosticSeverity | undefined {
+	switch (severity) {
+		case 'error': return DiagnosticSeverity.Error;
+		case 'warning': return DiagnosticSeverity.Warning;
+	}
+	return undefined;
+}
+
+function isTemplated(value: string) {
+	return /\{\{|\{%|<%|\$\{/.test(value);
+}
+
+/**
+ * The value of the attribute without quotes, '' for attributes without value and undefined if the element has no such attribute.
+ */
+function getAttributeValue(node: Node, name: string): string | undefined {
+	const attribute = node.getAttribute(name);
+	if (!attribute) {
+		return undefined;
+	}
+	return attribute.value !== null ? trimQuotes(attribute.value).trim() : '';
+}
+
+function hasLabelAttribute(node: Node): boolean {
+	return !!(getAttributeValue(node, 'aria-label') || getAttributeValue(node, 'aria-labelledby') || getAttributeValue(node, 'title'));
+}
+
+/**
+ * Whether the content of the element provides an accessible name: text or an image with alternative text that is not hidden.
+ */
+function hasAccessibleContent(node: Node, text: string): boolean {
+	if (node.startTagEnd === undefined) {
+		return false;
+	}
+	const contentEnd = node.endTagStart !== undefined ? node.endTagStart : node.end;
+	let offset = node.startTagEnd;
+	for (const child of node.children) {
+		if (hasText(text.substring(offset, child.start))) {
+			return true;
+		}
+		offset = child.end;
+		if (getAttributeValue(child, 'aria-hidden') === 'true') {
+			continue;
+		}
+		const tag = child.tag && child.tag.toLowerCase();
+		if ((tag === 'img' || tag === 'area') && getAttributeValue(child, 'alt') || hasLabelAttribute(child) || hasAccessibleContent(child, text)) {
+			return true;
+		}
+	}
+	return hasText(text.substring(offset, contentEnd));
+}
+
+function hasText(content: string): boolean {
+	return /\S/.test(content.replace(/<!--[\s\S]*?(-->|$)/g, ''));
+}
+
+/**
+ * The range of the text between `start` and `end` without leading and trailing whitespace and comments, undefined if there is no such text.
+ */
+function getTextRange(text: string, start: number, end: number): [number, number] | undefined {
+	const content = text.substring(start, end).replace(/<!--[\s\S]*?(-->|$)/g, comment => comment.replace(/\S/g, ' '));
+	const match = /\S[\s\S]*\S|\S/.exec(content);
+	if (!match || isTemplated(match[0])) {
+		return undefined;
+	}
+	return [start + match.index, start + match.index + match[0].length];
+}
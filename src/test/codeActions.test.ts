@@ -0,0 +1,124 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as htmlLanguageService from '../htmlLanguageService';
+import { TextDocument, Range, CodeActionContext, CodeActionKind, HTMLFormatConfiguration, LintSettings } from '../htmlLanguageService';
+
+interface ExpectedCodeAction {
+	title: string;
+	content: string;
+}
+
+export function assertCodeActions(value: string, expected: ExpectedCodeAction[], only?: string[], options?: HTMLFormatConfiguration, lint: LintSettings = { unknownElements: 'warning', unknownAttributes: 'warning' }): void {
+	let rangeStart = value.indexOf('|');
+	let rangeEnd = rangeStart;
+	if (rangeStart !== -1) {
+		value = value.substr(0, rangeStart) + value.substr(rangeStart + 1);
+		rangeEnd = value.indexOf('|');
+		if (rangeEnd !== -1) {
+			value = value.substr(0, rangeEnd) + value.substr(rangeEnd + 1);
+		} else {
+			rangeEnd = rangeStart;
+		}
+	}
+	const ls = htmlLanguageService.getLanguageService();
+	const document = TextDocument.create('test://test/test.html', 'html', 0, value);
+	const htmlDocument = ls.parseHTMLDocument(document);
+	const diagnostics = ls.doValidation(document, htmlDocument, { lint });
+	const range = rangeStart === -1 ? Range.create(0, 0, 0, 0) : Range.create(document.positionAt(rangeStart), document.positionAt(rangeEnd));
+
+	const actions = ls.doCodeActions(document, range, CodeActionContext.create(diagnostics, only), htmlDocument, options);
+	const actual = actions.map(action => {
+		const edits = action.edit!.changes![document.uri];
+		return { title: action.title, content: TextDocument.applyEdits(document, edits) };
+	});
+	assert.deepEqual(actual, expected, value);
+}
+
+suite('HTML Code Actions', () => {
+
+	test('Insert end tag', () => {
+		assertCodeActions('<div><span></div>', [{ title: 'Insert end tag \'</span>\'', content: '<div><span></span></div>' }]);
+		assertCodeActions('<div>', [{ title: 'Insert end tag \'</div>\'', content: '<div></div>' }]);
+	});
+
+	test('Remove end tag', () => {
+		assertCodeActions('<div></div></div>', [{ title: 'Remove end tag \'</div>\'', content: '<div></div>' }]);
+		assertCodeActions('<div></span ></div>', [{ title: 'Remove end tag \'</span >\'', content: '<div></div>' }]);
+	});
+
+	test('Remove duplicate attribute', () => {
+		assertCodeActions('<div id="a" class="b"  id="c"></div>', [{ title: 'Remove duplicate attribute \'id\'', content: '<div id="a" class="b"></div>' }]);
+		assertCodeActions('<input disabled disabled>', [{ title: 'Remove duplicate attribute \'disabled\'', content: '<input disabled>' }]);
+	});
+
+	test('Add quotes', () => {
+		assertCodeActions('<div class=|foo id=bar></div>', [{ title: 'Add quotes around the value of \'class\'', content: '<div class="foo" id=bar></div>' }], [CodeActionKind.QuickFix]);
+		assertCodeActions('<div |class=foo id=\'bar\' title=a/b|></div>', [
+			{ title: 'Add quotes around the value of \'class\'', content: '<div class="foo" id=\'bar\' title=a/b></div>' },
+			{ title: 'Add quotes around the value of \'title\'', content: '<div class=foo id=\'bar\' title="a/b"></div>' }
+		], [CodeActionKind.QuickFix]);
+		assertCodeActions('<div class=foo>|</div>', [], [CodeActionKind.QuickFix]);
+	});
+
+	test('Misspelled names', () => {
+		assertCodeActions('<dvi></dvi>', [{ title: 'Change to \'div\'', content: '<div></div>' }]);
+		assertCodeActions('<spna class="a"/>', [{ title: 'Change to \'span\'', content: '<span class="a"/>' }]);
+		assertCodeActions('<div clss="a"></div>', [{ title: 'Change to \'class\'', content: '<div class="a"></div>' }]);
+		assertCodeActions('<foobar></foobar>', [{ title: 'Change to \'footer\'', content: '<footer></footer>' }]);
+		assertCodeActions('<xyz></xyz>', []);
+	});
+
+	test('Accessibility', () => {
+		const lint: LintSettings = { missingAlt: 'warning', missingLang: 'warning', positiveTabindex: 'warning', invalidAria: 'warning', skippedHeadingLevels: 'warning' };
+		assertCodeActions('<img src="a.png">', [{ title: 'Add \'alt=""\'', content: '<img alt="" src="a.png">' }], undefined, undefined, lint);
+		assertCodeActions('<html><body></body></html>', [], undefined, undefined, lint);
+		assertCodeActions('<div tabindex=\'3\'></div>', [{ title: 'Change \'tabindex\' to 0', content: '<div tabindex=\'0\'></div>' }], undefined, undefined, lint);
+		assertCodeActions('<div role="main buton"></div>', [{ title: 'Change to \'button\'', content: '<div role="main button"></div>' }], undefined, undefined, lint);
+		assertCodeActions('<div role="button" aria-checked="true"></div>', [{ title: 'Remove attribute \'aria-checked\'', content: '<div role="button"></div>' }], undefined, undefined, lint);
+		assertCodeActions('<h1>a</h1><div><h4>b</h4></div>', [{ title: 'Change to \'h2\'', content: '<h1>a</h1><div><h2>b</h2></div>' }], undefined, undefined, lint);
+	});
+
+	test('Only', () => {
+		assertCodeActions('<div></div></div>', [], [CodeActionKind.Refactor]);
+		assertCodeActions('<div></div></div>', [{ title: 'Remove end tag \'</div>\'', content: '<div></div>' }], [CodeActionKind.QuickFix]);
+	});
+
+	const refactor = [CodeActionKind.Refactor];
+	const spaces = { tabSize: 2, insertSpaces: true };
+
+	test('Wrap with tag', () => {
+		assertCodeActions('<p>Some |text| here</p>', [{ title: 'Wrap with \'<div>\'', content: '<p>Some <div>text</div> here</p>' }], refactor);
+		assertCodeActions('<body>\n  |<p>a</p>\n  <p>b</p>|\n</body>', [{ title: 'Wrap with \'<div>\'', content: '<body>\n  <div>\n    <p>a</p>\n    <p>b</p>\n  </div>\n</body>' }], refactor, spaces);
+		assertCodeActions('<body>\n|\t<ul>\n\t\t<li>a</li>\n\n\t</ul>\n|</body>', [{ title: 'Wrap with \'<div>\'', content: '<body>\n\t<div>\n\t\t<ul>\n\t\t\t<li>a</li>\n\n\t\t</ul>\n\t</div>\n</body>' }], refactor);
+	});
+
+	test('Wrap with tag only around whole nodes', () => {
+		assertCodeActions('<p cl|ass="a">text</p|>', [], refactor);
+		assertCodeActions('<img src="|foo|">', [], refactor);
+		assertCodeActions('<p>So|me <b>bold| text</b></p>', [], refactor);
+		assertCodeActions('<p>a</p>|<p>b</p><p>|c</p>', [], refactor);
+		assertCodeActions('<!-- a |comment| -->', [], refactor);
+		assertCodeActions('<div>|<p>a</p>x|</div>', [{ title: 'Wrap with \'<div>\'', content: '<div><div>\n\t<p>a</p>x\n</div></div>' }], refactor);
+	});
+
+	test('Remove tag', () => {
+		assertCodeActions('<p>Some <b|>bold</b> text</p>', [{ title: 'Remove tag \'<b>\' keeping its content', content: '<p>Some bold text</p>' }], refactor);
+		assertCodeActions('<body>\n  <div>\n    <p>a</p>\n    <p>b</p>\n  </d|iv>\n</body>', [{ title: 'Remove tag \'<div>\' keeping its content', content: '<body>\n  <p>a</p>\n  <p>b</p>\n</body>' }], refactor, spaces);
+		assertCodeActions('<p>Some <br|> text</p>', [], refactor);
+	});
+
+	test('Split and join', () => {
+		assertCodeActions('<p id="a" class="b">First.| Second.</p>', [{ title: 'Split \'<p>\'', content: '<p id="a" class="b">First.</p><p class="b"> Second.</p>' }], refactor);
+		assertCodeActions('<p>a</p>\n<p|>b</p>', [{ title: 'Remove tag \'<p>\' keeping its content', content: '<p>a</p>\nb' }], refactor);
+		assertCodeActions('<p class="c"|>a</p>\n<P class=\'c\'>b</P><p>c</p>', [
+			{ title: 'Remove tag \'<p>\' keeping its content', content: 'a\n<P class=\'c\'>b</P><p>c</p>' },
+			{ title: 'Join with the next \'<p>\'', content: '<p class="c">ab</P><p>c</p>' }
+		], refactor);
+		assertCodeActions('<p|>a</p>\n<p class="c">b</p>', [{ title: 'Remove tag \'<p>\' keeping its content', content: 'a\n<p class="c">b</p>' }], refactor);
+		assertCodeActions('<p|>a</p>x<p>b</p>', [{ title: 'Remove tag \'<p>\' keeping its content', content: 'ax<p>b</p>' }], refactor);
+	});
+});
@@ -0,0 +1,73 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as htmlLanguageService from '../htmlLanguageService';
+import { TextDocument, Color, Range } from '../htmlLanguageService';
+
+suite('HTML Colors', () => {
+
+	const ls = htmlLanguageService.getLanguageService();
+
+	function assertColors(value: string, expected: { text: string; color: Color }[]): void {
+		const document = TextDocument.create('test://test/test.html', 'html', 0, value);
+		const colors = ls.findDocumentColors(document, ls.parseHTMLDocument(document));
+		assert.deepEqual(colors.map(c => ({ text: document.getText(c.range), color: c.color })), expected, value);
+	}
+
+	function assertPresentations(value: string, color: Color, expected: string[]): void {
+		const start = value.indexOf('|');
+		const end = value.indexOf('|', start + 1) - 1;
+		value = value.replace(/\|/g, '');
+		const document = TextDocument.create('test://test/test.html', 'html', 0, value);
+		const range = Range.create(document.positionAt(start), document.positionAt(end));
+		const presentations = ls.getColorPresentations(document, ls.parseHTMLDocument(document), color, range);
+		assert.deepEqual(presentations.map(p => p.label), expected, value);
+		for (const presentation of presentations) {
+			assert.deepEqual(presentation.textEdit!.range, range);
+		}
+	}
+
+	const red: Color = { red: 1, green: 0, blue: 0, alpha: 1 };
+	const white: Color = { red: 1, green: 1, blue: 1, alpha: 1 };
+	const transparentBlue: Color = { red: 0, green: 0, blue: 1, alpha: 0.5 };
+
+	test('Style attributes', () => {
+		assertColors('<div style="color: red; background: #fff url(red.png); border-color: rgba(0, 0, 255, 50%)"></div>', [
+			{ text: 'red', color: red },
+			{ text: '#fff', color: white },
+			{ text: 'rgba(0, 0, 255, 50%)', color: transparentBlue }
+		]);
+		assertColors('<p style=\'color:hsl(0 100% 50%);--red: blue\'></p>', [
+			{ text: 'hsl(0 100% 50%)', color: red },
+			{ text: 'blue', color: { red: 0, green: 0, blue: 1, alpha: 1 } }
+		]);
+		assertColors('<p style="color: #12; margin: 0 auto; font-family: Arial"></p>', []);
+		assertColors('<div style="color: constructor; background: toString" color="hasOwnProperty"></div>', []);
+	});
+
+	test('Color attributes', () => {
+		assertColors('<body bgcolor="White"><font color=#FF0000>a</font><table bgcolor=" red "></table></body><div color="red"></div>', [
+			{ text: 'White', color: white },
+			{ text: '#FF0000', color: red },
+			{ text: 'red', color: red }
+		]);
+		assertColors('<input type="color" value="#ffffff"><input type="text" value="red"><meta name="theme-color" content="#ff0000"><meta name="description" content="red">', [
+			{ text: '#ffffff', color: white },
+			{ text: '#ff0000', color: red }
+		]);
+		assertColors('<constructor bgcolor="red" style="color: red"></constructor><toString color="red"></toString>', [
+			{ text: 'red', color: red }
+		]);
+	});
+
+	test('Color presentations', () => {
+		assertPresentations('<div style="color: |#fff|"></div>', red, ['#ff0000', 'rgb(255, 0, 0)', 'hsl(0, 100%, 50%)', 'red']);
+		assertPresentations('<div style="color: |rgb(0, 0, 0)|"></div>', transparentBlue, ['rgba(0, 0, 255, 0.5)', '#0000ff80', 'hsla(240, 100%, 50%, 0.5)']);
+		assertPresentations('<div style="color: |hsl(0, 0%, 0%)|"></div>', white, ['hsl(0, 0%, 100%)', 'rgb(255, 255, 255)', '#ffffff', 'white']);
+		assertPresentations('<font color="|blue|"></font>', red, ['red', 'rgb(255, 0, 0)', '#ff0000', 'hsl(0, 100%, 50%)']);
+		assertPresentations('<input type="color" value="|#000000|">', transparentBlue, ['#0000ff']);
+	});
+});
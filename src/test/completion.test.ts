@@ -4,6 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { testCompletionFor, testTagCompletion } from "./completionUtil";
+import { CompletionItemTag } from '../htmlLanguageService';
 
 suite('HTML Completion', () => {
 	test('Complete', function (): any {
@@ -306,6 +307,42 @@ suite('HTML Completion', () => {
 		});
 	});
 
+	test('Deprecated', () => {
+		testCompletionFor('<|', {
+			items: [
+				{ label: 'center', tags: [CompletionItemTag.Deprecated], sortText: '~center' },
+				{ label: 'div', tags: [] }
+			]
+		});
+		testCompletionFor('<td |', {
+			items: [
+				{ label: 'bgcolor', tags: [CompletionItemTag.Deprecated], sortText: '~bgcolor' },
+				{ label: 'colspan', tags: [] }
+			]
+		});
+	});
+
+	test('Content model', () => {
+		testCompletionFor('<ul><|</ul>', {
+			items: [
+				{ label: 'li', sortText: undefined },
+				{ label: 'script', sortText: undefined },
+				{ label: 'div', sortText: '~div' },
+				{ label: 'center', sortText: '~center' }
+			]
+		});
+		testCompletionFor('<table>\n  <t|\n</table>', {
+			items: [
+				{ label: 'tr', sortText: undefined },
+				{ label: 'tbody', sortText: undefined },
+				{ label: 'td', sortText: '~td' }
+			]
+		});
+		testCompletionFor('<p>Text <|</p>', { items: [{ label: 'span', sortText: undefined }, { label: 'div', sortText: '~div' }, { label: 'li', sortText: '~li' }] });
+		testCompletionFor('<a href="#"><|</a>', { items: [{ label: 'div', sortText: undefined }, { label: 'button', sortText: '~button' }] });
+		testCompletionFor('<|', { items: [{ label: 'li', sortText: undefined }, { label: 'div', sortText: undefined }] });
+	});
+
 	test('Case sensitivity', function () {
 		testCompletionFor('<LI></|', {
 			items: [{ label: '/LI', resultText: '<LI></LI>' }, { label: '/li', notAvailable: true }]
@@ -341,60 +378,36 @@ suite('HTML Completion', () => {
 	});
 
 	test('Complete aria', function (): any {
-		const expectedAriaAttributes = [
-			{ label: 'aria-activedescendant' },
-			{ label: 'aria-atomic' },
-			{ label: 'aria-autocomplete' },
-			{ label: 'aria-busy' },
-			{ label: 'aria-checked' },
-			{ label: 'aria-colcount' },
-			{ label: 'aria-colindex' },
-			{ label: 'aria-colspan' },
-			{ label: 'aria-controls' },
-			{ label: 'aria-current' },
-			{ label: 'aria-describedat' },
-			{ label: 'aria-describedby' },
-			{ label: 'aria-disabled' },
-			{ label: 'aria-dropeffect' },
-			{ label: 'aria-errormessage' },
-			{ label: 'aria-expanded' },
-			{ label: 'aria-flowto' },
-			{ label: 'aria-grabbed' },
-			{ label: 'aria-haspopup' },
-			{ label: 'aria-hidden' },
-			{ label: 'aria-invalid' },
-			{ label: 'aria-kbdshortcuts' },
-			{ label: 'aria-label' },
-			{ label: 'aria-labelledby' },
-			{ label: 'aria-level' },
-			{ label: 'aria-live' },
-			{ label: 'aria-modal' },
-			{ label: 'aria-multiline' },
-			{ label: 'aria-multiselectable' },
-			{ label: 'aria-orientation' },
-			{ label: 'aria-owns' },
-			{ label: 'aria-placeholder' },
-			{ label: 'aria-posinset' },
-			{ label: 'aria-pressed' },
-			{ label: 'aria-readonly' },
-			{ label: 'aria-relevant' },
-			{ label: 'aria-required' },
-			{ label: 'aria-roledescription' },
-			{ label: 'aria-rowcount' },
-			{ label: 'aria-rowindex' },
-			{ label: 'aria-rowspan' },
-			{ label: 'aria-selected' },
-			{ label: 'aria-setsize' },
-			{ label: 'aria-sort' },
-			{ label: 'aria-valuemax' },
-			{ label: 'aria-valuemin' },
-			{ label: 'aria-valuenow' },
-			{ label: 'aria-valuetext' }
-		];
-
-		testCompletionFor('<div  |> </div >', { items: expectedAriaAttributes });
-		testCompletionFor('<span  |> </span >', { items: expectedAriaAttributes });
-		testCompletionFor('<input  |> </input >', { items: expectedAriaAttributes });
+		testCompletionFor('<div role="checkbox" |> </div >', {
+			items: [
+				{ label: 'aria-checked', sortText: '!aria-checked', resultText: '<div role="checkbox" aria-checked="$1"> </div >' },
+				{ label: 'aria-readonly' },
+				{ label: 'aria-atomic' },
+				{ label: 'aria-label' },
+				{ label: 'aria-valuenow', notAvailable: true },
+				{ label: 'aria-describedat', notAvailable: true }
+			]
+		});
+		testCompletionFor('<div |> </div >', {
+			items: [
+				{ label: 'aria-hidden' },
+				{ label: 'aria-describedby' },
+				{ label: 'aria-label', notAvailable: true },
+				{ label: 'aria-checked', notAvailable: true }
+			]
+		});
+		testCompletionFor('<input  |> </input >', {
+			items: [
+				{ label: 'aria-placeholder' },
+				{ label: 'aria-required' },
+				{ label: 'aria-label' },
+				{ label: 'aria-checked', notAvailable: true }
+			]
+		});
+		testCompletionFor('<input type="checkbox" |>', { items: [{ label: 'aria-checked', sortText: '!aria-checked' }, { label: 'aria-placeholder', notAvailable: true }] });
+		testCompletionFor('<h2 |>', { items: [{ label: 'aria-level', sortText: '!aria-level' }] });
+		testCompletionFor('<div role="combobox" |>', { items: [{ label: 'aria-controls', sortText: '!aria-controls' }, { label: 'aria-expanded', sortText: '!aria-expanded' }, { label: 'aria-autocomplete' }] });
+		testCompletionFor('<my-element |>', { items: [{ label: 'aria-label' }, { label: 'aria-level', notAvailable: true }] });
 	});
 
 	test('Settings', function (): any {
@@ -6,7 +6,7 @@
 import * as assert from 'assert';
 import * as htmlLanguageService from '../htmlLanguageService';
 
-import { TextDocument, CompletionList, CompletionItemKind, MarkupContent, TextEdit } from '../htmlLanguageService';
+import { TextDocument, CompletionList, CompletionItemKind, CompletionItemTag, MarkupContent, TextEdit } from '../htmlLanguageService';
 
 interface ItemDescription {
 	label: string;
@@ -14,6 +14,8 @@ interface ItemDescription {
 	kind?: CompletionItemKind;
 	resultText?: string;
 	filterText?: string;
+	tags?: CompletionItemTag[];
+	sortText?: string;
 	notAvailable?: boolean;
 }
 
@@ -49,6 +51,12 @@ export function assertCompletion(completions: CompletionList, expected: ItemDesc
 	if (expected.filterText) {
 		assert.equal(match.filterText, expected.filterText);
 	}
+	if (expected.tags) {
+		assert.deepEqual(match.tags || [], expected.tags);
+	}
+	if (expected.hasOwnProperty('sortText')) {
+		assert.equal(match.sortText, expected.sortText);
+	}
 }
 
 export function testCompletionFor(value: string, expected: { count?: number, items?: ItemDescription[] }, settings?: htmlLanguageService.CompletionConfiguration, lsOptions?: htmlLanguageService.LanguageServiceOptions): void {
@@ -0,0 +1,101 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as htmlLanguageService from '../htmlLanguageService';
+import { TextDocument } from '../htmlLanguageService';
+
+suite('HTML Document Cache', () => {
+
+	test('Cached by URI and version', () => {
+		const ls = htmlLanguageService.getLanguageService();
+		const document = TextDocument.create('test://test/test.html', 'html', 0, '<div></div>');
+		const htmlDocument = ls.parseHTMLDocument(document);
+		assert.strictEqual(ls.parseHTMLDocument(document), htmlDocument);
+		assert.strictEqual(ls.parseHTMLDocument(TextDocument.create('test://test/test.html', 'html', 0, '<div></div>')), htmlDocument);
+
+		TextDocument.update(document, [{ text: '<span></span>' }], 1);
+		const updatedDocument = ls.parseHTMLDocument(document);
+		assert.notStrictEqual(updatedDocument, htmlDocument);
+		assert.equal(updatedDocument.roots[0].tag, 'span');
+
+		const otherContent = TextDocument.create('test://test/test.html', 'html', 1, '<p></p>');
+		assert.equal(ls.parseHTMLDocument(otherContent).roots[0].tag, 'p');
+	});
+
+	test('Incremental updates are cached', () => {
+		const ls = htmlLanguageService.getLanguageService();
+		const document = TextDocument.create('test://test/test.html', 'html', 0, '<div></div>');
+		const previous = ls.parseHTMLDocument(document);
+		const changes = [{ range: { start: document.positionAt(5), end: document.positionAt(5) }, text: '<b></b>' }];
+		const htmlDocument = ls.updateHTMLDocument(TextDocument.update(document, changes, 1), previous, changes);
+		assert.equal(htmlDocument.roots[0].children[0].tag, 'b');
+		assert.strictEqual(ls.parseHTMLDocument(document), htmlDocument);
+	});
+
+	test('Documents of earlier versions are not changed', () => {
+		const ls = htmlLanguageService.getLanguageService();
+		const document = TextDocument.create('test://test/test.html', 'html', 0, '<div><p></p></div>');
+		const previous = ls.parseHTMLDocument(document);
+		const previousChild = previous.roots[0].children[0];
+
+		TextDocument.update(document, [{ range: { start: document.positionAt(5), end: document.positionAt(12) }, text: '<b></b>' }], 1);
+		const htmlDocument = ls.parseHTMLDocument(document);
+		assert.notStrictEqual(htmlDocument, previous);
+		assert.equal(htmlDocument.roots[0].children[0].tag, 'b');
+		assert.strictEqual(previous.roots[0].children[0], previousChild);
+		assert.equal(previousChild.tag, 'p');
+		assert.equal(previous.roots[0].end, 18);
+	});
+
+	test('Services use the cache', () => {
+		const ls = htmlLanguageService.getLanguageService();
+		const document = TextDocument.create('test://test/test.html', 'html', 0, '<div>\n<a href="#x" id="x"></a>\n</div>\n<style>p {}</style>');
+		assert.strictEqual(ls.getDocumentRegions(document), ls.getDocumentRegions(document));
+		assert.strictEqual(ls.getFoldingRanges(document), ls.getFoldingRanges(document));
+		assert.notStrictEqual(ls.getFoldingRanges(document, { rangeLimit: 1 }), ls.getFoldingRanges(document));
+		assert.equal(ls.findDocumentLinks(document, { resolveReference: ref => ref }).length, 1);
+
+		const regions = ls.getDocumentRegions(document);
+		TextDocument.update(document, [{ text: '<div></div>' }], 1);
+		assert.notStrictEqual(ls.getDocumentRegions(document), regions);
+		assert.deepEqual(ls.getDocumentRegions(document).regions, []);
+	});
+
+	test('Semantic tokens follow the data providers', () => {
+		const ls = htmlLanguageService.getLanguageService();
+		const document = TextDocument.create('test://test/test.html', 'html', 0, '<my-element></my-element>');
+		const tokens = ls.getSemanticTokens(document).data;
+		ls.setDataProviders(true, [htmlLanguageService.newHTMLDataProvider('custom', { version: 1.1, tags: [{ name: 'my-element', attributes: [] }] })]);
+		assert.notDeepEqual(ls.getSemanticTokens(document).data, tokens);
+	});
+
+	test('Eviction and removal', () => {
+		const ls = htmlLanguageService.getLanguageService({ documentCacheSize: 2 });
+		const document1 = TextDocument.create('test://test/test1.html', 'html', 0, '<div></div>');
+		const document2 = TextDocument.create('test://test/test2.html', 'html', 0, '<div></div>');
+		const document3 = TextDocument.create('test://test/test3.html', 'html', 0, '<div></div>');
+		const htmlDocument1 = ls.parseHTMLDocument(document1);
+		const htmlDocument2 = ls.parseHTMLDocument(document2);
+		assert.strictEqual(ls.parseHTMLDocument(document1), htmlDocument1);
+
+		ls.parseHTMLDocument(document3); // evicts document2, the least recently used
+		assert.strictEqual(ls.parseHTMLDocument(document1), htmlDocument1);
+		assert.notStrictEqual(ls.parseHTMLDocument(document2), htmlDocument2);
+
+		ls.onDocumentRemoved(document1);
+		assert.notStrictEqual(ls.parseHTMLDocument(document1), htmlDocument1);
+
+		const htmlDocument3 = ls.parseHTMLDocument(document3);
+		ls.dispose();
+		assert.notStrictEqual(ls.parseHTMLDocument(document3), htmlDocument3);
+	});
+
+	test('Disabled', () => {
+		const ls = htmlLanguageService.getLanguageService({ documentCacheSize: 0 });
+		const document = TextDocument.create('test://test/test.html', 'html', 0, '<div></div>');
+		assert.notStrictEqual(ls.parseHTMLDocument(document), ls.parseHTMLDocument(document));
+	});
+});
@@ -0,0 +1,79 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as htmlLanguageService from '../htmlLanguageService';
+import { TextDocument } from '../htmlLanguageService';
+import { repeat } from '../utils/strings';
+
+suite('HTML Document Regions', () => {
+
+	const ls = htmlLanguageService.getLanguageService();
+
+	function assertRegions(value: string, expected: { kind: string; languageId: string; content: string; module?: boolean }[]): void {
+		const document = TextDocument.create('test://test/test.html', 'html', 0, value);
+		const actual = ls.getDocumentRegions(document).regions.map(r => {
+			const result: { kind: string; languageId: string; content: string; module?: boolean } = { kind: r.kind, languageId: r.languageId, content: value.substring(r.start, r.end) };
+			if (r.module) {
+				result.module = true;
+			}
+			return result;
+		});
+		assert.deepEqual(actual, expected, value);
+	}
+
+	function assertEmbeddedDocument(value: string, languageId: string, expected: string, ignoreAttributeValues?: boolean): void {
+		const document = TextDocument.create('test://test/test.html', 'html', 0, value);
+		const embedded = ls.getDocumentRegions(document).getEmbeddedDocument(languageId, ignoreAttributeValues);
+		assert.equal(embedded.languageId, languageId);
+		assert.equal(embedded.getText(), expected);
+	}
+
+	test('Script and style elements', () => {
+		assertRegions('<html><style>p { }</style><script>var a;</script></html>', [
+			{ kind: 'style', languageId: 'css', content: 'p { }' },
+			{ kind: 'script', languageId: 'javascript', content: 'var a;' }
+		]);
+		assertRegions('<script type="module">import a from "a";</script><script type=text/javascript>a</script>', [
+			{ kind: 'script', languageId: 'javascript', content: 'import a from "a";', module: true },
+			{ kind: 'script', languageId: 'javascript', content: 'a' }
+		]);
+		assertRegions('<script type="importmap">{ "imports": {} }</script><script type="application/ld+json">{}</script>', [
+			{ kind: 'script', languageId: 'json', content: '{ "imports": {} }' },
+			{ kind: 'script', languageId: 'json', content: '{}' }
+		]);
+		assertRegions('<script type="text/x-template"><div></div></script><script type="text/html"><div></div></script><script></script>', []);
+		assertRegions('<style type="text/less">p { a: b; }</style><style type=" Text/CSS ">p { }</style><style type="constructor">p { }</style>', [
+			{ kind: 'style', languageId: 'css', content: 'p { }' }
+		]);
+	});
+
+	test('Attribute values', () => {
+		assertRegions('<div style="color: red" onclick=\'f()\' onmouseover=g()></div><p class="a" title="b"></p>', [
+			{ kind: 'styleAttribute', languageId: 'css', content: 'color: red' },
+			{ kind: 'eventHandler', languageId: 'javascript', content: 'f()' },
+			{ kind: 'eventHandler', languageId: 'javascript', content: 'g()' }
+		]);
+	});
+
+	test('Embedded documents', () => {
+		assertEmbeddedDocument('<style>p { }</style>\n<script>var a;</script>', 'css', '       p { }        \n                       ');
+		assertEmbeddedDocument('<style>p { }</style>\n<script>var a;</script>', 'javascript', '                    \n        var a;         ');
+		assertEmbeddedDocument('<div style="color: red"></div>', 'css', '         __{color: red}       ');
+		assertEmbeddedDocument('<div style="color: red"></div>', 'css', repeat(' ', 30), true);
+		assertEmbeddedDocument('<div onclick="f()"><script>\nvar a;</script></div>', 'javascript', repeat(' ', 14) + 'f();' + repeat(' ', 9) + '\nvar a;' + repeat(' ', 15));
+	});
+
+	test('Language at position', () => {
+		const document = TextDocument.create('test://test/test.html', 'html', 0, '<div style="a"><style>p { }</style><script type="importmap">{}</script></div>');
+		const regions = ls.getDocumentRegions(document);
+		assert.equal(regions.getLanguageAtPosition(document.positionAt(2)), 'html');
+		assert.equal(regions.getLanguageAtPosition(document.positionAt(12)), 'css');
+		assert.equal(regions.getLanguageAtPosition(document.positionAt(24)), 'css');
+		assert.equal(regions.getLanguageAtPosition(document.positionAt(60)), 'json');
+		assert.deepEqual(regions.getLanguagesInDocument(), ['html', 'css', 'json']);
+		assert.equal(ls.getEmbeddedDocument(document, 'json').getText(), repeat(' ', 60) + '{}' + repeat(' ', 15));
+	});
+});
@@ -108,6 +108,35 @@ suite('HTML Folding', () => {
 
 
 
+	test('Fold elements with optional end tags', () => {
+		const input = [
+			/*0*/'<ul>',
+			/*1*/'<li>',
+			/*2*/'One',
+			/*3*/'<li>',
+			/*4*/'Two',
+			/*5*/'</ul>',
+			/*6*/'<p>',
+			/*7*/'Text',
+			/*8*/'<div>',
+			/*9*/'</div>',
+		];
+		assertRanges(input, [r(0, 4), r(1, 2), r(3, 4), r(6, 7)]);
+	});
+
+	test('Fold table with optional end tags', () => {
+		const input = [
+			/*0*/'<table>',
+			/*1*/'<tr>',
+			/*2*/'<td>',
+			/*3*/'a',
+			/*4*/'<tr>',
+			/*5*/'<td>b',
+			/*6*/'</table>',
+		];
+		assertRanges(input, [r(0, 5), r(1, 3), r(2, 3), r(4, 5)]);
+	});
+
 	test('Fold incomplete', () => {
 		const input = [
 			/*0*/'<body>',
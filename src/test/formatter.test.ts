@@ -2,12 +2,12 @@
  *  Copyright (c) Microsoft Corporation. All rights reserved.
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import { getLanguageService, TextDocument, Range } from '../htmlLanguageService';
+import { getLanguageService, TextDocument, Range, TextEdit, HTMLFormatConfiguration, EmbeddedContentFormatter } from '../htmlLanguageService';
 import * as assert from 'assert';
 
 suite('JSON Formatter', () => {
 
-	function format(unformatted: string, expected: string, insertSpaces = true) {
+	function format(unformatted: string, expected: string, options: HTMLFormatConfiguration = {}) {
 		let range: Range | undefined = void 0;
 		const uri = 'test://test.html';
 
@@ -23,11 +23,19 @@ suite('JSON Formatter', () => {
 		}
 
 		var document = TextDocument.create(uri, 'html', 0, unformatted);
-		const edits = getLanguageService().format(document, range, { tabSize: 2, insertSpaces: insertSpaces, unformatted: '' });
+		const edits = getLanguageService().format(document, range, { tabSize: 2, insertSpaces: true, unformatted: '', ...options });
+		for (let i = 1; i < edits.length; i++) {
+			assert.ok(document.offsetAt(edits[i - 1].range.end) < document.offsetAt(edits[i].range.start), 'edits must be sorted and must not touch');
+		}
 		const formatted = TextDocument.applyEdits(document, edits);
 		assert.equal(formatted, expected);
 	}
 
+	function getEdits(content: string, options: HTMLFormatConfiguration = {}) {
+		const document = TextDocument.create('test://test.html', 'html', 0, content);
+		return getLanguageService().format(document, undefined, { tabSize: 2, insertSpaces: true, ...options });
+	}
+
 	test('full document', () => {
 		var content = [
 			'<div  class = "foo">',
@@ -124,7 +132,7 @@ suite('JSON Formatter', () => {
 
 		var expected = [
 			'<div  class = "foo">',
-			'  <img  src = "foo">    ',
+			'  <img src="foo">    ',
 			'  ',
 			' </div>'
 		].join('\n');
@@ -141,10 +149,10 @@ suite('JSON Formatter', () => {
 		].join('\n');
 
 		var expected = [
-			'<div  class = "foo">',
-			'  <img  src = "foo">    ',
-			'  ',
-			' </div>'
+			'<div class="foo">',
+			'  <img src="foo">',
+			'',
+			'</div>'
 		].join('\n');
 
 		format(content, expected);
@@ -156,7 +164,7 @@ suite('JSON Formatter', () => {
 		].join('\n');
 
 		var expected = [
-			'<div class= "foo">'
+			'<div class="foo">'
 		].join('\n');
 
 		format(content, expected);
@@ -345,4 +353,425 @@ suite('JSON Formatter', () => {
 		format(content, expected);
 	});
 
+
+	test('EOL', () => {
+		var content = [
+			'<div>',
+			'<p>a</p></div>'
+		].join('\r\n');
+
+		var expected = [
+			'<div>',
+			'  <p>a</p>',
+			'</div>'
+		].join('\r\n');
+
+		format(content, expected);
+	});
+
+	test('block and inline elements', () => {
+		var content = [
+			'<div><p>Some <b>bold</b>   text</p><p>x</p>',
+			'<!-- comment --> <span>a</span></div>'
+		].join('\n');
+
+		var expected = [
+			'<div>',
+			'  <p>Some <b>bold</b> text</p>',
+			'  <p>x</p>',
+			'  <!-- comment --> <span>a</span>',
+			'</div>'
+		].join('\n');
+
+		format(content, expected);
+		format('<p>a < b   c</p>', '<p>a < b c</p>');
+	});
+
+	test('document', () => {
+		var content = [
+			'<!DOCTYPE html><html><head><title>x</title></head>',
+			'<body><p>a</p></body></html>'
+		].join('\n');
+
+		var expected = [
+			'<!DOCTYPE html>',
+			'<html>',
+			'',
+			'<head>',
+			'  <title>x</title>',
+			'</head>',
+			'',
+			'<body>',
+			'  <p>a</p>',
+			'</body>',
+			'',
+			'</html>'
+		].join('\n');
+
+		format(content, expected);
+
+		var expectedIndentInnerHtml = [
+			'<!DOCTYPE html>',
+			'<html>',
+			'  <head>',
+			'    <title>x</title>',
+			'  </head>',
+			'  <body>',
+			'    <p>a</p>',
+			'  </body>',
+			'</html>'
+		].join('\n');
+
+		format(content, expectedIndentInnerHtml, { indentInnerHtml: true, extraLiners: '' });
+	});
+
+	test('wrapAttributes', () => {
+		var content = [
+			'<div class="a" id="b"',
+			'  title="c">x</div>'
+		].join('\n');
+
+		format(content, '<div class="a" id="b" title="c">x</div>');
+		format(content, [
+			'<div class="a" id="b"',
+			'  title="c">x</div>'
+		].join('\n'), { wrapLineLength: 25 });
+		format(content, [
+			'<div class="a"',
+			'  id="b"',
+			'  title="c">x</div>'
+		].join('\n'), { wrapAttributes: 'force' });
+		format(content, [
+			'<div class="a"',
+			'     id="b"',
+			'     title="c">x</div>'
+		].join('\n'), { wrapAttributes: 'force-aligned' });
+		format(content, [
+			'<div',
+			'  class="a"',
+			'  id="b"',
+			'  title="c"',
+			'>x</div>'
+		].join('\n'), { wrapAttributes: 'force-expand-multiline' });
+		format(content, [
+			'<div class="a" id="b"',
+			'    title="c">x</div>'
+		].join('\n'), { wrapAttributes: 'preserve', wrapAttributesIndentSize: 4 });
+		format(content, [
+			'<div class="a" id="b"',
+			'     title="c">x</div>'
+		].join('\n'), { wrapAttributes: 'preserve-aligned' });
+		format('<img  src="a"   />', '<img src="a" />', { wrapAttributes: 'force' });
+	});
+
+	test('wrapLineLength', () => {
+		var content = [
+			'<p>aaa bbb ccc ddd</p>'
+		].join('\n');
+
+		var expected = [
+			'<p>aaa bbb',
+			'  ccc ddd',
+			'</p>'
+		].join('\n');
+
+		format(content, expected, { wrapLineLength: 10 });
+		format(content, content, { wrapLineLength: 0 });
+	});
+
+	test('newlines', () => {
+		var content = [
+			'<div>',
+			'',
+			'',
+			'<p>a</p>',
+			'',
+			'<p>b</p></div>'
+		].join('\n');
+
+		format(content, [
+			'<div>',
+			'',
+			'',
+			'  <p>a</p>',
+			'',
+			'  <p>b</p>',
+			'</div>'
+		].join('\n'));
+		format(content, [
+			'<div>',
+			'  <p>a</p>',
+			'  <p>b</p>',
+			'</div>'
+		].join('\n'), { maxPreserveNewLines: 1 });
+		format(content, [
+			'<div>',
+			'  <p>a</p>',
+			'  <p>b</p>',
+			'</div>'
+		].join('\n'), { preserveNewLines: false });
+		format(content, [
+			'<div>',
+			'  ',
+			'  ',
+			'  <p>a</p>',
+			'  ',
+			'  <p>b</p>',
+			'</div>'
+		].join('\n'), { indentEmptyLines: true });
+		format('<p>a</p>\n\n', '<p>a</p>\n', { endWithNewline: true });
+	});
+
+	test('scripts', () => {
+		var content = [
+			'<div><script>',
+			'    if (a) {',
+			'        b();',
+			'    }',
+			'',
+			'</script></div>'
+		].join('\n');
+
+		format(content, [
+			'<div>',
+			'  <script>',
+			'    if (a) {',
+			'        b();',
+			'    }',
+			'  </script>',
+			'</div>'
+		].join('\n'));
+		format(content, [
+			'<div>',
+			'  <script>',
+			'  if (a) {',
+			'      b();',
+			'  }',
+			'  </script>',
+			'</div>'
+		].join('\n'), { indentScripts: 'keep' });
+		format(content, [
+			'<div>',
+			'  <script>',
+			'if (a) {',
+			'    b();',
+			'}',
+			'  </script>',
+			'</div>'
+		].join('\n'), { indentScripts: 'separate' });
+		format('<style>p { color: red; }</style>', '<style>p { color: red; }</style>');
+	});
+
+	test('embedded formatters', () => {
+		const calls: string[] = [];
+		const css: EmbeddedContentFormatter = (document, options) => {
+			calls.push(`${document.languageId}:${JSON.stringify(options.baseIndent)}`);
+			const text = document.getText().trim().replace(/\s*\{\s*/, ' {\n  ').replace(/\s*\}$/, ';\n}');
+			return [TextEdit.replace(Range.create(document.positionAt(0), document.positionAt(document.getText().length)), text)];
+		};
+		const js: EmbeddedContentFormatter = (document, options) => {
+			calls.push(`${document.languageId}:${JSON.stringify(options.baseIndent)}`);
+			return [TextEdit.replace(Range.create(document.positionAt(0), document.positionAt(document.getText().length)), options.baseIndent + document.getText().trim() + ';')];
+		};
+		const embeddedFormatters = { css, javascript: js };
+
+		var content = [
+			'<div>',
+			'<style>p{color:red}</style>',
+			'<script>a()</script>',
+			'<script type="text/template"><p>a</p></script>',
+			'<script type="application/json">{}</script>',
+			'<script>  </script>',
+			'</div>'
+		].join('\n');
+
+		var expected = [
+			'<div>',
+			'  <style>',
+			'    p {',
+			'      color:red;',
+			'    }',
+			'  </style>',
+			'  <script>',
+			'    a();',
+			'  </script>',
+			'  <script type="text/template"><p>a</p></script>',
+			'  <script type="application/json">{}</script>',
+			'  <script>  </script>',
+			'</div>'
+		].join('\n');
+
+		format(content, expected, { embeddedFormatters });
+		assert.deepEqual(calls, ['css:"    "', 'javascript:"    "']);
+
+		calls.length = 0;
+		format('<div><script>a()</script></div>', '<div>\n  <script>\na();\n  </script>\n</div>', { embeddedFormatters, indentScripts: 'separate' });
+		assert.deepEqual(calls, ['javascript:""']);
+
+		calls.length = 0;
+		format('<style type="text/less">p{color:red}</style>', '<style type="text/less">p{color:red}</style>', { embeddedFormatters });
+		format('<style type=\'Text/CSS\'>p{color:red}</style>', '<style type=\'Text/CSS\'>\n  p {\n    color:red;\n  }\n</style>', { embeddedFormatters });
+		assert.deepEqual(calls, ['css:"  "']);
+
+		const failing: EmbeddedContentFormatter = () => {
+			throw new Error('formatter failed');
+		};
+		format('<div><script>\n  a();\n</script></div>', '<div>\n  <script>\n    a();\n  </script>\n</div>', { embeddedFormatters: { javascript: failing } });
+
+		format('<style>\np{color:red}\n</style>', '<style>\n\tp {\n\t\tcolor:red;\n\t}\n</style>', { embeddedFormatters, insertSpaces: false, tabSize: 2 });
+	});
+
+	test('unformatted', () => {
+		format('<div><span>  a  </span></div>', '<div><span>  a  </span></div>', { unformatted: 'span' });
+		format('<div><pre>  a\n     b</pre></div>', '<div>\n  <pre>  a\n     b</pre>\n</div>');
+		format('<div><code>  a\n     b</code></div>', '<div><code>  a\n     b</code>\n</div>', { contentUnformatted: 'code' });
+	});
+
+	test('templating', () => {
+		format('<p>{{ a   b }}   c</p>', '<p>{{ a b }} c</p>');
+		format('<p>{{ a   b }}   c</p>', '<p>{{ a   b }} c</p>', { templating: true });
+		format('<p>%%a   b%%   c</p>', '<p>%%a   b%% c</p>', { unformattedContentDelimiter: '%%' });
+
+		var content = [
+			'<ul>{{#each items}}<li>{{this}}</li>{{else}}<li>none</li>{{/each}}</ul>'
+		].join('\n');
+
+		var expected = [
+			'<ul>',
+			'  {{#each items}}',
+			'    <li>{{this}}</li>',
+			'  {{else}}',
+			'    <li>none</li>',
+			'  {{/each}}',
+			'</ul>'
+		].join('\n');
+
+		format(content, expected, { indentHandlebars: true });
+	});
+
+	test('attribute order', () => {
+		format('<a onclick="f()" href="#" aria-label="b" data-x="1" title="c" class="d" id="e">a</a>', '<a id="e" class="d" data-x="1" href="#" aria-label="b" title="c" onclick="f()">a</a>', { sortAttributes: true });
+		format('<img alt="a" src="b" id="c">', '<img alt="a" src="b" id="c">');
+		format('<img alt="a" src="b" id="c" width="1">', '<img src="b" alt="a" width="1" id="c">', { sortAttributes: true, attributeGroups: 'src, *, id' });
+		format('<img alt="a" Src="b" ID="c">', '<img Src="b" ID="c" alt="a">', { sortAttributes: true, attributeGroups: 'id|src' });
+		format('<div title="a" {{#if b}}hidden{{/if}} id="c"></div>', '<div title="a" {{#if b}}hidden{{/if}} id="c"></div>', { sortAttributes: true });
+		format('<div\n  title="a"\n  id="b"></div>', '<div\n  id="b"\n  title="a"></div>', { sortAttributes: true, wrapAttributes: 'preserve' });
+	});
+
+	test('attribute quotes', () => {
+		format('<div title=\'a\' id=b class="c"></div>', '<div title="a" id="b" class="c"></div>', { attributeQuotes: 'double' });
+		format('<div title=\'a\' id=b class="c"></div>', '<div title=\'a\' id=\'b\' class=\'c\'></div>', { attributeQuotes: 'single' });
+		format('<div title=\'a "b"\' class="it\'s"></div>', '<div title=\'a "b"\' class="it\'s"></div>', { attributeQuotes: 'double' });
+		format('<div title=\'a "b"\' class="it\'s"></div>', '<div title=\'a "b"\' class="it\'s"></div>', { attributeQuotes: 'single' });
+		format('<div title=\'a\' id=b></div>', '<div title=\'a\' id=b></div>');
+	});
+
+	test('boolean attributes', () => {
+		format('<input disabled="disabled" checked=\'\' required=REQUIRED readonly="false" value="value">', '<input disabled checked required readonly="false" value="value">', { collapseBooleanAttributes: true });
+		format('<input disabled="disabled">', '<input disabled="disabled">');
+		format('<my-element disabled="disabled"></my-element>', '<my-element disabled="disabled"></my-element>', { collapseBooleanAttributes: true });
+	});
+
+	test('lowercase names', () => {
+		format('<DIV Class="a" ID="b"><P>a</p></DIV>', '<div Class="a" ID="b">\n  <p>a</p>\n</div>', { lowercaseTagNames: true });
+		format('<DIV Class="a" ID="b" OnClick="f()" NgModel="c"></DIV>', '<DIV class="a" id="b" onclick="f()" NgModel="c"></DIV>', { lowercaseAttributeNames: true });
+		format('<svg viewBox="0 0 1 1"><linearGradient></linearGradient></svg>', '<svg viewBox="0 0 1 1">\n  <linearGradient></linearGradient></svg>', { lowercaseTagNames: true, lowercaseAttributeNames: true });
+		format('<MyComponent></MyComponent>', '<MyComponent></MyComponent>', { lowercaseTagNames: true });
+	});
+
+	test('range in comment', () => {
+		var content = [
+			'<div>',
+			'  <!-- a |comment -->   <img  src="foo">|',
+			'</div>'
+		].join('\n');
+
+		var expected = [
+			'<div>',
+			'  <!-- a comment --> <img src="foo">',
+			'</div>'
+		].join('\n');
+
+		format(content, expected);
+	});
+
+	test('edits', () => {
+		var content = [
+			'<div>',
+			'  <p>a</p>',
+			'<p>b</p>',
+			'</div>'
+		].join('\n');
+		assert.deepEqual(getEdits(content), [{ range: Range.create(2, 0, 2, 0), newText: '  ' }]);
+
+		content = [
+			'<div  class = "foo"><p>a</p>',
+			'      <img  src="b"   >  </div>'
+		].join('\r\n');
+		assert.deepEqual(getEdits(content), [
+			{ range: Range.create(0, 5, 0, 6), newText: '' },
+			{ range: Range.create(0, 11, 0, 12), newText: '' },
+			{ range: Range.create(0, 13, 0, 14), newText: '' },
+			{ range: Range.create(0, 20, 0, 20), newText: '\r\n  ' },
+			{ range: Range.create(1, 2, 1, 6), newText: '' },
+			{ range: Range.create(1, 11, 1, 12), newText: '' },
+			{ range: Range.create(1, 19, 1, 22), newText: '' },
+			{ range: Range.create(1, 23, 1, 25), newText: '\r\n' }
+		]);
+
+		assert.deepEqual(getEdits('<p>a</p>'), []);
+	});
+
+	test('whitespace-only edits', () => {
+		const contents = [
+			'<!DOCTYPE html><html><head><title>x</title></head>\n<body><p>a</p></body></html>',
+			'<div><script>\n    if (a) {\n        b();\n    }\n\n</script></div>',
+			'<ul>{{#each items}}<li>{{this}}</li>{{/each}}</ul>',
+			'<div class="a" id="b"\n  title="c">x</div>',
+			'<div>\n<!-- a comment -->   <img  src="foo" / >\n<p>para<div>block</div>\n</div>'
+		];
+		const options: HTMLFormatConfiguration[] = [{}, { wrapAttributes: 'force-expand-multiline' }, { indentHandlebars: true, indentInnerHtml: true }, { wrapLineLength: 10 }];
+		for (const content of contents) {
+			for (const option of options) {
+				for (const edit of getEdits(content, option)) {
+					const document = TextDocument.create('test://test.html', 'html', 0, content);
+					assert.ok(/^\s*$/.test(document.getText(edit.range)), `replaced text must be whitespace: ${JSON.stringify(edit)}`);
+					assert.ok(/^\s*$/.test(edit.newText), `new text must be whitespace: ${JSON.stringify(edit)}`);
+				}
+			}
+		}
+	});
+
+
+	function formatOnType(content: string, ch: string, expected: string, options: HTMLFormatConfiguration = {}) {
+		const offset = content.indexOf('|');
+		content = content.substring(0, offset) + content.substring(offset + 1);
+		const document = TextDocument.create('test://test.html', 'html', 0, content);
+		const ls = getLanguageService();
+		const edits = ls.doOnTypeFormatting(document, document.positionAt(offset), ch, ls.parseHTMLDocument(document), { tabSize: 2, insertSpaces: true, ...options });
+		assert.equal(TextDocument.applyEdits(document, edits), expected);
+	}
+
+	test('on type formatting', () => {
+		formatOnType('<div>\n|</div>', '\n', '<div>\n  \n</div>');
+		formatOnType('  <div>\n    |</div>', '\n', '  <div>\n    \n  </div>');
+		formatOnType('<div>\n  <p>a</p>\n|</div>', '\n', '<div>\n  <p>a</p>\n</div>');
+		formatOnType('<div>\n  <p>a</p>\n|<p>b</p>\n</div>', '\n', '<div>\n  <p>a</p>\n  <p>b</p>\n</div>');
+		formatOnType('<ul>\n\t<li>\n|', '\n', '<ul>\n\t<li>\n\t  ', { insertSpaces: true });
+		formatOnType('<ul>\n\t<li>\n|', '\n', '<ul>\n\t<li>\n\t\t', { insertSpaces: false });
+		formatOnType('<html>\n|</html>', '\n', '<html>\n\n</html>');
+		formatOnType('<html>\n|</html>', '\n', '<html>\n  \n</html>', { indentInnerHtml: true });
+		formatOnType('<div\n|class="a">', '\n', '<div\n  class="a">');
+		formatOnType('<div\n|class="a">', '\n', '<div\n    class="a">', { wrapAttributesIndentSize: 4 });
+		formatOnType('<div>\n<script>\n|</script>', '\n', '<div>\n<script>\n</script>');
+		formatOnType('<!--\n|-->', '\n', '<!--\n-->');
+		formatOnType('<div>\r\n|</div>', '\n', '<div>\r\n  \r\n</div>');
+
+		formatOnType('  <div>\n      </|', '/', '  <div>\n  </');
+		formatOnType('<div>\n  <p>\n      </|', '/', '<div>\n  <p>\n  </');
+		formatOnType('<div>\n  <p>a</p>\n      </div>|', '>', '<div>\n  <p>a</p>\n</div>');
+		formatOnType('<div>\n  <p>a</p> </div>|', '>', '<div>\n  <p>a</p> </div>');
+		formatOnType('<div>\n  <p>a</|', '/', '<div>\n  <p>a</');
+	});
+
 });
@@ -59,4 +59,38 @@ suite('HTML Hover', () => {
 		};
 		assertHover2('<html|></html>', noReferences, 'html', undefined, { references: false });
 	});
+
+	test('Status', function (): any {
+		const centerContent: MarkupContent = {
+			kind: 'markdown',
+			value: '**Obsolete.** Use the CSS `text-align` or `margin` properties.\n\nThe center element centered its content horizontally.\n\n[MDN Reference](https://developer.mozilla.org/docs/Web/HTML/Element/center)'
+		};
+		assertHover('<cen|ter></center>', centerContent, 1);
+
+		const alignContent: MarkupContent = {
+			kind: 'markdown',
+			value: '**Obsolete.** Use the CSS `text-align`, `vertical-align` or `float` properties.'
+		};
+		assertHover2('<table><tr><td al|ign="left"></td></tr></table>', alignContent, 'align', undefined, { documentation: false, references: false });
+	});
+
+	test('Browser support', function (): any {
+		const popoverContent: MarkupContent = {
+			kind: 'markdown',
+			value: 'Turns the element into a popover that is hidden until it is shown by a button with a `popovertarget` attribute or by `showPopover()`. `auto` popovers close when the user clicks outside of them or opens another popover, `manual` popovers only close explicitly.' +
+				'\n\nNewly available across major browsers (Baseline since 2024)' +
+				'\n\nBrowser support: Edge 114, Firefox 125, Safari 17, Chrome 114, Opera 100'
+		};
+		assertHover2('<div pop|over="auto"></div>', popoverContent, 'popover', undefined, { references: false });
+	});
+
+	test('ARIA roles', function (): any {
+		const description = 'Defines a string value that labels the current element. See related [`aria-labelledby`](https://www.w3.org/TR/wai-aria-1.1/#aria-labelledby).';
+		assertHover2('<button aria-la|bel="Close"></button>', { kind: 'markdown', value: description }, 'aria-label', undefined, { references: false });
+		assertHover2('<p aria-la|bel="Note"></p>', { kind: 'markdown', value: 'Not supported by role \'paragraph\'.\n\n' + description }, 'aria-label', undefined, { references: false });
+		assertHover2('<p role="note" aria-la|bel="Note"></p>', { kind: 'markdown', value: description }, 'aria-label', undefined, { references: false });
+
+		const levelContent = 'Defines the hierarchical level of an [element](https://www.w3.org/TR/wai-aria-1.1/#dfn-element) within a structure.';
+		assertHover2('<div role="heading" aria-le|vel="2"></div>', { kind: 'markdown', value: 'Required by role \'heading\'.\n\n' + levelContent }, 'aria-level', undefined, { references: false });
+	});
 });
@@ -4,7 +4,8 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as assert from 'assert';
-import { Node, parse } from '../parser/htmlParser';
+import { Node, parse, updateHTMLDocument } from '../parser/htmlParser';
+import { TextDocument, TextDocumentContentChangeEvent } from '../htmlLanguageTypes';
 
 suite('HTML Parser', () => {
 
@@ -61,6 +62,66 @@ suite('HTML Parser', () => {
 		assertDocument('<h1><div><span></h1>', [{ tag: 'h1', start: 0, end: 20, endTagStart: 15, closed: true, children: [{ tag: 'div', start: 4, end: 15, endTagStart: void 0, closed: false, children: [{ tag: 'span', start: 9, end: 15, endTagStart: void 0, closed: false, children: [] }] }] }]);
 	});
 
+	test('ImpliedEndTags', () => {
+		assertDocument('<ul><li>a<li>b</ul>', [{
+			tag: 'ul', start: 0, end: 19, endTagStart: 14, closed: true, children: [
+				{ tag: 'li', start: 4, end: 9, endTagStart: void 0, closed: true, children: [] },
+				{ tag: 'li', start: 9, end: 14, endTagStart: void 0, closed: true, children: [] }
+			]
+		}]);
+		assertDocument('<p>one<p>two', [
+			{ tag: 'p', start: 0, end: 6, endTagStart: void 0, closed: true, children: [] },
+			{ tag: 'p', start: 6, end: 12, endTagStart: void 0, closed: false, children: [] }
+		]);
+		assertDocument('<p><span>a<div></div>', [
+			{ tag: 'p', start: 0, end: 10, endTagStart: void 0, closed: true, children: [{ tag: 'span', start: 3, end: 10, endTagStart: void 0, closed: false, children: [] }] },
+			{ tag: 'div', start: 10, end: 21, endTagStart: 15, closed: true, children: [] }
+		]);
+		assertDocument('<dl><dt>a<dd>b</dl>', [{
+			tag: 'dl', start: 0, end: 19, endTagStart: 14, closed: true, children: [
+				{ tag: 'dt', start: 4, end: 9, endTagStart: void 0, closed: true, children: [] },
+				{ tag: 'dd', start: 9, end: 14, endTagStart: void 0, closed: true, children: [] }
+			]
+		}]);
+		assertDocument('<select><option>a<optgroup><option>b</select>', [{
+			tag: 'select', start: 0, end: 45, endTagStart: 36, closed: true, children: [
+				{ tag: 'option', start: 8, end: 17, endTagStart: void 0, closed: true, children: [] },
+				{ tag: 'optgroup', start: 17, end: 36, endTagStart: void 0, closed: true, children: [{ tag: 'option', start: 27, end: 36, endTagStart: void 0, closed: true, children: [] }] }
+			]
+		}]);
+		assertDocument('<table><tr><td>a<th>b<tr><td>c</table>', [{
+			tag: 'table', start: 0, end: 38, endTagStart: 30, closed: true, children: [
+				{ tag: 'tr', start: 7, end: 21, endTagStart: void 0, closed: true, children: [{ tag: 'td', start: 11, end: 16, endTagStart: void 0, closed: true, children: [] }, { tag: 'th', start: 16, end: 21, endTagStart: void 0, closed: true, children: [] }] },
+				{ tag: 'tr', start: 21, end: 30, endTagStart: void 0, closed: true, children: [{ tag: 'td', start: 25, end: 30, endTagStart: void 0, closed: true, children: [] }] }
+			]
+		}]);
+		assertDocument('<ruby>a<rp>(<rt>b<rp>)</ruby>', [{
+			tag: 'ruby', start: 0, end: 29, endTagStart: 22, closed: true, children: [
+				{ tag: 'rp', start: 7, end: 12, endTagStart: void 0, closed: true, children: [] },
+				{ tag: 'rt', start: 12, end: 17, endTagStart: void 0, closed: true, children: [] },
+				{ tag: 'rp', start: 17, end: 22, endTagStart: void 0, closed: true, children: [] }
+			]
+		}]);
+	});
+
+	test('ImpliedEndTags - nested', () => {
+		assertDocument('<ul><li><ul><li>a</ul><li>b</ul>', [{
+			tag: 'ul', start: 0, end: 32, endTagStart: 27, closed: true, children: [
+				{ tag: 'li', start: 4, end: 22, endTagStart: void 0, closed: true, children: [{ tag: 'ul', start: 8, end: 22, endTagStart: 17, closed: true, children: [{ tag: 'li', start: 12, end: 17, endTagStart: void 0, closed: true, children: [] }] }] },
+				{ tag: 'li', start: 22, end: 27, endTagStart: void 0, closed: true, children: [] }
+			]
+		}]);
+		assertDocument('<p>a<button><div></div></button></p>', [{
+			tag: 'p', start: 0, end: 36, endTagStart: 32, closed: true, children: [
+				{ tag: 'button', start: 4, end: 32, endTagStart: 23, closed: true, children: [{ tag: 'div', start: 12, end: 23, endTagStart: 17, closed: true, children: [] }] }
+			]
+		}]);
+		assertDocument('<LI>a<Li>b', [
+			{ tag: 'LI', start: 0, end: 5, endTagStart: void 0, closed: true, children: [] },
+			{ tag: 'Li', start: 5, end: 10, endTagStart: void 0, closed: false, children: [] }
+		]);
+	});
+
 	test('MissingBrackets', () => {
 		assertDocument('<div><div</div>', [{ tag: 'div', start: 0, end: 15, endTagStart: 9, closed: true, children: [{ tag: 'div', start: 5, end: 9, endTagStart: void 0, closed: false, children: [] }] }]);
 		assertDocument('<div><div\n</div>', [{ tag: 'div', start: 0, end: 16, endTagStart: 10, closed: true, children: [{ tag: 'div', start: 5, end: 10, endTagStart: void 0, closed: false, children: [] }] }]);
@@ -125,4 +186,74 @@ suite('HTML Parser', () => {
 			children: []
 		}]);
 	});
-});
\ No newline at end of file
+
+	test('Attribute ranges', () => {
+		const str = '<div id="a" Class=\'b c\' checked data-x=1 id=other></div>';
+		const node = parse(str).roots[0];
+		assert.deepEqual(node.getAttributes(), [
+			{ name: 'id', nameStart: 5, nameEnd: 7, value: '"a"', valueStart: 8, valueEnd: 11, quote: '"' },
+			{ name: 'Class', nameStart: 12, nameEnd: 17, value: '\'b c\'', valueStart: 18, valueEnd: 23, quote: '\'' },
+			{ name: 'checked', nameStart: 24, nameEnd: 31, value: null },
+			{ name: 'data-x', nameStart: 32, nameEnd: 38, value: '1', valueStart: 39, valueEnd: 40 },
+			{ name: 'id', nameStart: 41, nameEnd: 43, value: 'other', valueStart: 44, valueEnd: 49, duplicate: true }
+		]);
+		assert.equal(node.getAttribute('class')!.value, '\'b c\'');
+		assert.equal(node.getAttribute('ID')!.value, '"a"');
+		assert.equal(node.getAttribute('title'), undefined);
+		assert.deepEqual(parse('<div></div>').roots[0].getAttributes(), []);
+	});
+
+	function toJSONWithRanges(node: Node, parent?: Node): any {
+		assert.ok(node.parent === parent, 'parent of ' + node.tag);
+		return { tag: node.tag, start: node.start, startTagEnd: node.startTagEnd, end: node.end, endTagStart: node.endTagStart, closed: node.closed, attributes: node.getAttributes(), children: node.children.map(c => toJSONWithRanges(c, node)) };
+	}
+
+	function assertIncrementalUpdate(input: string, changes: TextDocumentContentChangeEvent[]) {
+		const document = TextDocument.create('test://test/test.html', 'html', 0, input);
+		const previous = parse(input);
+		TextDocument.update(document, changes, 1);
+		const text = document.getText();
+		const updated = updateHTMLDocument(previous, text, changes);
+		const expected = parse(text);
+		assert.deepEqual(updated.roots.map(c => toJSONWithRanges(c, c.parent)), expected.roots.map(c => toJSONWithRanges(c, c.parent)), JSON.stringify({ input, changes }));
+		assert.equal(updated.findNodeAt(text.length - 1).tag, expected.findNodeAt(text.length - 1).tag);
+	}
+
+	function edit(input: string, start: number, end: number, newText: string): TextDocumentContentChangeEvent {
+		const document = TextDocument.create('test://test/test.html', 'html', 0, input);
+		return { range: { start: document.positionAt(start), end: document.positionAt(end) }, text: newText };
+	}
+
+	test('Incremental update', () => {
+		const input = '<html><body><div id="a"><span>x</span></div><p class="b">text</p><ul><li>a<li>b</ul></body></html>';
+		assertIncrementalUpdate(input, [edit(input, 31, 31, 'yz')]);
+		assertIncrementalUpdate(input, [edit(input, 19, 22, '"other"')]);
+		assertIncrementalUpdate(input, [edit(input, 12, 24, '')]);
+		assertIncrementalUpdate(input, [edit(input, 24, 24, '<section>')]);
+		assertIncrementalUpdate(input, [edit(input, 38, 44, '')]);
+		assertIncrementalUpdate(input, [edit(input, 44, 44, '<p>')]);
+		assertIncrementalUpdate(input, [edit(input, 0, 0, '<!DOCTYPE html>\n')]);
+		assertIncrementalUpdate(input, [edit(input, 75, 75, '<li>c')]);
+		assertIncrementalUpdate(input, [edit(input, 2, 2, 'x')]);
+		assertIncrementalUpdate(input, [edit(input, 31, 31, '<!--'), edit(input, 0, 0, '')]);
+		assertIncrementalUpdate(input, [{ text: '<div></div>' }]);
+		assertIncrementalUpdate('<div>\n<span>\n</span>\n</div>', [edit('<div>\n<span>\n</span>\n</div>', 13, 13, '</span><span>'), edit('<div>\n<span>\n</span>\n</div>', 0, 0, '<p>')]);
+	});
+
+	test('Incremental update - random edits', () => {
+		let seed = 42;
+		const random = (n: number) => {
+			seed = (seed * 1103515245 + 12345) % 2147483648;
+			return seed % n;
+		};
+		const fragments = ['<div>', '</div>', '<p>', '</p>', '<li>', '<ul>', '</ul>', '<br>', '<span a="1">', '</span>', '<', '>', '/', '"', ' ', 'x', '<!--', '-->', '<script>', '</script>', '<table><tr><td>', '\n'];
+		let text = '<html><head><title>t</title></head><body><div class="a"><ul><li>a<li>b</ul><p>c<p>d</div><span id=x>e</span></body></html>';
+		for (let i = 0; i < 500; i++) {
+			const start = random(text.length + 1);
+			const end = Math.min(text.length, start + random(4));
+			const change = edit(text, start, end, random(3) === 0 ? '' : fragments[random(fragments.length)]);
+			assertIncrementalUpdate(text, [change]);
+			text = text.substring(0, start) + change.text + text.substring(end);
+		}
+	});
+});
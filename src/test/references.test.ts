@@ -0,0 +1,55 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as htmlLanguageService from '../htmlLanguageService';
+import { TextDocument, Location } from '../htmlLanguageService';
+
+suite('HTML References', () => {
+
+	const ls = htmlLanguageService.getLanguageService();
+
+	function toOffsets(document: TextDocument, location: Location): number[] {
+		assert.equal(location.uri, document.uri);
+		return [document.offsetAt(location.range.start), document.offsetAt(location.range.end)];
+	}
+
+	function assertDefinition(value: string, expected: number[] | null): void {
+		const offset = value.indexOf('|');
+		value = value.substr(0, offset) + value.substr(offset + 1);
+		const document = TextDocument.create('test://test/test.html', 'html', 0, value);
+		const definition = ls.findDefinition(document, document.positionAt(offset), ls.parseHTMLDocument(document));
+		assert.deepEqual(definition && toOffsets(document, definition), expected, value);
+	}
+
+	function assertReferences(value: string, expected: number[][]): void {
+		const offset = value.indexOf('|');
+		value = value.substr(0, offset) + value.substr(offset + 1);
+		const document = TextDocument.create('test://test/test.html', 'html', 0, value);
+		const references = ls.findReferences(document, document.positionAt(offset), ls.parseHTMLDocument(document));
+		assert.deepEqual(references.map(r => toOffsets(document, r)), expected, value);
+	}
+
+	test('Definition', () => {
+		assertDefinition('<input id="name"><label for="na|me">Name</label>', [11, 15]);
+		assertDefinition('<input id="name"><label for=na|me>Name</label>', [11, 15]);
+		assertDefinition('<div id="a"></div><div id="b"></div><p aria-labelledby="a |b"></p>', [27, 28]);
+		assertDefinition('<h1 id=top></h1><a href="#t|op">Top</a>', [7, 10]);
+		assertDefinition('<map id="m"></map><img usemap="#|m">', [9, 10]);
+		assertDefinition('<input list="colo|rs"><datalist id="colors"></datalist>', [35, 41]);
+		assertDefinition('<div id="n|ame"></div>', [9, 13]);
+		assertDefinition('<label for="na|me">Name</label>', null);
+		assertDefinition('<div class="na|me"></div><p id="name"></p>', null);
+		assertDefinition('<a href="page.html#t|op">Top</a><p id="top"></p>', null);
+	});
+
+	test('References', () => {
+		const value = '<form id="f"><input id="name" form="f"><label for="name">Name</label></form><p aria-describedby="x name" aria-controls="f"></p><a href="#na|me"></a>';
+		assertReferences(value, [[24, 28], [51, 55], [99, 103], [137, 141]]);
+		assertReferences('<div id="|a"></div><div id="a"></div><td headers="b a"></td>', [[9, 10], [27, 28], [51, 52]]);
+		assertReferences('<div id="a"></div><div id="|A"></div>', [[27, 28]]);
+		assertReferences('<d|iv id="a"></div>', []);
+	});
+});
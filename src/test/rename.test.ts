@@ -5,7 +5,7 @@
 
 import * as assert from 'assert';
 import * as htmlLanguageService from '../htmlLanguageService';
-import { WorkspaceEdit, TextDocument } from '../htmlLanguageService';
+import { WorkspaceEdit, TextDocument, PrepareRenameResult } from '../htmlLanguageService';
 
 
 export function testRename(value: string, newName: string, expectedDocContent: string): void {
@@ -48,6 +48,19 @@ export function testNoRename(value: string, newName: string): void {
   assert.ok(workspaceEdit?.changes === undefined, 'Should not rename but rename happened');
 }
 
+export function testPrepareRename(value: string, expected: { start: number; end: number; placeholder: string; kind: string } | null): void {
+  const offset = value.indexOf('|');
+  value = value.substr(0, offset) + value.substr(offset + 1);
+
+  const ls = htmlLanguageService.getLanguageService();
+
+  const document = TextDocument.create('test://test/test.html', 'html', 0, value);
+  const result: PrepareRenameResult | null = ls.prepareRename(document, document.positionAt(offset), ls.parseHTMLDocument(document));
+
+  const actual = result && { start: document.offsetAt(result.range.start), end: document.offsetAt(result.range.end), placeholder: result.placeholder, kind: result.kind };
+  assert.deepEqual(actual, expected, value);
+}
+
 suite('HTML Rename', () => {
   test('Rename tag', () => {
     testRename('<|div></div>', 'h1', '<h1></h1>');
@@ -66,10 +79,6 @@ suite('HTML Rename', () => {
     testNoRename('<div i|d="foo"></div>', 'h1');
     testNoRename('<div id|="foo"></div>', 'h1');
     testNoRename('<div id=|"foo"></div>', 'h1');
-    testNoRename('<div id="|foo"></div>', 'h1');
-    testNoRename('<div id="f|oo"></div>', 'h1');
-    testNoRename('<div id="fo|o"></div>', 'h1');
-    testNoRename('<div id="foo|"></div>', 'h1');
     testNoRename('<div id="foo"|></div>', 'h1');
   });
 
@@ -87,4 +96,31 @@ suite('HTML Rename', () => {
     testRename('<div><|h1></div>', 'h2', '<div><h2></div>');
     testRename('<|div><h1></h1></div>', 'span', '<span><h1></h1></span>');
   });
+
+  test('Rename id', () => {
+    testRename('<div id="|foo"></div>', 'h1', '<div id="h1"></div>');
+    testRename('<div id="f|oo"></div>', 'h1', '<div id="h1"></div>');
+    testRename('<div id="fo|o"></div>', 'h1', '<div id="h1"></div>');
+    testRename('<div id="foo|"></div>', 'h1', '<div id="h1"></div>');
+    testRename(
+      '<input id="na|me"><label for="name">Name</label><p aria-describedby="x name"></p><a href="#name"></a><img usemap="#name">',
+      'fullname',
+      '<input id="fullname"><label for="fullname">Name</label><p aria-describedby="x fullname"></p><a href="#fullname"></a><img usemap="#fullname">'
+    );
+    testRename('<div id=a></div><div id="b"></div><p aria-owns="|a b"></p>', 'c', '<div id=c></div><div id="b"></div><p aria-owns="c b"></p>');
+    testRename('<div id="a"></div><a href="page.html#a"></a><a href="#|a"></a>', 'b', '<div id="b"></div><a href="page.html#a"></a><a href="#b"></a>');
+
+    testNoRename('<div id="|foo"></div>', 'a b');
+    testNoRename('<div class="|foo"></div>', 'bar');
+  });
+
+  test('Prepare rename', () => {
+    testPrepareRename('<d|iv></div>', { start: 1, end: 4, placeholder: 'div', kind: 'tag' });
+    testPrepareRename('<div></d|iv>', { start: 7, end: 10, placeholder: 'div', kind: 'tag' });
+    testPrepareRename('<div id="f|oo"></div>', { start: 9, end: 12, placeholder: 'foo', kind: 'id' });
+    testPrepareRename('<label for="f|oo"></label>', { start: 12, end: 15, placeholder: 'foo', kind: 'id' });
+    testPrepareRename('<div |id="foo"></div>', null);
+    testPrepareRename('<div>|</div>', null);
+    testPrepareRename('<div title="f|oo"></div>', null);
+  });
 });
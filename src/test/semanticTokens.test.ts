@@ -0,0 +1,92 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as htmlLanguageService from '../htmlLanguageService';
+import { TextDocument, Range, SemanticTokens, SemanticTokensDelta } from '../htmlLanguageService';
+
+suite('HTML Semantic Tokens', () => {
+
+	const ls = htmlLanguageService.getLanguageService();
+	const legend = ls.getSemanticTokenLegend();
+
+	function decode(document: TextDocument, data: number[]): string[] {
+		const result: string[] = [];
+		let line = 0;
+		let character = 0;
+		for (let i = 0; i < data.length; i += 5) {
+			line += data[i];
+			character = data[i] === 0 ? character + data[i + 1] : data[i + 1];
+			const start = document.offsetAt({ line, character });
+			const modifiers = legend.tokenModifiers.filter((m, index) => data[i + 4] & (1 << index));
+			result.push([document.getText().substr(start, data[i + 2]), legend.tokenTypes[data[i + 3]], ...modifiers].join(':'));
+		}
+		return result;
+	}
+
+	function assertTokens(value: string, expected: string[], range?: Range): void {
+		const document = TextDocument.create('test://test/test.html', 'html', 0, value);
+		assert.deepEqual(decode(document, ls.getSemanticTokens(document, range).data), expected, value);
+	}
+
+	test('Elements', () => {
+		assertTokens('<div><my-element></my-element><foo/></div>', [
+			'div:element', 'my-element:element:custom', 'my-element:element:custom', 'foo:element:unknown', 'div:element'
+		]);
+		assertTokens('<center><font>a</font></center>', [
+			'center:element:deprecated', 'font:element:deprecated', 'font:element:deprecated', 'center:element:deprecated'
+		]);
+		assertTokens('<svg><path d="M0"/></svg><span></span>', ['svg:element', 'path:element', 'd:attribute', '"M0":attributeValue', 'svg:element', 'span:element', 'span:element']);
+	});
+
+	test('Attributes', () => {
+		assertTokens('<div id="a" data-x=1 onclick="f()" foo></div>', [
+			'div:element', 'id:attribute', '"a":attributeValue', 'data-x:attribute:data', '1:attributeValue',
+			'onclick:attribute:eventHandler', '"f()":attributeValue', 'foo:attribute:custom', 'div:element'
+		]);
+		assertTokens('<td align=left>', ['td:element', 'align:attribute:deprecated', 'left:attributeValue']);
+	});
+
+	test('Names of Object.prototype members', () => {
+		assertTokens('<constructor a="1" class="b"></constructor>', [
+			'constructor:element:unknown', 'a:attribute:custom', '"1":attributeValue', 'class:attribute', '"b":attributeValue', 'constructor:element:unknown'
+		]);
+		assertTokens('<toString><p hasOwnProperty></p></toString>', [
+			'toString:element:unknown', 'p:element', 'hasOwnProperty:attribute:custom', 'p:element', 'toString:element:unknown'
+		]);
+	});
+
+	test('Comments and multiple lines', () => {
+		assertTokens('<!-- a\nb -->\n<p\n  title="x\ny">', ['<!-- a:comment', 'b -->:comment', 'p:element', 'title:attribute', '"x:attributeValue', 'y":attributeValue']);
+		assertTokens('<p></p><!-- a', ['p:element', 'p:element', '<!-- a:comment']);
+	});
+
+	test('Range', () => {
+		assertTokens('<div>\n<span class="a"></span>\n</div>', ['span:element', 'class:attribute', '"a":attributeValue', 'span:element'], Range.create(1, 0, 1, 23));
+		assertTokens('<div>\n<span class="a"></span>\n</div>', ['div:element'], Range.create(2, 0, 2, 6));
+	});
+
+	test('Delta', () => {
+		const document = TextDocument.create('test://test/delta.html', 'html', 0, '<div>\n<p></p>\n</div>');
+		const first = ls.getSemanticTokens(document);
+		assert.ok(first.resultId);
+
+		const edited = TextDocument.create('test://test/delta.html', 'html', 1, '<div>\n<p title=a></p>\n</div>');
+		const delta = ls.getSemanticTokensDelta(edited, first.resultId!) as SemanticTokensDelta;
+		assert.ok(delta.edits);
+		const data = first.data.slice();
+		for (const edit of delta.edits) {
+			data.splice(edit.start, edit.deleteCount, ...(edit.data || []));
+		}
+		const second = ls.getSemanticTokens(edited);
+		assert.deepEqual(data, second.data);
+
+		const unchanged = ls.getSemanticTokensDelta(edited, second.resultId!) as SemanticTokensDelta;
+		assert.deepEqual(unchanged.edits, []);
+
+		const full = ls.getSemanticTokensDelta(edited, 'unknown') as SemanticTokens;
+		assert.deepEqual(decode(edited, full.data), ['div:element', 'p:element', 'title:attribute', 'a:attributeValue', 'p:element', 'div:element']);
+	});
+});
@@ -6,7 +6,7 @@
 import * as assert from 'assert';
 import * as htmlLanguageService from '../htmlLanguageService';
 
-import { SymbolInformation, SymbolKind, Location, Range, TextDocument } from '../htmlLanguageService';
+import { SymbolInformation, SymbolKind, Location, Range, TextDocument, DocumentSymbol, DocumentSymbolsSettings } from '../htmlLanguageService';
 
 suite('HTML Symbols', () => {
 
@@ -69,4 +69,71 @@ suite('HTML Symbols', () => {
 
 		testSymbolsFor(content, expected);
 	});
+
+	const testDocumentSymbolsFor = function (value: string, expected: DocumentSymbol[], settings?: DocumentSymbolsSettings) {
+		const ls = htmlLanguageService.getLanguageService();
+		const document = TextDocument.create(TEST_URI, 'html', 0, value);
+		const htmlDoc = ls.parseHTMLDocument(document);
+		const symbols = ls.findDocumentSymbols2(document, htmlDoc, settings);
+		assert.deepEqual(symbols, expected);
+	};
+
+	test('Document symbols', function () {
+		const content = '<body><nav id="n"><a></a></nav><h1>Title</h1><form><input></form></body>';
+
+		testDocumentSymbolsFor(content, [
+			DocumentSymbol.create('body', undefined, SymbolKind.Field, Range.create(0, 0, 0, 72), Range.create(0, 1, 0, 5), [
+				DocumentSymbol.create('nav#n', undefined, SymbolKind.Module, Range.create(0, 6, 0, 31), Range.create(0, 7, 0, 10), [
+					DocumentSymbol.create('a', undefined, SymbolKind.Field, Range.create(0, 18, 0, 25), Range.create(0, 19, 0, 20), [])
+				]),
+				DocumentSymbol.create('h1', undefined, SymbolKind.Namespace, Range.create(0, 31, 0, 45), Range.create(0, 32, 0, 34), []),
+				DocumentSymbol.create('form', undefined, SymbolKind.Struct, Range.create(0, 45, 0, 65), Range.create(0, 46, 0, 50), [
+					DocumentSymbol.create('input', undefined, SymbolKind.Property, Range.create(0, 51, 0, 58), Range.create(0, 52, 0, 57), [])
+				])
+			])
+		]);
+	});
+
+	test('Document symbols - filtered', function () {
+		const content = '<body><div><div role="navigation"><a id="top"></a><p>a</p></div><h2>Sub</h2></div></body>';
+
+		testDocumentSymbolsFor(content, [
+			DocumentSymbol.create('div', undefined, SymbolKind.Module, Range.create(0, 11, 0, 64), Range.create(0, 12, 0, 15), [
+				DocumentSymbol.create('a#top', undefined, SymbolKind.Field, Range.create(0, 34, 0, 50), Range.create(0, 35, 0, 36), [])
+			]),
+			DocumentSymbol.create('h2', undefined, SymbolKind.Namespace, Range.create(0, 64, 0, 76), Range.create(0, 65, 0, 67), [])
+		], { mode: 'filtered' });
+
+		testDocumentSymbolsFor('<constructor role="toString"><p role=\'Form \'></p></constructor>', [
+			DocumentSymbol.create('p', undefined, SymbolKind.Struct, Range.create(0, 29, 0, 49), Range.create(0, 30, 0, 31), [])
+		], { mode: 'filtered' });
+	});
+
+	test('Document symbols - headings', function () {
+		const content = [
+			'<h1>Title</h1>',
+			'<h2>First <em>part</em></h2>',
+			'<h4>Detail</h4>',
+			'<h2 id="second">Second</h2>',
+			'<section><h1>Section</h1><p>text</p></section>',
+			'<h3>Last</h3>'
+		].join('\n');
+
+		const skipped = 'Skipped heading level, expected h3';
+		testDocumentSymbolsFor(content, [
+			DocumentSymbol.create('Title', undefined, SymbolKind.Namespace, Range.create(0, 0, 5, 13), Range.create(0, 0, 0, 14), [
+				DocumentSymbol.create('First part', undefined, SymbolKind.Namespace, Range.create(1, 0, 3, 0), Range.create(1, 0, 1, 28), [
+					DocumentSymbol.create('Detail', skipped, SymbolKind.Namespace, Range.create(2, 0, 3, 0), Range.create(2, 0, 2, 15), [])
+				]),
+				DocumentSymbol.create('Second', undefined, SymbolKind.Namespace, Range.create(3, 0, 5, 13), Range.create(3, 0, 3, 27), [
+					DocumentSymbol.create('Section', undefined, SymbolKind.Namespace, Range.create(4, 9, 4, 46), Range.create(4, 9, 4, 25), []),
+					DocumentSymbol.create('Last', undefined, SymbolKind.Namespace, Range.create(5, 0, 5, 13), Range.create(5, 0, 5, 13), [])
+				])
+			])
+		], { mode: 'headings' });
+
+		testDocumentSymbolsFor('<div><h2></h2></div>', [
+			DocumentSymbol.create('h2', 'Skipped heading level, expected h1', SymbolKind.Namespace, Range.create(0, 5, 0, 20), Range.create(0, 5, 0, 14), [])
+		], { mode: 'headings' });
+	});
 });
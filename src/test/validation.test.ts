@@ -0,0 +1,243 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as htmlLanguageService from '../htmlLanguageService';
+import { TextDocument, DiagnosticSeverity, ValidationSettings, LintSettings, newHTMLDataProvider } from '../htmlLanguageService';
+
+interface ExpectedDiagnostic {
+	start: number;
+	end: number;
+	code: string;
+	severity?: DiagnosticSeverity;
+}
+
+export function assertDiagnostics(value: string, expected: ExpectedDiagnostic[], settings?: ValidationSettings, ls = htmlLanguageService.getLanguageService()): void {
+	const document = TextDocument.create('test://test/test.html', 'html', 0, value);
+	const htmlDoc = ls.parseHTMLDocument(document);
+
+	const diagnostics = ls.doValidation(document, htmlDoc, settings);
+	const actual = diagnostics.map(d => {
+		const result: ExpectedDiagnostic = { start: document.offsetAt(d.range.start), end: document.offsetAt(d.range.end), code: <string>d.code };
+		if (d.severity !== DiagnosticSeverity.Error) {
+			result.severity = d.severity;
+		}
+		return result;
+	});
+	assert.deepEqual(actual, expected, value);
+}
+
+suite('HTML Validation', () => {
+
+	test('Valid', function (): any {
+		assertDiagnostics('<html><body><div class="foo"></div><br><img/></body></html>', []);
+		assertDiagnostics('<!DOCTYPE html><!-- comment --><div>text</div>', []);
+		assertDiagnostics('<script>if (a < b) { }</script>', []);
+	});
+
+	test('Syntax errors', function (): any {
+		assertDiagnostics('<div class="foo"<span></span>', [{ start: 16, end: 16, code: 'syntax-error' }]);
+		assertDiagnostics('< div></div>', [{ start: 1, end: 2, code: 'syntax-error' }]);
+		assertDiagnostics('<div "foo"></div>', [{ start: 5, end: 6, code: 'syntax-error' }, { start: 9, end: 10, code: 'syntax-error' }]);
+		assertDiagnostics('<div></div<span></span>', [{ start: 10, end: 10, code: 'syntax-error' }]);
+	});
+
+	test('Unclosed elements', function (): any {
+		assertDiagnostics('<div>', [{ start: 1, end: 4, code: 'unclosed-element' }]);
+		assertDiagnostics('<div><span></div>', [{ start: 6, end: 10, code: 'unclosed-element' }]);
+		assertDiagnostics('<section><div><span></span></section>', [{ start: 10, end: 13, code: 'unclosed-element' }]);
+		assertDiagnostics('<div><p>a<p>b', [{ start: 1, end: 4, code: 'unclosed-element' }]);
+	});
+
+	test('Optional end tags', function (): any {
+		assertDiagnostics('<html><head><title>t</title><body><ul><li>a<li>b</ul><p>c<p>d', []);
+		assertDiagnostics('<table><tr><td>a<td>b<tr><td>c</table>', []);
+		assertDiagnostics('<ul><li><span>a<li>b</ul>', [{ start: 9, end: 13, code: 'unclosed-element' }]);
+	});
+
+	test('Unexpected end tags', function (): any {
+		assertDiagnostics('</meta>', [{ start: 0, end: 7, code: 'unexpected-end-tag' }]);
+		assertDiagnostics('<div></div></div>', [{ start: 11, end: 17, code: 'unexpected-end-tag' }]);
+		assertDiagnostics('<br></br>', [{ start: 4, end: 9, code: 'unexpected-end-tag' }]);
+		assertDiagnostics('<div></span></div>', [{ start: 5, end: 12, code: 'unexpected-end-tag' }]);
+	});
+
+	test('Duplicate attributes', function (): any {
+		assertDiagnostics('<div id="a" class="b" ID="c" id></div>', [{ start: 22, end: 24, code: 'duplicate-attribute' }, { start: 29, end: 31, code: 'duplicate-attribute' }]);
+		assertDiagnostics('<div id="a"></div><div id="a"></div>', []);
+	});
+
+	test('Disabled', function (): any {
+		assertDiagnostics('<div></span>', [], { validate: false });
+	});
+
+	const warning = DiagnosticSeverity.Warning;
+	const allLintRules: LintSettings = { unknownElements: 'warning', unknownAttributes: 'warning', invalidAttributeValues: 'warning' };
+
+	test('Lint disabled by default', function (): any {
+		assertDiagnostics('<foo bar="x"></foo><input type="colour">', []);
+	});
+
+	test('Unknown elements', function (): any {
+		assertDiagnostics('<foo></foo><div><Bar/></div>', [{ start: 1, end: 4, code: 'unknown-element', severity: warning }, { start: 17, end: 20, code: 'unknown-element', severity: warning }], { lint: allLintRules });
+		assertDiagnostics('<my-element foo="bar"></my-element>', [], { lint: allLintRules });
+		assertDiagnostics('<svg><path d="M0"/><foo/></svg><math><mi>x</mi></math>', [], { lint: allLintRules });
+		assertDiagnostics('<foo></foo>', [{ start: 1, end: 4, code: 'unknown-element' }], { lint: { unknownElements: 'error' } });
+		assertDiagnostics('<constructor></constructor><toString/>', [{ start: 1, end: 12, code: 'unknown-element', severity: warning }, { start: 28, end: 36, code: 'unknown-element', severity: warning }], { lint: allLintRules });
+		assertDiagnostics('<foo></foo>', [], { lint: { unknownElements: 'ignore', unknownAttributes: 'warning' } });
+	});
+
+	test('Unknown attributes', function (): any {
+		assertDiagnostics('<div foo="bar" class="x" data-foo="1" onclick="f()" aria-label="a"></div>', [{ start: 5, end: 8, code: 'unknown-attribute', severity: warning }], { lint: allLintRules });
+		assertDiagnostics('<img src="a.png" ALT="x" href="b">', [{ start: 25, end: 29, code: 'unknown-attribute', severity: warning }], { lint: allLintRules });
+		assertDiagnostics('<div foo></div>', [], { lint: { unknownAttributes: 'ignore' } });
+		assertDiagnostics('<div constructor="a" toString></div>', [{ start: 5, end: 16, code: 'unknown-attribute', severity: warning }, { start: 21, end: 29, code: 'unknown-attribute', severity: warning }], { lint: allLintRules });
+	});
+
+	test('Invalid attribute values', function (): any {
+		assertDiagnostics('<input type="colour">', [{ start: 12, end: 20, code: 'invalid-attribute-value', severity: warning }], { lint: allLintRules });
+		assertDiagnostics('<input type="COLOR" autocomplete="shipping street-address"><form method=post></form>', [], { lint: allLintRules });
+		assertDiagnostics('<iframe sandbox="allow-forms allow-scripts"></iframe><iframe sandbox="allow-forms allow-everything"></iframe>', [{ start: 69, end: 99, code: 'invalid-attribute-value', severity: warning }], { lint: allLintRules });
+		assertDiagnostics('<div dir="constructor"></div><iframe sandbox="allow-forms hasOwnProperty"></iframe>', [{ start: 9, end: 22, code: 'invalid-attribute-value', severity: warning }, { start: 45, end: 73, code: 'invalid-attribute-value', severity: warning }], { lint: allLintRules });
+		assertDiagnostics('<div dir="up" class="foo" role="button"></div><input type="{{type}}"><video crossorigin></video>', [{ start: 9, end: 13, code: 'invalid-attribute-value', severity: warning }], { lint: allLintRules });
+	});
+
+	test('Deprecated', function (): any {
+		assertDiagnostics('<center>a</center><table><tr><td align="left"></td></tr></table>', [
+			{ start: 1, end: 7, code: 'deprecated-element', severity: warning },
+			{ start: 33, end: 38, code: 'deprecated-attribute', severity: warning }
+		]);
+		assertDiagnostics('<center>a</center>', [{ start: 1, end: 7, code: 'deprecated-element' }], { lint: { deprecated: 'error' } });
+		assertDiagnostics('<center>a</center>', [], { lint: { deprecated: 'ignore' } });
+
+		const ls = htmlLanguageService.getLanguageService({
+			customDataProviders: [newHTMLDataProvider('custom', {
+				version: 1.1,
+				tags: [{ name: 'foo', status: 'deprecated', attributes: [{ name: 'size', values: [{ name: 'small', status: 'deprecated', replacement: 'Use \'s\'.' }, { name: 'large' }] }] }]
+			})]
+		});
+		assertDiagnostics('<foo size="large"></foo>', [{ start: 1, end: 4, code: 'deprecated-element', severity: warning }], undefined, ls);
+		assertDiagnostics('<div><foo size="small"></foo></div>', [
+			{ start: 6, end: 9, code: 'deprecated-element', severity: warning },
+			{ start: 15, end: 22, code: 'deprecated-attribute-value', severity: warning }
+		], undefined, ls);
+
+		const document = TextDocument.create('test://test/test.html', 'html', 0, '<center></center><foo size=small></foo>');
+		const messages = ls.doValidation(document, ls.parseHTMLDocument(document)).map(d => d.message);
+		assert.deepEqual(messages, [
+			'Element \'center\' is obsolete. Use the CSS `text-align` or `margin` properties.',
+			'Element \'foo\' is deprecated.',
+			'Value \'small\' of attribute \'size\' is deprecated. Use \'s\'.'
+		]);
+	});
+
+	test('Unsupported features', function (): any {
+		const content = '<dialog popover="manual" inert></dialog><img src="a.png" loading="lazy" fetchpriority="high">';
+		const targetBrowsers = ['FF115', 'S16', 'C120'];
+		assertDiagnostics(content, [
+			{ start: 8, end: 15, code: 'unsupported-feature', severity: warning },
+			{ start: 72, end: 85, code: 'unsupported-feature', severity: warning }
+		], { targetBrowsers });
+		assertDiagnostics(content, [], { targetBrowsers: ['FF132', 'S17.2', 'C120'] });
+		assertDiagnostics(content, [], { targetBrowsers, lint: { unsupportedFeatures: 'ignore' } });
+		assertDiagnostics(content, []);
+		assertDiagnostics('<dialog></dialog>', [{ start: 1, end: 7, code: 'unsupported-feature' }], { targetBrowsers: ['IE11'], lint: { unsupportedFeatures: 'error' } });
+
+		const ls = htmlLanguageService.getLanguageService({
+			customDataProviders: [newHTMLDataProvider('custom', {
+				version: 1.1,
+				tags: [{ name: 'foo', attributes: [{ name: 'size', values: [{ name: 'small', browsers: ['C100', 'FF120'] }, { name: 'large' }] }] }]
+			})]
+		});
+		const document = TextDocument.create('test://test/test.html', 'html', 0, '<foo size="small"></foo><foo size="large"></foo><div popover></div>');
+		const messages = ls.doValidation(document, ls.parseHTMLDocument(document), { targetBrowsers: ['FF115', 'S16'] }).map(d => d.message);
+		assert.deepEqual(messages, [
+			'Value \'small\' of attribute \'size\' is not supported by Firefox 115, Safari 16.',
+			'Attribute \'popover\' is not supported by Firefox 115, Safari 16.'
+		]);
+	});
+
+	test('Accessibility', function (): any {
+		const lint: LintSettings = {
+			missingAlt: 'warning', missingLabel: 'warning', missingAccessibleName: 'warning', invalidAria: 'warning',
+			positiveTabindex: 'warning', missingLang: 'warning', skippedHeadingLevels: 'warning'
+		};
+		assertDiagnostics('<img src="a.png"><img src="b.png" alt=""><input type="image" src="c.png"><area href="#a"><area>', [
+			{ start: 1, end: 4, code: 'missing-alt', severity: warning },
+			{ start: 42, end: 47, code: 'missing-alt', severity: warning },
+			{ start: 74, end: 78, code: 'missing-alt', severity: warning }
+		], { lint });
+		assertDiagnostics('<input id="a"><label for="a">A</label><label>B <input></label><input aria-label="C"><input type="hidden"><select></select><textarea title="D"></textarea>', [
+			{ start: 106, end: 112, code: 'missing-label', severity: warning }
+		], { lint });
+		assertDiagnostics('<input type="toString" id="constructor">', [{ start: 1, end: 6, code: 'missing-label', severity: warning }], { lint });
+		assertDiagnostics('<button></button><button> <!-- x --> </button><button>OK</button><a href="#"><img src="a.png" alt="Home"></a><a href="#"><span aria-hidden="true">x</span></a><a name="x"></a><button aria-label="Close"></button>', [
+			{ start: 1, end: 7, code: 'missing-accessible-name', severity: warning },
+			{ start: 18, end: 24, code: 'missing-accessible-name', severity: warning },
+			{ start: 110, end: 111, code: 'missing-accessible-name', severity: warning }
+		], { lint });
+		assertDiagnostics('<div role="buton"></div><div role="switch checkbox" aria-checked="true"></div><div role="button" aria-checked="true" aria-foo="x" aria-label="a"></div>', [
+			{ start: 11, end: 16, code: 'invalid-role', severity: warning },
+			{ start: 97, end: 109, code: 'invalid-aria-attribute', severity: warning },
+			{ start: 117, end: 125, code: 'invalid-aria-attribute', severity: warning }
+		], { lint });
+		assertDiagnostics('<p aria-label="a"></p><input type="checkbox" aria-checked="true"><input aria-checked="true"><my-element aria-checked="true"></my-element>', [
+			{ start: 3, end: 13, code: 'invalid-aria-attribute', severity: warning },
+			{ start: 72, end: 84, code: 'invalid-aria-attribute', severity: warning }
+		], { lint: { invalidAria: 'warning' } });
+		assertDiagnostics('<div tabindex="1"></div><div tabindex="0"></div><div tabindex="-1"></div>', [{ start: 14, end: 17, code: 'positive-tabindex', severity: warning }], { lint });
+		assertDiagnostics('<html><body></body></html><html lang="en"></html>', [{ start: 1, end: 5, code: 'missing-lang', severity: warning }], { lint });
+		assertDiagnostics('<h2>a</h2><h3>b</h3><h5>c</h5><h2>d</h2><h4>e</h4><svg><h6></h6></svg>', [
+			{ start: 21, end: 23, code: 'skipped-heading-level', severity: warning },
+			{ start: 41, end: 43, code: 'skipped-heading-level', severity: warning }
+		], { lint });
+
+		assertDiagnostics('<html><img src="a.png"><h1>a</h1><h3>b</h3></html>', []);
+		assertDiagnostics('<img src="a.png">', [{ start: 1, end: 4, code: 'missing-alt' }], { lint: { missingAlt: 'error' } });
+	});
+
+	test('Content model', function (): any {
+		const lint: LintSettings = { invalidContent: 'warning' };
+		assertDiagnostics('<span><div></div></span><div><a href="#"><div>x</div></a></div>', [{ start: 7, end: 10, code: 'invalid-content', severity: warning }], { lint });
+		assertDiagnostics('<body><li>a</li></body><my-list><li></li></my-list><li></li>', [
+			{ start: 7, end: 9, code: 'invalid-content', severity: warning },
+			{ start: 33, end: 35, code: 'invalid-content', severity: warning }
+		], { lint });
+		assertDiagnostics('<ul><li>a</li> text <div></div></ul><table>text<tr><td>a</td></tr></table>', [
+			{ start: 15, end: 19, code: 'invalid-content', severity: warning },
+			{ start: 21, end: 24, code: 'invalid-content', severity: warning },
+			{ start: 43, end: 47, code: 'invalid-content', severity: warning }
+		], { lint });
+		assertDiagnostics('<a href="#"><span><button>x</button></span><input type="hidden"></a><form><form></form></form>', [
+			{ start: 19, end: 25, code: 'invalid-content', severity: warning },
+			{ start: 75, end: 79, code: 'invalid-content', severity: warning }
+		], { lint });
+		assertDiagnostics('<html><head><title>t</title></head><body><p>a</p><dl><div><dt>a</dt><dd>b</dd></div></dl></body></html>', [], { lint });
+		assertDiagnostics('<ul><template><div></div></template><script></script><!-- c --> {{item}} <my-item></my-item></ul><svg><a><circle/></a></svg>', [], { lint });
+		assertDiagnostics('<span><div></div></span>', []);
+
+		const ls = htmlLanguageService.getLanguageService();
+		const document = TextDocument.create('test://test/test.html', 'html', 0, '<span><div></div></span><div><tr></tr></div><a href="#"><button></button></a><ol>x</ol>');
+		const messages = ls.doValidation(document, ls.parseHTMLDocument(document), { lint }).map(d => d.message);
+		assert.deepEqual(messages, [
+			'Element \'div\' is not allowed in element \'span\'.',
+			'Element \'tr\' must be a child of \'table\', \'thead\', \'tbody\', \'tfoot\'.',
+			'Element \'button\' cannot be nested in element \'a\'.',
+			'Text is not allowed in element \'ol\'.'
+		]);
+	});
+
+	test('Custom data providers', function (): any {
+		const ls = htmlLanguageService.getLanguageService({
+			customDataProviders: [newHTMLDataProvider('custom', {
+				version: 1,
+				tags: [{ name: 'foo', attributes: [{ name: 'size', values: [{ name: 'small' }, { name: 'large' }] }] }],
+				globalAttributes: [{ name: 'v-if' }]
+			})]
+		});
+		assertDiagnostics('<foo size="small" v-if="a"></foo><div v-if="b"></div>', [], { lint: allLintRules }, ls);
+		assertDiagnostics('<foo size="medium"></foo>', [{ start: 10, end: 18, code: 'invalid-attribute-value', severity: warning }], { lint: allLintRules }, ls);
+	});
+});
@@ -48,6 +48,20 @@ export function commonPrefixLength(a: string, b: string): number {
 	return len;
 }
 
+/**
+ * Removes the quote at the start of an attribute value and the matching quote at its end, if any.
+ */
+export function trimQuotes(s: string): string {
+	const first = s[0];
+	if (first === '\'' || first === '"') {
+		s = s.substr(1);
+		if (s[s.length - 1] === first) {
+			s = s.substr(0, s.length - 1);
+		}
+	}
+	return s;
+}
+
 export function repeat(value: string, count: number) {
 	let s = '';
 	while (count > 0) {